@@ -58,7 +58,9 @@ module.exports = {
 
   // Module name mapping for absolute imports
   moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1'
+    '^@/(.*)$': '<rootDir>/src/$1',
+    // src/cli imports its core modules with a .js suffix
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   },
 
   // TypeScript configuration
@@ -3,6 +3,10 @@ import path from 'path';
 import fs from 'fs';
 import * as yaml from 'js-yaml';
 import { Logger } from '../core/logger.js';
+import { LLMProvider, LLM_PROVIDERS } from '../core/llm/types.js';
+import { ReportFormat } from '../core/reporters/types.js';
+import { ADOAuthMethod } from '../core/auth/types.js';
+import { AzureDevOpsRepoInfo, parseAzureDevOpsUrl } from '../core/adoUrl.js';
 
 export interface ReviewOptions {
   // PR identification
@@ -11,6 +15,13 @@ export interface ReviewOptions {
   org?: string;
   project?: string;
   repo?: string;
+  serverUrl?: string;
+  auth?: ADOAuthMethod;
+
+  // Local review (git refs in the current working copy)
+  base?: string;
+  head?: string;
+  diffFile?: string;
   
   // Rules and configuration
   rules: string[];
@@ -24,7 +35,7 @@ export interface ReviewOptions {
   allFiles: boolean;
   
   // LLM configuration
-  provider: 'gemini-api' | 'openai' | 'openrouter';
+  provider: LLMProvider;
   model: string;
   maxContextTokens: number;
   
@@ -40,7 +51,10 @@ export interface ReviewOptions {
   postStatus: boolean;
   autoApprove: boolean;
   dryRun: boolean;
-  format: 'table' | 'json';
+  incremental: boolean;
+  format: 'table' | ReportFormat;
+  output?: string;
+  reportUrl?: string;
   severityThreshold: 'info' | 'warning' | 'error';
   verbose: boolean;
 }
@@ -73,6 +87,11 @@ export class ArgsParser {
       org: options.org,
       project: options.project,
       repo: options.repo,
+
+      // Local review
+      base: options.base,
+      head: options.head,
+      diffFile: options.diffFile,
       
       // Rules and configuration
       rules: await this.expandRulesPaths(options.rules || []),
@@ -102,7 +121,12 @@ export class ArgsParser {
       postStatus: options.postStatus || false,
       autoApprove: options.autoApprove || false,
       dryRun: options.dryRun || false,
+      incremental: options.incremental || false,
       format: options.format || 'table',
+      output: options.output,
+      auth: options.auth,
+      serverUrl: options.serverUrl,
+      reportUrl: options.reportUrl,
       severityThreshold: options.severityThreshold || 'info',
       verbose: options.verbose || false
     };
@@ -135,6 +159,13 @@ export class ArgsParser {
     throw new Error('Invalid PR information provided');
   }
 
+  /**
+   * Check whether the review runs without an Azure DevOps pull request
+   */
+  public isOfflineReview(options: ReviewOptions): boolean {
+    return options.base !== undefined || options.diffFile !== undefined;
+  }
+
   /**
    * Expand glob patterns in rules paths
    */
@@ -171,18 +202,30 @@ export class ArgsParser {
    * Validate parsed options
    */
   private async validateOptions(options: ReviewOptions): Promise<void> {
-    // Validate PR information
-    if (!options.prUrl && !options.pr) {
-      throw new Error('Either --pr-url or --pr must be provided');
-    }
+    if (options.diffFile !== undefined) {
+      // Validate diff input ('-' reads from stdin)
+      if (options.diffFile !== '-' && !fs.existsSync(options.diffFile)) {
+        throw new Error(`Diff file not found: ${options.diffFile}`);
+      }
+    } else if (this.isOfflineReview(options)) {
+      // Validate local refs
+      if (!options.base || !options.head) {
+        throw new Error('Both --base and --head must be provided for a local review');
+      }
+    } else {
+      // Validate PR information
+      if (!options.prUrl && !options.pr) {
+        throw new Error('Either --pr-url or --pr must be provided');
+      }
 
-    if (options.pr && (!options.org || !options.project || !options.repo)) {
-      throw new Error('When using --pr, you must also provide --org, --project, and --repo');
-    }
+      if (options.pr && (!options.org || !options.project || !options.repo)) {
+        throw new Error('When using --pr, you must also provide --org, --project, and --repo');
+      }
 
-    // Validate PR URL format if provided
-    if (options.prUrl && !this.isValidAzureDevOpsPRUrl(options.prUrl)) {
-      throw new Error('Invalid Azure DevOps PR URL format');
+      // Validate PR URL format if provided
+      if (options.prUrl && !this.isValidAzureDevOpsPRUrl(options.prUrl)) {
+        throw new Error('Invalid Azure DevOps PR URL format');
+      }
     }
 
     // Validate rules files exist
@@ -244,9 +287,8 @@ export class ArgsParser {
     }
 
     // Validate provider and model
-    const validProviders = ['gemini-api', 'openai', 'openrouter'];
-    if (!validProviders.includes(options.provider)) {
-      throw new Error(`Invalid provider: ${options.provider}. Supported providers: ${validProviders.join(', ')}`);
+    if (!LLM_PROVIDERS.includes(options.provider)) {
+      throw new Error(`Invalid provider: ${options.provider}. Supported providers: ${LLM_PROVIDERS.join(', ')}`);
     }
 
     // Provider specific validation
@@ -266,31 +308,22 @@ export class ArgsParser {
       if (!process.env['OPENROUTER_API_KEY']) {
         this.logger.warn('OPENROUTER_API_KEY is not set; OpenRouter requests will fail');
       }
+    } else if (options.provider === 'anthropic') {
+      if (!process.env['ANTHROPIC_API_KEY']) {
+        this.logger.warn('ANTHROPIC_API_KEY is not set; Anthropic requests will fail');
+      }
+    } else if (options.provider === 'azure-openai') {
+      if (!process.env['AZURE_OPENAI_API_KEY'] && !process.env['AZURE_OPENAI_AD_TOKEN']) {
+        this.logger.info('AZURE_OPENAI_API_KEY is not set; an Entra ID token will be requested from the Azure CLI');
+      }
     }
   }
 
   /**
-   * Validate Azure DevOps PR URL format
+   * Validate Azure DevOps PR URL format (Services or Server collection URLs)
    */
   private isValidAzureDevOpsPRUrl(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      
-      // Check if it's an Azure DevOps domain
-      const validDomains = ['dev.azure.com', 'visualstudio.com'];
-      const isValidDomain = validDomains.some(domain => 
-        urlObj.hostname === domain || urlObj.hostname.endsWith(`.${domain}`)
-      );
-      
-      if (!isValidDomain) {
-        return false;
-      }
-
-      // Check if URL contains pullrequest path
-      return urlObj.pathname.includes('/pullrequest/') || urlObj.pathname.includes('/_git/');
-    } catch {
-      return false;
-    }
+    return parseAzureDevOpsUrl(url) !== null;
   }
 
   /**
@@ -320,45 +353,16 @@ export class ArgsParser {
   }
 
   /**
-   * Extract organization, project, and repo from Azure DevOps URL
+   * Extract collection URL, organization, project, and repo from Azure DevOps URL
    */
-  public extractRepoInfoFromUrl(url: string): { org: string; project: string; repo: string } | null {
-    try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split('/').filter(part => part.length > 0);
-      
-      if (urlObj.hostname === 'dev.azure.com') {
-        // Format: https://dev.azure.com/{org}/{project}/_git/{repo}
-        if (pathParts.length >= 4 && pathParts[2] === '_git' && pathParts[0] && pathParts[1] && pathParts[3]) {
-          return {
-            org: pathParts[0],
-            project: pathParts[1],
-            repo: pathParts[3]
-          };
-        }
-      } else if (urlObj.hostname.endsWith('.visualstudio.com')) {
-        // Format: https://{org}.visualstudio.com/{project}/_git/{repo}
-        const orgParts = urlObj.hostname.split('.');
-        const org = orgParts[0];
-        if (pathParts.length >= 3 && pathParts[1] === '_git' && org && pathParts[0] && pathParts[2]) {
-          return {
-            org,
-            project: pathParts[0],
-            repo: pathParts[2]
-          };
-        }
-      }
-      
-      return null;
-    } catch {
-      return null;
-    }
+  public extractRepoInfoFromUrl(url: string): AzureDevOpsRepoInfo | null {
+    return parseAzureDevOpsUrl(url);
   }
 
   /**
    * Get valid models from defaults.yaml configuration
    */
-  private getValidModelsFromConfig(provider: 'gemini' | 'openai' | 'openrouter' = 'gemini'): string[] {
+  private getValidModelsFromConfig(provider: 'gemini' | 'openai' | 'openrouter' | 'anthropic' | 'azure-openai' | 'openai-compatible' = 'gemini'): string[] {
     try {
       const configPath = path.join(__dirname, '..', 'config', 'defaults.yaml');
       const configContent = fs.readFileSync(configPath, 'utf8');
@@ -376,6 +380,23 @@ export class ArgsParser {
         }
         this.logger.warn('Could not load available OpenAI models from config');
         return [];
+      } else if (provider === 'anthropic') {
+        if (config?.anthropic?.availableModels && Array.isArray(config.anthropic.availableModels)) {
+          return config.anthropic.availableModels;
+        }
+        this.logger.warn('Could not load available Anthropic models from config');
+        return [];
+      } else if (provider === 'azure-openai') {
+        if (config?.azureOpenai?.availableModels && Array.isArray(config.azureOpenai.availableModels)) {
+          return config.azureOpenai.availableModels;
+        }
+        this.logger.warn('Could not load available Azure OpenAI deployments from config');
+        return [];
+      } else if (provider === 'openai-compatible') {
+        if (config?.openaiCompatible?.availableModels && Array.isArray(config.openaiCompatible.availableModels)) {
+          return config.openaiCompatible.availableModels;
+        }
+        return [];
       } else {
         if (config?.openrouter?.availableModels && Array.isArray(config.openrouter.availableModels)) {
           return config.openrouter.availableModels;
@@ -391,7 +412,7 @@ export class ArgsParser {
     }
   }
 
-  private getDefaultModelForProvider(provider: 'gemini-api' | 'openai' | 'openrouter'): string {
+  private getDefaultModelForProvider(provider: LLMProvider): string {
     try {
       const configPath = path.join(__dirname, '..', 'config', 'defaults.yaml');
       const configContent = fs.readFileSync(configPath, 'utf8');
@@ -409,6 +430,24 @@ export class ArgsParser {
         }
         this.logger.warn('Could not load default OpenRouter model from config, using fallback default');
         return 'openai/gpt-4o-mini';
+      } else if (provider === 'anthropic') {
+        if (config?.anthropic?.defaultModel && typeof config.anthropic.defaultModel === 'string') {
+          return config.anthropic.defaultModel;
+        }
+        this.logger.warn('Could not load default Anthropic model from config, using fallback default');
+        return 'claude-sonnet-4-20250514';
+      } else if (provider === 'azure-openai') {
+        if (config?.azureOpenai?.defaultModel && typeof config.azureOpenai.defaultModel === 'string') {
+          return config.azureOpenai.defaultModel;
+        }
+        this.logger.warn('Could not load default Azure OpenAI deployment from config, using fallback default');
+        return 'gpt-4o-mini';
+      } else if (provider === 'openai-compatible') {
+        if (config?.openaiCompatible?.defaultModel && typeof config.openaiCompatible.defaultModel === 'string') {
+          return config.openaiCompatible.defaultModel;
+        }
+        this.logger.warn('Could not load default OpenAI-compatible model from config, using fallback default');
+        return 'qwen2.5-coder:7b';
       } else {
         if (config?.gemini?.defaultModel && typeof config.gemini.defaultModel === 'string') {
           return config.gemini.defaultModel;
@@ -420,16 +459,19 @@ export class ArgsParser {
       this.logger.warn(`Error loading config file: ${error}. Using fallback default model.`);
       if (provider === 'openai') return 'gpt-4o-mini';
       if (provider === 'openrouter') return 'openai/gpt-4o-mini';
+      if (provider === 'anthropic') return 'claude-sonnet-4-20250514';
+      if (provider === 'azure-openai') return 'gpt-4o-mini';
+      if (provider === 'openai-compatible') return 'qwen2.5-coder:7b';
       return 'gemini-pro';
     }
   }
 
-  private getDefaultProviderFromConfig(): 'gemini-api' | 'openai' | 'openrouter' {
+  private getDefaultProviderFromConfig(): LLMProvider {
     try {
       const configPath = path.join(__dirname, '..', 'config', 'defaults.yaml');
       const configContent = fs.readFileSync(configPath, 'utf8');
       const config = yaml.load(configContent) as any;
-      if (config?.llm?.defaultProvider && ['gemini-api','openai','openrouter'].includes(config.llm.defaultProvider)) {
+      if (config?.llm?.defaultProvider && LLM_PROVIDERS.includes(config.llm.defaultProvider)) {
         return config.llm.defaultProvider;
       }
     } catch {}
@@ -3,12 +3,22 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import path, { join } from 'path';
-import { readFileSync } from 'fs';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
 import * as yaml from 'js-yaml';
 import { Logger } from '../core/logger.js';
 import { ErrorHandler } from '../core/errorHandler.js';
 import { ReviewOrchestrator } from '../core/reviewOrchestrator.js';
 import { ConfigLoader } from '../core/configLoader.js';
+import { LLMProvider, LLM_PROVIDERS } from '../core/llm/types.js';
+import { REPORT_FORMATS } from '../core/reporters/types.js';
+import { ADO_AUTH_METHODS } from '../core/auth/types.js';
+import { ReviewQueue } from '../core/webhook/reviewQueue.js';
+import { WebhookReview, WebhookServer } from '../core/webhook/webhookServer.js';
+import { PULL_REQUEST_COMMENT_EVENT, resolveRepositoryConfig } from '../core/webhook/serviceHook.js';
+import { BatchReviewer } from '../core/batchReviewer.js';
+import { BATCH_REPORT_FORMATS, renderBatchReport } from '../core/batchReport.js';
+import { WatchStateStore } from '../core/watchState.js';
+import { parseDuration } from '../core/duration.js';
 
 const program = new Command();
 // Initialize logger with basic settings first, will be reconfigured after loading config
@@ -17,12 +27,12 @@ const errorHandler = new ErrorHandler(logger);
 const configLoader = new ConfigLoader(logger, errorHandler);
 
 // Functions to get defaults from config
-function getDefaultProviderFromConfig(): 'gemini-api' | 'openai' | 'openrouter' {
+function getDefaultProviderFromConfig(): LLMProvider {
   try {
     const configPath = join(__dirname, '..', 'config', 'defaults.yaml');
     const configContent = readFileSync(configPath, 'utf8');
     const config = yaml.load(configContent) as any;
-    if (config?.llm?.defaultProvider && ['gemini-api','openai','openrouter'].includes(config.llm.defaultProvider)) {
+    if (config?.llm?.defaultProvider && LLM_PROVIDERS.includes(config.llm.defaultProvider)) {
       return config.llm.defaultProvider;
     }
   } catch {}
@@ -41,6 +51,15 @@ function getDefaultModelFromConfig(): string {
     if (provider === 'openrouter') {
       return (config?.openrouter?.defaultModel as string) || 'openai/gpt-4o-mini';
     }
+    if (provider === 'anthropic') {
+      return (config?.anthropic?.defaultModel as string) || 'claude-sonnet-4-20250514';
+    }
+    if (provider === 'azure-openai') {
+      return (config?.azureOpenai?.defaultModel as string) || 'gpt-4o-mini';
+    }
+    if (provider === 'openai-compatible') {
+      return (config?.openaiCompatible?.defaultModel as string) || 'qwen2.5-coder:7b';
+    }
     return (config?.gemini?.defaultModel as string) || 'gemini-pro';
   } catch (error) {
     return 'gemini-pro';
@@ -57,64 +76,331 @@ program
   .description('Azure DevOps PR Review CLI - AI Agent supported CLI tool for automated Pull Request reviews')
   .version(packageJson.version);
 
+// Options shared by every command that runs the review pipeline
+function addReviewPipelineOptions(command: Command): Command {
+  return command
+    .option('--rules <paths...>', 'Paths to rule files (YAML/JSON/MD)', [])
+    .option('--project-rules <path>', 'Path to project-specific rules file')
+    .option('--custom-prompt-template <path>', 'Path to custom prompt template file')
+    .option('--include <patterns...>', 'File patterns to include', [])
+    .option('--exclude <patterns...>', 'File patterns to exclude', [])
+    .option('--files <files...>', 'Specific files to review', [])
+    .option('--all-files', 'Review all files (not just changed ones)', false)
+    .option('--provider <name>', `LLM provider (${LLM_PROVIDERS.join('|')})`, getDefaultProviderFromConfig())
+    .option('--model <name>', 'Model to use for selected provider', getDefaultModelFromConfig())
+    .option('--max-context-tokens <number>', 'Maximum context tokens for LLM', parseInt, 32000)
+    .option('--ratelimit-batch <number>', 'Batch size for rate limiting', parseInt, 5)
+    .option('--ratelimit-sleep-ms <number>', 'Sleep time between batches (ms)', parseInt, 1000);
+}
+
+// Create a logger configured from the loaded configuration and the --verbose flag
+async function createConfiguredLogger(options: any): Promise<Logger> {
+  // Load configuration to get log level from ADO_REVIEW_LOG_LEVEL
+  await configLoader.loadConfig();
+  const loggingConfig = await configLoader.getLoggingConfig();
+  
+  // Reconfigure logger with proper file logging settings
+  const loggerOptions: any = {
+    level: loggingConfig.level as any,
+    enableFile: loggingConfig.file.enabled,
+    enableConsole: loggingConfig.console.enabled,
+    maskSecrets: true
+  };
+  
+  // Only add logFile if file logging is enabled
+  if (loggingConfig.file.enabled) {
+    loggerOptions.logFile = path.join(process.cwd(), loggingConfig.file.path);
+  }
+  
+  // Create new logger with proper configuration
+  const configuredLogger = new Logger(loggerOptions);
+  
+  // Override with verbose flag if provided
+  if (options.verbose) {
+    configuredLogger.setLevel('debug');
+  }
+
+  return configuredLogger;
+}
+
+// Validate options shared by the review pipeline commands
+function validateReviewOptions(options: any): void {
+  // Validate severity threshold
+  const validSeverities = ['info', 'warn', 'error'];
+  if (!validSeverities.includes(options.severityThreshold)) {
+    throw new Error(`Invalid severity threshold. Must be one of: ${validSeverities.join(', ')}`);
+  }
+
+  // Validate output format
+  const validFormats = ['table', ...REPORT_FORMATS];
+  if (!validFormats.includes(options.format)) {
+    throw new Error(`Invalid format. Must be one of: ${validFormats.join(', ')}`);
+  }
+  if (options.output && options.format === 'table') {
+    throw new Error(`--output requires a report format: ${REPORT_FORMATS.join(', ')}`);
+  }
+
+  // Validate Azure DevOps auth method
+  if (options.auth && !ADO_AUTH_METHODS.includes(options.auth)) {
+    throw new Error(`Invalid auth method. Must be one of: ${ADO_AUTH_METHODS.join(', ')}`);
+  }
+}
+
+// Configure logger, run the review orchestrator and map the result to an exit code
+async function runReview(options: any, startMessage: string): Promise<void> {
+  const configuredLogger = await createConfiguredLogger(options);
+  configuredLogger.info(chalk.blue(startMessage));
+  validateReviewOptions(options);
+
+  // Create review orchestrator and run review
+  const orchestrator = new ReviewOrchestrator(configuredLogger, options, true);
+  const result = await orchestrator.run();
+
+  // Handle exit codes based on results
+  if (result.hasErrors) {
+    if (result.errorMessage) {
+      configuredLogger.error(chalk.red(`❌ ${result.errorMessage}`));
+      if (options.verbose && result.errorStack) {
+        configuredLogger.debug(result.errorStack);
+      }
+    } else {
+      configuredLogger.error(chalk.red('❌ Review completed with errors'));
+    }
+    process.exit(2);
+  } else if (result.hasFindings && options.severityThreshold !== 'info') {
+    logger.warn(chalk.yellow('⚠️  Review completed with findings above threshold'));
+    process.exit(2);
+  } else {
+    logger.info(chalk.green('✅ Review completed successfully'));
+    process.exit(0);
+  }
+}
+
+// Run the webhook server until the process is stopped
+async function runServer(options: any): Promise<void> {
+  const configuredLogger = await createConfiguredLogger(options);
+  validateReviewOptions(options);
+
+  const serverConfig = (await configLoader.getConfig()).server;
+  const credentials = {
+    secretHeader: serverConfig?.secretHeader ?? 'X-ADO-Review-Secret',
+    ...(process.env['ADO_REVIEW_WEBHOOK_SECRET'] && { secret: process.env['ADO_REVIEW_WEBHOOK_SECRET'] }),
+    ...(process.env['ADO_REVIEW_WEBHOOK_USERNAME'] && { username: process.env['ADO_REVIEW_WEBHOOK_USERNAME'] }),
+    ...(process.env['ADO_REVIEW_WEBHOOK_PASSWORD'] && { password: process.env['ADO_REVIEW_WEBHOOK_PASSWORD'] })
+  };
+  if (!credentials.secret && !(credentials.username && credentials.password)) {
+    throw new Error('Set ADO_REVIEW_WEBHOOK_SECRET, or ADO_REVIEW_WEBHOOK_USERNAME and ADO_REVIEW_WEBHOOK_PASSWORD, to authenticate service hook requests');
+  }
+
+  const queue = new ReviewQueue<WebhookReview>(configuredLogger, async ({ event }) => {
+    const { enabled, ...overrides } = resolveRepositoryConfig(serverConfig?.repositories, event.project, event.repo);
+    if (enabled === false) {
+      configuredLogger.info(`Reviews are disabled for ${event.project}/${event.repo}, skipping PR ${event.pullRequestId}`);
+      return;
+    }
+
+    // Nobody is there to answer the approval prompt, so findings are posted unless this is a dry run
+    const reviewOptions = { ...options, ...overrides, prUrl: event.prUrl };
+    const orchestrator = new ReviewOrchestrator(configuredLogger, { ...reviewOptions, autoApprove: !reviewOptions.dryRun });
+
+    if (event.eventType === PULL_REQUEST_COMMENT_EVENT) {
+      const conversation = await orchestrator.runConversation();
+      if (conversation.repliesPosted > 0) {
+        configuredLogger.info(chalk.green(`✅ PR ${event.pullRequestId}: answered ${conversation.repliesPosted} thread repl${conversation.repliesPosted === 1 ? 'y' : 'ies'}`));
+      }
+      return;
+    }
+
+    configuredLogger.info(chalk.blue(`🚀 Reviewing PR ${event.pullRequestId} in ${event.project}/${event.repo}...`));
+    const result = await orchestrator.run();
+    if (result.hasErrors) {
+      throw new Error(result.errorMessage ?? 'Review completed with errors');
+    }
+    configuredLogger.info(chalk.green(`✅ PR ${event.pullRequestId}: ${result.findingsCount} finding(s), ${result.commentsPosted} comment(s) posted`));
+  }, {
+    debounceMs: options.debounceMs ?? serverConfig?.debounceMs ?? 30000,
+    maxConcurrent: options.maxConcurrent ?? serverConfig?.maxConcurrent ?? 1
+  });
+
+  const server = new WebhookServer(configuredLogger, errorHandler, {
+    port: options.port ?? serverConfig?.port ?? 8080,
+    host: options.host ?? serverConfig?.host ?? '0.0.0.0',
+    path: serverConfig?.path ?? '/webhook',
+    maxBodyBytes: serverConfig?.maxBodyBytes ?? 1024 * 1024,
+    credentials
+  }, queue);
+  await server.start();
+
+  const shutdown = async () => {
+    configuredLogger.info('Shutting down webhook server, waiting for running reviews...');
+    await server.stop();
+    queue.clear();
+    await queue.onIdle();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+// Review all active PRs of a project or repository and print the aggregate report
+async function runBatchReview(options: any): Promise<void> {
+  const configuredLogger = await createConfiguredLogger(options);
+  configuredLogger.info(chalk.blue(`🚀 Reviewing active pull requests in ${options.repo ? `${options.project}/${options.repo}` : options.project}...`));
+
+  if (!BATCH_REPORT_FORMATS.includes(options.format)) {
+    throw new Error(`Invalid format. Must be one of: ${BATCH_REPORT_FORMATS.join(', ')}`);
+  }
+  // Individual PR reviews do not write reports; only the aggregate report is rendered
+  validateReviewOptions({ ...options, format: 'table', output: undefined });
+
+  let createdAfter: Date | undefined;
+  if (options.createdAfter) {
+    createdAfter = new Date(options.createdAfter);
+    if (isNaN(createdAfter.getTime())) {
+      throw new Error(`Invalid --created-after date: ${options.createdAfter}`);
+    }
+  }
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+
+  const { format, output, ...reviewOptions } = options;
+  const batchReviewer = new BatchReviewer(configuredLogger, errorHandler);
+  const report = await batchReviewer.run({
+    org: options.org,
+    project: options.project,
+    concurrency: options.concurrency,
+    reviewOptions: { ...reviewOptions, format: 'table' },
+    ...(options.repo && { repo: options.repo }),
+    ...(options.targetBranch && { targetBranch: options.targetBranch }),
+    ...(createdAfter && { createdAfter }),
+    ...(options.serverUrl && { serverUrl: options.serverUrl }),
+    ...(options.auth && { auth: options.auth })
+  });
+
+  const content = renderBatchReport(report, format);
+  if (output) {
+    const resolved = path.resolve(output);
+    mkdirSync(path.dirname(resolved), { recursive: true });
+    writeFileSync(resolved, content.endsWith('\n') ? content : content + '\n', 'utf8');
+    configuredLogger.info(`Aggregate report written to ${resolved}`);
+    if (format === 'markdown' && process.env['TF_BUILD']) {
+      console.log(`##vso[task.uploadsummary]${resolved}`);
+    }
+  } else {
+    console.log(content);
+  }
+
+  if (report.totals.failed > 0) {
+    configuredLogger.error(chalk.red(`❌ ${report.totals.failed} pull request review(s) failed`));
+    process.exit(2);
+  } else if (report.totals.findings > 0 && options.severityThreshold !== 'info') {
+    configuredLogger.warn(chalk.yellow('⚠️  Sweep completed with findings above threshold'));
+    process.exit(2);
+  } else {
+    configuredLogger.info(chalk.green('✅ Sweep completed successfully'));
+    process.exit(0);
+  }
+}
+
+// Poll active PRs and review new iterations until the process is stopped
+async function runWatch(options: any): Promise<void> {
+  const configuredLogger = await createConfiguredLogger(options);
+  validateReviewOptions(options);
+
+  const intervalMs = parseDuration(options.interval);
+  if (intervalMs === undefined || intervalMs < 10000) {
+    throw new Error(`Invalid --interval: ${options.interval}. Use a duration of at least 10s, e.g. 30s, 5m or 1h`);
+  }
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+
+  const state = new WatchStateStore(configuredLogger, options.stateFile);
+  state.load();
+
+  const batchReviewer = new BatchReviewer(configuredLogger, errorHandler);
+  const scope = options.repo ? `${options.project}/${options.repo}` : options.project;
+  configuredLogger.info(chalk.blue(`👀 Watching active pull requests in ${scope} every ${options.interval}...`));
+
+  let stopping = false;
+  let wakeUp: (() => void) | undefined;
+  const stop = () => {
+    configuredLogger.info('Stopping watch...');
+    stopping = true;
+    wakeUp?.();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  const { format, output, interval, stateFile, ...reviewOptions } = options;
+  while (!stopping) {
+    try {
+      const report = await batchReviewer.run({
+        org: options.org,
+        project: options.project,
+        concurrency: options.concurrency,
+        reviewOptions: { ...reviewOptions, format: 'table' },
+        state,
+        ...(options.repo && { repo: options.repo }),
+        ...(options.targetBranch && { targetBranch: options.targetBranch }),
+        ...(options.serverUrl && { serverUrl: options.serverUrl }),
+        ...(options.auth && { auth: options.auth })
+      });
+
+      const { reviewed, failed, findings } = report.totals;
+      if (reviewed > 0 || failed > 0) {
+        configuredLogger.info(`Poll finished: ${reviewed} reviewed, ${failed} failed, ${findings} finding(s)`);
+      } else {
+        configuredLogger.debug('Poll finished: no new iterations');
+      }
+    } catch (error) {
+      // A failed poll (network, expired credentials) is retried on the next interval
+      configuredLogger.error(`Poll failed: ${(error as Error).message}`);
+    }
+
+    if (!stopping) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, intervalMs);
+        wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      wakeUp = undefined;
+    }
+  }
+
+  configuredLogger.info('Watch stopped');
+  process.exit(0);
+}
+
 // Main review command
-program
-  .command('review')
-  .description('Review a Pull Request using AI-powered analysis')
-  .option('--pr-url <url>', 'Azure DevOps Pull Request URL')
-  .option('--pr <id>', 'Pull Request ID (requires --org, --project, --repo)')
-  .option('--org <organization>', 'Azure DevOps organization name')
-  .option('--project <project>', 'Azure DevOps project name')
-  .option('--repo <repository>', 'Repository name')
-  .option('--rules <paths...>', 'Paths to rule files (YAML/JSON/MD)', [])
-  .option('--project-rules <path>', 'Path to project-specific rules file')
-  .option('--custom-prompt-template <path>', 'Path to custom prompt template file')
-  .option('--include <patterns...>', 'File patterns to include', [])
-  .option('--exclude <patterns...>', 'File patterns to exclude', [])
-  .option('--files <files...>', 'Specific files to review', [])
-  .option('--all-files', 'Review all files (not just changed ones)', false)
-  .option('--provider <name>', 'LLM provider (gemini-api|openai|openrouter)', getDefaultProviderFromConfig())
-  .option('--model <name>', 'Model to use for selected provider', getDefaultModelFromConfig())
-  .option('--max-context-tokens <number>', 'Maximum context tokens for LLM', parseInt, 32000)
-  .option('--ratelimit-batch <number>', 'Batch size for rate limiting', parseInt, 5)
-  .option('--ratelimit-sleep-ms <number>', 'Sleep time between batches (ms)', parseInt, 1000)
+addReviewPipelineOptions(
+  program
+    .command('review')
+    .description('Review a Pull Request using AI-powered analysis')
+    .option('--pr-url <url>', 'Azure DevOps Pull Request URL')
+    .option('--pr <id>', 'Pull Request ID (requires --org, --project, --repo)')
+    .option('--org <organization>', 'Azure DevOps organization name')
+    .option('--project <project>', 'Azure DevOps project name')
+    .option('--repo <repository>', 'Repository name')
+    .option('--auth <method>', `Azure DevOps credential provider (${ADO_AUTH_METHODS.join('|')})`)
+    .option('--server-url <url>', 'Azure DevOps Server base URL for on-premises collections (used with --org)')
+)
   .option('--tmp-dir <path>', 'Custom temporary directory path')
   .option('--keep-workdir', 'Keep temporary working directory after completion', false)
   .option('--post-status', 'Post PR status to Azure DevOps', false)
   .option('--auto-approve', 'Automatically approve and post all findings', false)
   .option('--dry-run', 'Show findings without posting to Azure DevOps', false)
-  .option('--format <type>', 'Output format (table|json)', 'table')
+  .option('--incremental', 'Only review iterations pushed since the last ado-review run', false)
+  .option('--format <type>', `Output format (${['table', ...REPORT_FORMATS].join('|')})`, 'table')
+  .option('--output <file>', 'Write the report to a file instead of stdout')
+  .option('--report-url <url>', 'Link the PR status to this URL (${VAR} placeholders are expanded from the environment)')
   .option('--severity-threshold <level>', 'Minimum severity level to report (info|warning|error)', 'info')
   .option('--verbose', 'Enable verbose logging', false)
   .action(async (options) => {
     try {
-      // Load configuration to get log level from ADO_REVIEW_LOG_LEVEL
-      await configLoader.loadConfig();
-      const loggingConfig = await configLoader.getLoggingConfig();
-      
-      // Reconfigure logger with proper file logging settings
-       const loggerOptions: any = {
-         level: loggingConfig.level as any,
-         enableFile: loggingConfig.file.enabled,
-         enableConsole: loggingConfig.console.enabled,
-         maskSecrets: true
-       };
-       
-       // Only add logFile if file logging is enabled
-       if (loggingConfig.file.enabled) {
-         loggerOptions.logFile = path.join(process.cwd(), loggingConfig.file.path);
-       }
-      
-      // Create new logger with proper configuration
-      const configuredLogger = new Logger(loggerOptions);
-      
-      // Override with verbose flag if provided
-      if (options.verbose) {
-        configuredLogger.setLevel('debug');
-      }
-      
-      configuredLogger.info(chalk.blue('🚀 Starting Azure DevOps PR Review...'));
-      
       // Validate required parameters
       if (!options.prUrl && !options.pr) {
         throw new Error('Either --pr-url or --pr (with --org, --project, --repo) must be provided');
@@ -124,41 +410,115 @@ program
         throw new Error('When using --pr, you must also provide --org, --project, and --repo');
       }
 
-      // Validate severity threshold
-      const validSeverities = ['info', 'warn', 'error'];
-      if (!validSeverities.includes(options.severityThreshold)) {
-        throw new Error(`Invalid severity threshold. Must be one of: ${validSeverities.join(', ')}`);
-      }
+      await runReview(options, '🚀 Starting Azure DevOps PR Review...');
+    } catch (error) {
+      await errorHandler.handle(error);
+    }
+  });
 
-      // Validate output format
-      const validFormats = ['table', 'json'];
-      if (!validFormats.includes(options.format)) {
-        throw new Error(`Invalid format. Must be one of: ${validFormats.join(', ')}`);
-      }
+// Local review command (no Azure DevOps access required)
+addReviewPipelineOptions(
+  program
+    .command('local')
+    .description('Review changes between two git refs in the current working copy')
+    .option('--base <ref>', 'Base git ref to compare against', 'main')
+    .option('--head <ref>', 'Head git ref containing the changes', 'HEAD')
+    .option('--diff-file <path>', "Review a unified diff file instead of git refs ('-' reads stdin)")
+)
+  .option('--format <type>', `Output format (${['table', ...REPORT_FORMATS].join('|')})`, 'table')
+  .option('--output <file>', 'Write the report to a file instead of stdout')
+  .option('--severity-threshold <level>', 'Minimum severity level to report (info|warning|error)', 'info')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      const target = options.diffFile
+        ? `diff ${options.diffFile === '-' ? 'from stdin' : options.diffFile}`
+        : `${options.base}..${options.head}`;
+      await runReview(options, `🚀 Starting local review of ${target}...`);
+    } catch (error) {
+      await errorHandler.handle(error);
+    }
+  });
 
-      // Create review orchestrator and run review
-      const orchestrator = new ReviewOrchestrator(configuredLogger, options);
-      const result = await orchestrator.run();
-
-      // Handle exit codes based on results
-      if (result.hasErrors) {
-        if (result.errorMessage) {
-          configuredLogger.error(chalk.red(`❌ ${result.errorMessage}`));
-          if (options.verbose && result.errorStack) {
-            configuredLogger.debug(result.errorStack);
-          }
-        } else {
-          configuredLogger.error(chalk.red('❌ Review completed with errors'));
-        }
-        process.exit(2);
-      } else if (result.hasFindings && options.severityThreshold !== 'info') {
-        logger.warn(chalk.yellow('⚠️  Review completed with findings above threshold'));
-        process.exit(2);
-      } else {
-        logger.info(chalk.green('✅ Review completed successfully'));
-        process.exit(0);
-      }
+// Batch review command
+addReviewPipelineOptions(
+  program
+    .command('review-all')
+    .description('Review all active Pull Requests of a project or repository')
+    .requiredOption('--org <organization>', 'Azure DevOps organization name')
+    .requiredOption('--project <project>', 'Azure DevOps project name')
+    .option('--repo <repository>', 'Only review PRs of this repository')
+    .option('--target-branch <branch>', 'Only review PRs targeting this branch')
+    .option('--created-after <date>', 'Only review PRs created after this date (ISO 8601)')
+    .option('--concurrency <number>', 'Maximum pull requests reviewed at the same time', parseInt, 2)
+    .option('--auth <method>', `Azure DevOps credential provider (${ADO_AUTH_METHODS.join('|')})`)
+    .option('--server-url <url>', 'Azure DevOps Server base URL for on-premises collections')
+)
+  .option('--tmp-dir <path>', 'Custom temporary directory path')
+  .option('--post-status', 'Post PR status to Azure DevOps', false)
+  .option('--dry-run', 'Show findings without posting to Azure DevOps', false)
+  .option('--incremental', 'Only review iterations pushed since the last ado-review run', false)
+  .option('--format <type>', `Aggregate report format (${BATCH_REPORT_FORMATS.join('|')})`, 'table')
+  .option('--output <file>', 'Write the aggregate report to a file instead of stdout')
+  .option('--severity-threshold <level>', 'Minimum severity level to report (info|warning|error)', 'info')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      await runBatchReview(options);
+    } catch (error) {
+      await errorHandler.handle(error);
+    }
+  });
 
+// Watch command for teams without service hook permissions
+addReviewPipelineOptions(
+  program
+    .command('watch')
+    .description('Poll active Pull Requests and review new iterations')
+    .requiredOption('--org <organization>', 'Azure DevOps organization name')
+    .requiredOption('--project <project>', 'Azure DevOps project name')
+    .option('--repo <repository>', 'Only watch PRs of this repository')
+    .option('--target-branch <branch>', 'Only watch PRs targeting this branch')
+    .option('--interval <duration>', 'Time between polls, e.g. 30s, 5m, 1h', '5m')
+    .option('--state-file <path>', 'File that remembers reviewed iterations across restarts', '.ado-review-watch.json')
+    .option('--concurrency <number>', 'Maximum pull requests reviewed at the same time', parseInt, 1)
+    .option('--auth <method>', `Azure DevOps credential provider (${ADO_AUTH_METHODS.join('|')})`)
+    .option('--server-url <url>', 'Azure DevOps Server base URL for on-premises collections')
+)
+  .option('--tmp-dir <path>', 'Custom temporary directory path')
+  .option('--post-status', 'Post PR status to Azure DevOps', false)
+  .option('--dry-run', 'Show findings without posting to Azure DevOps', false)
+  .option('--incremental', 'Only review iterations pushed since the last ado-review run', false)
+  .option('--severity-threshold <level>', 'Minimum severity level to report (info|warning|error)', 'info')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      await runWatch({ format: 'table', ...options });
+    } catch (error) {
+      await errorHandler.handle(error);
+    }
+  });
+
+// Webhook server command
+addReviewPipelineOptions(
+  program
+    .command('serve')
+    .description('Run a webhook server that reviews PRs on Azure DevOps service hook events')
+    .option('--port <number>', 'Port to listen on (default: server.port)', parseInt)
+    .option('--host <address>', 'Interface to bind to (default: server.host)')
+    .option('--debounce-ms <number>', 'Wait for further pushes to a PR before reviewing it (default: server.debounceMs)', parseInt)
+    .option('--max-concurrent <number>', 'Maximum reviews running at the same time (default: server.maxConcurrent)', parseInt)
+    .option('--auth <method>', `Azure DevOps credential provider (${ADO_AUTH_METHODS.join('|')})`)
+)
+  .option('--tmp-dir <path>', 'Custom temporary directory path')
+  .option('--post-status', 'Post PR status to Azure DevOps', false)
+  .option('--dry-run', 'Show findings without posting to Azure DevOps', false)
+  .option('--incremental', 'Only review iterations pushed since the last ado-review run', false)
+  .option('--severity-threshold <level>', 'Minimum severity level to report (info|warning|error)', 'info')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options) => {
+    try {
+      await runServer({ format: 'table', ...options });
     } catch (error) {
       await errorHandler.handle(error);
     }
@@ -2,6 +2,8 @@ import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
 import { ADOCommentThread } from './resultMapper';
+import { ADOCredential } from './auth/credentialResolver';
+import { buildCollectionUrl, parseSupportedApiVersion } from './adoUrl';
 
 // Extend AxiosRequestConfig to include metadata
 declare module 'axios' {
@@ -33,8 +35,23 @@ export interface PullRequestInfo {
   };
   status: string;
   isDraft: boolean;
+  creationDate?: string;
+  lastMergeSourceCommit?: {
+    commitId: string;
+  };
 }
 
+export interface PullRequestSearchCriteria {
+  /** Repository name or ID; all repositories of the project when omitted */
+  repository?: string;
+  /** Full target ref, e.g. refs/heads/main */
+  targetRefName?: string;
+  status?: 'active' | 'abandoned' | 'completed' | 'all';
+}
+
+// Page size used when listing pull requests
+const PULL_REQUEST_PAGE_SIZE = 100;
+
 export interface PullRequestIteration {
   id: number;
   description: string;
@@ -57,12 +74,13 @@ export interface FileChange {
     path: string;
     isFolder: boolean;
   };
+  originalPath?: string;
 }
 
 export interface CommentThread {
   id: number;
   status: string;
-  context: {
+  context?: {
     filePath: string;
     rightFileStart: {
       line: number;
@@ -73,15 +91,40 @@ export interface CommentThread {
       offset: number;
     };
   };
+  /** Position as returned by the REST API; right-side lines are missing once the code was deleted */
+  threadContext?: {
+    filePath: string;
+    rightFileStart?: { line: number; offset: number } | null;
+    rightFileEnd?: { line: number; offset: number } | null;
+  } | null;
   comments: Array<{
     id: number;
     content: string;
     author: {
       displayName: string;
+      id?: string;
     };
+    commentType?: string;
+    isDeleted?: boolean;
   }>;
+  properties?: Record<string, any>;
+  isDeleted?: boolean;
+}
+
+export type CommentThreadStatus = 'active' | 'fixed' | 'wontFix' | 'closed' | 'byDesign' | 'pending';
+
+export interface ADOClientOptions {
+  /** Collection URL, e.g. https://dev.azure.com/org or https://tfs.company.local/DefaultCollection */
+  collectionUrl?: string;
+  /** REST api-version; lowered automatically when an older server rejects it */
+  apiVersion?: string;
 }
 
+const DEFAULT_API_VERSION = '7.0';
+
+// The pull request properties endpoint is only available as a preview
+const PROPERTIES_API_VERSION = '7.1-preview.1';
+
 export class ADOClient {
   private client: AxiosInstance;
   private logger: Logger;
@@ -89,38 +132,31 @@ export class ADOClient {
   private organization: string;
   private project: string;
   private repository: string;
+  private credential: ADOCredential;
+  private collectionUrl: string;
+  private apiVersion: string;
 
   constructor(
     organization: string,
     project: string,
     repository: string,
-    personalAccessToken: string,
+    credential: ADOCredential,
     logger: Logger,
-    errorHandler: ErrorHandler
+    errorHandler: ErrorHandler,
+    options: ADOClientOptions = {}
   ) {
-    // Validate required Azure DevOps PAT early to fail fast with a clear message
-    if (!personalAccessToken || personalAccessToken.trim().length === 0) {
-      // Throw a user error so CLI can present a helpful message
-      throw errorHandler.createUserError(
-        'Missing Azure DevOps PAT. Set AZURE_DEVOPS_PAT environment variable with a valid Personal Access Token.',
-        {
-          operation: 'initialize',
-          component: 'ADOClient',
-          metadata: { envVar: 'AZURE_DEVOPS_PAT' }
-        }
-      );
-    }
-
     this.organization = organization;
     this.project = project;
     this.repository = repository;
+    this.credential = credential;
     this.logger = logger;
     this.errorHandler = errorHandler;
+    this.collectionUrl = (options.collectionUrl ?? buildCollectionUrl(organization)).replace(/\/+$/, '');
+    this.apiVersion = options.apiVersion ?? DEFAULT_API_VERSION;
 
     this.client = axios.create({
-      baseURL: `https://dev.azure.com/${organization}/${project}/_apis`,
+      baseURL: `${this.collectionUrl}/${encodeURIComponent(project)}/_apis`,
       headers: {
-        'Authorization': `Basic ${Buffer.from(`:${personalAccessToken}`).toString('base64')}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
@@ -141,6 +177,13 @@ export class ADOClient {
     return this.organization;
   }
 
+  /**
+   * Get collection URL
+   */
+  public getCollectionUrl(): string {
+    return this.collectionUrl;
+  }
+
   /**
    * Get project name
    */
@@ -166,7 +209,7 @@ export class ADOClient {
         `/git/repositories/${this.repository}/pullrequests/${pullRequestId}`,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -197,6 +240,54 @@ export class ADOClient {
     }
   }
 
+  /**
+   * List pull requests of the project or of one repository, following pages until all are read
+   */
+  public async listPullRequests(criteria: PullRequestSearchCriteria = {}): Promise<PullRequestInfo[]> {
+    const url = criteria.repository
+      ? `/git/repositories/${encodeURIComponent(criteria.repository)}/pullrequests`
+      : '/git/pullrequests';
+
+    try {
+      this.logger.debug(`Listing ${criteria.status ?? 'active'} pull requests in ${criteria.repository ?? this.project}`);
+
+      const pullRequests: PullRequestInfo[] = [];
+      for (let skip = 0; ; skip += PULL_REQUEST_PAGE_SIZE) {
+        const response: AxiosResponse<{ value: PullRequestInfo[] }> = await this.client.get(url, {
+          params: {
+            'searchCriteria.status': criteria.status ?? 'active',
+            ...(criteria.targetRefName && { 'searchCriteria.targetRefName': criteria.targetRefName }),
+            '$top': PULL_REQUEST_PAGE_SIZE,
+            '$skip': skip,
+            'api-version': this.apiVersion
+          }
+        });
+
+        const page = response.data.value || [];
+        pullRequests.push(...page);
+        if (page.length < PULL_REQUEST_PAGE_SIZE) {
+          break;
+        }
+      }
+
+      this.logger.debug(`Found ${pullRequests.length} pull requests`);
+      return pullRequests;
+    } catch (error) {
+      throw this.errorHandler.createFromHttpResponse(
+        {
+          status: (error as any).response?.status || 500,
+          statusText: (error as any).response?.statusText || 'Unknown Error',
+          data: (error as any).response?.data
+        },
+        {
+          operation: 'listPullRequests',
+          component: 'ADOClient',
+          metadata: { ...criteria }
+        }
+      );
+    }
+  }
+
   /**
    * Get pull request iterations
    */
@@ -208,7 +299,7 @@ export class ADOClient {
         `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/iterations`,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -231,6 +322,94 @@ export class ADOClient {
     }
   }
 
+  /**
+   * Get pull request properties as a flat key/value map
+   */
+  public async getPullRequestProperties(pullRequestId: number): Promise<Record<string, string>> {
+    try {
+      this.logger.debug(`Fetching PR ${pullRequestId} properties`);
+
+      const response: AxiosResponse<{ value?: Record<string, { $type?: string; $value: any }> }> = await this.client.get(
+        `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/properties`,
+        {
+          params: {
+            'api-version': PROPERTIES_API_VERSION
+          }
+        }
+      );
+
+      const properties: Record<string, string> = {};
+      for (const [key, entry] of Object.entries(response.data.value || {})) {
+        if (entry && entry.$value !== undefined && entry.$value !== null) {
+          properties[key] = String(entry.$value);
+        }
+      }
+
+      this.logger.debug(`Successfully fetched ${Object.keys(properties).length} PR properties`);
+      return properties;
+    } catch (error) {
+      throw this.errorHandler.createFromHttpResponse(
+        {
+          status: (error as any).response?.status || 500,
+          statusText: (error as any).response?.statusText || 'Unknown Error',
+          data: (error as any).response?.data
+        },
+        {
+          operation: 'getPullRequestProperties',
+          component: 'ADOClient',
+          metadata: { pullRequestId }
+        }
+      );
+    }
+  }
+
+  /**
+   * Add or replace pull request properties
+   */
+  public async updatePullRequestProperties(
+    pullRequestId: number,
+    properties: Record<string, string>
+  ): Promise<void> {
+    try {
+      this.logger.debug(`Updating PR ${pullRequestId} properties: ${Object.keys(properties).join(', ')}`);
+
+      // Properties endpoint expects a JSON patch document
+      const patchDocument = Object.entries(properties).map(([key, value]) => ({
+        op: 'add',
+        path: `/${key}`,
+        value
+      }));
+
+      await this.client.patch(
+        `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/properties`,
+        patchDocument,
+        {
+          params: {
+            'api-version': PROPERTIES_API_VERSION
+          },
+          headers: {
+            'Content-Type': 'application/json-patch+json'
+          }
+        }
+      );
+
+      this.logger.debug(`Successfully updated PR ${pullRequestId} properties`);
+    } catch (error) {
+      throw this.errorHandler.createFromHttpResponse(
+        {
+          status: (error as any).response?.status || 500,
+          statusText: (error as any).response?.statusText || 'Unknown Error',
+          data: (error as any).response?.data
+        },
+        {
+          operation: 'updatePullRequestProperties',
+          component: 'ADOClient',
+          metadata: { pullRequestId, keys: Object.keys(properties) }
+        }
+      );
+    }
+  }
+
   /**
    * Get changes between iterations
    */
@@ -243,11 +422,11 @@ export class ADOClient {
       this.logger.debug(`Fetching changes for iteration ${iterationId}`);
       
       const params: any = {
-        'api-version': '7.0'
+        'api-version': this.apiVersion
       };
       
       if (baseIterationId) {
-        params['$compareVersion'] = baseIterationId;
+        params['$compareTo'] = baseIterationId;
       }
 
       const response: AxiosResponse<{ changeEntries: FileChange[] }> = await this.client.get(
@@ -334,7 +513,7 @@ export class ADOClient {
         requestBody,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -380,7 +559,7 @@ export class ADOClient {
         status,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -410,7 +589,8 @@ export class ADOClient {
     pullRequestId: number,
     statusId: string,
     status: 'pending' | 'succeeded' | 'failed' | 'error',
-    description?: string
+    description?: string,
+    targetUrl?: string
   ): Promise<any> {
     try {
       this.logger.debug(`Updating PR ${pullRequestId} status to ${status}`);
@@ -421,7 +601,8 @@ export class ADOClient {
         context: {
           name: 'ado-review-cli',
           genre: 'continuous-integration'
-        }
+        },
+        ...(targetUrl && { targetUrl })
       };
 
       const response = await this.client.patch(
@@ -429,7 +610,7 @@ export class ADOClient {
         requestBody,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -474,7 +655,7 @@ export class ADOClient {
         requestBody,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -496,6 +677,44 @@ export class ADOClient {
     }
   }
 
+  /**
+   * Change the status or properties of a comment thread (e.g. mark it fixed)
+   */
+  public async updateCommentThread(
+    pullRequestId: number,
+    threadId: number,
+    changes: { status?: CommentThreadStatus; properties?: Record<string, string> }
+  ): Promise<void> {
+    try {
+      this.logger.debug(`Updating thread ${threadId}: ${Object.keys(changes).join(', ')}`);
+
+      await this.client.patch(
+        `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/threads/${threadId}`,
+        changes,
+        {
+          params: {
+            'api-version': this.apiVersion
+          }
+        }
+      );
+
+      this.logger.debug(`Successfully updated thread ${threadId}`);
+    } catch (error) {
+      throw this.errorHandler.createFromHttpResponse(
+        {
+          status: (error as any).response?.status || 500,
+          statusText: (error as any).response?.statusText || 'Unknown Error',
+          data: (error as any).response?.data
+        },
+        {
+          operation: 'updateCommentThread',
+          component: 'ADOClient',
+          metadata: { pullRequestId, threadId, ...changes }
+        }
+      );
+    }
+  }
+
   /**
    * Get pull request statuses
    */
@@ -510,7 +729,7 @@ export class ADOClient {
         `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/statuses`,
         {
           params: {
-            'api-version': '7.0',
+            'api-version': this.apiVersion,
             ...(iterationId && { iterationId })
           }
         }
@@ -564,7 +783,7 @@ export class ADOClient {
         `/git/repositories/${this.repository}/diffs/commits`,
         {
           params: {
-            'api-version': '7.0',
+            'api-version': this.apiVersion,
             baseVersionDescriptor: `${targetCommitId}`,
             targetVersionDescriptor: `${sourceCommitId}`,
             baseVersionType: 'commit',
@@ -606,12 +825,16 @@ export class ADOClient {
         `/git/repositories/${this.repository}/items`,
         {
           params: {
-            'api-version': '7.0',
+            'api-version': this.apiVersion,
             'path': filePath,
             'versionDescriptor.version': commitId,
             'versionDescriptor.versionType': 'commit',
             'includeContent': true
           },
+          // Ask for raw content; with application/json the API returns item metadata instead
+          headers: {
+            'Accept': 'text/plain'
+          },
           responseType: 'text'
         }
       );
@@ -642,15 +865,17 @@ export class ADOClient {
   /**
    * Get existing comment threads
    */
-  public async getCommentThreads(pullRequestId: number): Promise<CommentThread[]> {
+  public async getCommentThreads(pullRequestId: number, iterationId?: number): Promise<CommentThread[]> {
     try {
       this.logger.debug(`Fetching comment threads for PR ${pullRequestId}`);
       
+      // With an iteration, thread positions are tracked to that iteration's version of each file
       const response: AxiosResponse<{ value: CommentThread[] }> = await this.client.get(
         `/git/repositories/${this.repository}/pullrequests/${pullRequestId}/threads`,
         {
           params: {
-            'api-version': '7.0'
+            'api-version': this.apiVersion,
+            ...(iterationId !== undefined && { '$iteration': iterationId })
           }
         }
       );
@@ -691,7 +916,7 @@ export class ADOClient {
         },
         {
           params: {
-            'api-version': '7.1'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -722,10 +947,10 @@ export class ADOClient {
       this.logger.debug('Fetching current user information');
       
       const response: AxiosResponse<{ authenticatedUser: { id: string } }> = await this.client.get(
-        '/_apis/connectionData',
+        `${this.collectionUrl}/_apis/connectionData`,
         {
           params: {
-            'api-version': '7.1'
+            'api-version': this.apiVersion
           }
         }
       );
@@ -759,8 +984,10 @@ export class ADOClient {
   private setupInterceptors(): void {
     // Request interceptor
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
         this.logger.debug(`Making ${config.method?.toUpperCase()} request to ${config.baseURL}${config.url}`);
+        // Bearer tokens may expire during long reviews, so the header is resolved per request
+        config.headers['Authorization'] = await this.credential.getAuthorizationHeader();
         // Initialize retry count
         config.metadata = { retryCount: 0 };
         return config;
@@ -810,6 +1037,15 @@ export class ADOClient {
           return this.client(config);
         }
         
+        // Older Azure DevOps Server releases reject newer api-versions and name the latest one they support
+        const supportedVersion = status === 400 ? parseSupportedApiVersion(error.response?.data) : undefined;
+        if (supportedVersion && config?.params?.['api-version'] && config.params['api-version'] !== supportedVersion) {
+          this.logger.warn(`Azure DevOps server does not support api-version ${config.params['api-version']}; using ${supportedVersion}`);
+          this.apiVersion = supportedVersion;
+          config.params = { ...config.params, 'api-version': supportedVersion };
+          return this.client(config);
+        }
+
         this.logger.error(`HTTP ${status || error.code} error from ${url}: ${error.message}`);
         return Promise.reject(error);
       }
@@ -0,0 +1,102 @@
+/**
+ * Azure DevOps Services and Azure DevOps Server URL helpers.
+ * Services collections live at dev.azure.com/{org} or {org}.visualstudio.com;
+ * Server collections at any host, e.g. https://tfs.company.local/{collection} or .../tfs/{collection}.
+ */
+
+export interface AzureDevOpsRepoInfo {
+  /** Collection (organization) URL without trailing slash, e.g. https://dev.azure.com/myorg */
+  collectionUrl: string;
+  /** Organization or collection name */
+  org: string;
+  project: string;
+  repo: string;
+  pullRequestId?: string;
+}
+
+const CLOUD_HOSTS = ['dev.azure.com', 'visualstudio.com'];
+
+/**
+ * Whether a URL belongs to Azure DevOps Services rather than an on-premises server
+ */
+export function isAzureDevOpsServices(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return CLOUD_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a repository or pull request URL of the form {collectionUrl}/{project}/_git/{repo}[/pullrequest/{id}]
+ */
+export function parseAzureDevOpsUrl(url: string): AzureDevOpsRepoInfo | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  if (urlObj.protocol !== 'https:' && urlObj.protocol !== 'http:') {
+    return null;
+  }
+
+  const parts = urlObj.pathname.split('/').filter(part => part.length > 0).map(decodeURIComponent);
+  const gitIndex = parts.indexOf('_git');
+  const project = parts[gitIndex - 1];
+  const repo = parts[gitIndex + 1];
+  if (gitIndex < 1 || !project || !repo) {
+    return null;
+  }
+
+  const collectionParts = parts.slice(0, gitIndex - 1);
+  const isVisualStudioHost = urlObj.hostname.endsWith('.visualstudio.com');
+
+  let org: string | undefined;
+  if (urlObj.hostname === 'dev.azure.com') {
+    org = collectionParts[0];
+  } else if (isVisualStudioHost) {
+    org = urlObj.hostname.split('.')[0];
+  } else {
+    // Azure DevOps Server: the last path segment before the project is the collection
+    org = collectionParts[collectionParts.length - 1];
+  }
+  if (!org) {
+    return null;
+  }
+
+  const collectionPath = collectionParts.map(encodeURIComponent).join('/');
+  const prIndex = parts.indexOf('pullrequest', gitIndex);
+  const pullRequestId = prIndex !== -1 ? parts[prIndex + 1] : undefined;
+
+  return {
+    collectionUrl: `${urlObj.origin}${collectionPath ? `/${collectionPath}` : ''}`,
+    org,
+    project,
+    repo,
+    ...(pullRequestId && { pullRequestId })
+  };
+}
+
+/**
+ * Build a collection URL from an organization name, on a server base URL when one is configured
+ */
+export function buildCollectionUrl(org: string, serverUrl?: string | null): string {
+  const base = (serverUrl || 'https://dev.azure.com').replace(/\/+$/, '');
+  return `${base}/${encodeURIComponent(org)}`;
+}
+
+/**
+ * Read the highest supported api-version from an "out of range" error returned by older servers
+ */
+export function parseSupportedApiVersion(responseData: unknown): string | undefined {
+  const message = typeof responseData === 'string'
+    ? responseData
+    : (responseData as { message?: unknown } | undefined)?.message;
+  if (typeof message !== 'string') {
+    return undefined;
+  }
+  const match = message.match(/latest REST API version for this server is (\d+(?:\.\d+)*(?:-preview(?:\.\d+)?)?)/i);
+  return match?.[1];
+}
@@ -0,0 +1,35 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Used when the Azure CLI does not say when the token expires
+const DEFAULT_TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+export interface AzureCliToken {
+  token: string;
+  /** Expiry as epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Get an Entra ID access token for a resource from the signed-in Azure CLI account
+ */
+export async function getAzureCliToken(resource: string, timeout: number = 30000): Promise<AzureCliToken> {
+  // az is a batch script on Windows and cannot be started without a shell there
+  const { stdout } = await execFileAsync(
+    'az',
+    ['account', 'get-access-token', '--resource', resource, '--output', 'json'],
+    { encoding: 'utf8', timeout, windowsHide: true, shell: process.platform === 'win32' }
+  );
+
+  const parsed = JSON.parse(stdout) as { accessToken?: string; expires_on?: number | string; expiresOn?: string };
+  if (!parsed.accessToken) {
+    throw new Error('Azure CLI did not return an access token');
+  }
+
+  const expiresAt = parsed.expires_on
+    ? Number(parsed.expires_on) * 1000
+    : (parsed.expiresOn ? new Date(parsed.expiresOn).getTime() : Date.now() + DEFAULT_TOKEN_LIFETIME_MS);
+  return { token: parsed.accessToken, expiresAt };
+}
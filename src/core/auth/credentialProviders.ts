@@ -0,0 +1,214 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import { Logger } from '../logger';
+import { getAzureCliToken } from './azureCli';
+import { AccessToken, AZURE_DEVOPS_RESOURCE, CredentialProvider } from './types';
+
+// Used when a token response does not say when it expires
+const DEFAULT_TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+const TOKEN_REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Pipeline job access token ($(System.AccessToken) mapped to SYSTEM_ACCESSTOKEN)
+ */
+export class SystemAccessTokenProvider implements CredentialProvider {
+  public readonly method = 'system-token';
+  public readonly name = 'pipeline System.AccessToken';
+
+  private env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+  }
+
+  public isAvailable(): boolean {
+    return Boolean(this.env['SYSTEM_ACCESSTOKEN']);
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    const token = this.env['SYSTEM_ACCESSTOKEN'];
+    if (!token) {
+      throw new Error('SYSTEM_ACCESSTOKEN is not set. Map it in the pipeline step: env: { SYSTEM_ACCESSTOKEN: $(System.AccessToken) }');
+    }
+    return { authorization: `Bearer ${token}` };
+  }
+}
+
+/**
+ * Workload identity federation: exchanges a federated token file for an Entra ID token
+ */
+export class WorkloadIdentityProvider implements CredentialProvider {
+  public readonly method = 'workload-identity';
+  public readonly name = 'workload identity federation';
+
+  private logger: Logger;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(logger: Logger, env: NodeJS.ProcessEnv = process.env) {
+    this.logger = logger;
+    this.env = env;
+  }
+
+  public isAvailable(): boolean {
+    return Boolean(this.env['AZURE_FEDERATED_TOKEN_FILE'] && this.env['AZURE_CLIENT_ID'] && this.env['AZURE_TENANT_ID']);
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    const tokenFile = this.env['AZURE_FEDERATED_TOKEN_FILE'];
+    const clientId = this.env['AZURE_CLIENT_ID'];
+    const tenantId = this.env['AZURE_TENANT_ID'];
+    if (!tokenFile || !clientId || !tenantId) {
+      throw new Error('Workload identity requires AZURE_FEDERATED_TOKEN_FILE, AZURE_CLIENT_ID and AZURE_TENANT_ID');
+    }
+
+    const authorityHost = (this.env['AZURE_AUTHORITY_HOST'] || 'https://login.microsoftonline.com/').replace(/\/?$/, '/');
+    const assertion = fs.readFileSync(tokenFile, 'utf8').trim();
+
+    this.logger.debug(`Requesting Azure DevOps token via workload identity for client ${clientId}`);
+    const response = await axios.post(
+      `${authorityHost}${tenantId}/oauth2/v2.0/token`,
+      new URLSearchParams({
+        client_id: clientId,
+        grant_type: 'client_credentials',
+        scope: `${AZURE_DEVOPS_RESOURCE}/.default`,
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion
+      }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: TOKEN_REQUEST_TIMEOUT_MS
+      }
+    );
+
+    return toAccessToken(response.data?.access_token, response.data?.expires_in, undefined);
+  }
+}
+
+/**
+ * Managed identity via the App Service / Functions identity endpoint or the VM metadata service (IMDS)
+ */
+export class ManagedIdentityProvider implements CredentialProvider {
+  public readonly method = 'managed-identity';
+  public readonly name = 'managed identity';
+
+  private logger: Logger;
+  private env: NodeJS.ProcessEnv;
+
+  constructor(logger: Logger, env: NodeJS.ProcessEnv = process.env) {
+    this.logger = logger;
+    this.env = env;
+  }
+
+  /**
+   * IMDS cannot be detected without a network probe, so auto detection only
+   * picks managed identity when the identity endpoint is advertised
+   */
+  public isAvailable(): boolean {
+    return Boolean(this.env['IDENTITY_ENDPOINT'] && this.env['IDENTITY_HEADER']);
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    const clientId = this.env['AZURE_CLIENT_ID'];
+    const identityEndpoint = this.env['IDENTITY_ENDPOINT'];
+    const identityHeader = this.env['IDENTITY_HEADER'];
+
+    this.logger.debug(`Requesting Azure DevOps token via managed identity${clientId ? ` (client ${clientId})` : ''}`);
+
+    const response = identityEndpoint && identityHeader
+      ? await axios.get(identityEndpoint, {
+        params: { 'api-version': '2019-08-01', resource: AZURE_DEVOPS_RESOURCE, ...(clientId && { client_id: clientId }) },
+        headers: { 'X-IDENTITY-HEADER': identityHeader },
+        timeout: TOKEN_REQUEST_TIMEOUT_MS
+      })
+      : await axios.get('http://169.254.169.254/metadata/identity/oauth2/token', {
+        params: { 'api-version': '2018-02-01', resource: AZURE_DEVOPS_RESOURCE, ...(clientId && { client_id: clientId }) },
+        headers: { 'Metadata': 'true' },
+        timeout: TOKEN_REQUEST_TIMEOUT_MS
+      });
+
+    return toAccessToken(response.data?.access_token, response.data?.expires_in, response.data?.expires_on);
+  }
+}
+
+/**
+ * Token of the signed-in Azure CLI account
+ */
+export class AzureCliProvider implements CredentialProvider {
+  public readonly method = 'azure-cli';
+  public readonly name = 'Azure CLI';
+
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Whether "az" is signed in is only known by running it; auto detection tries it last
+   */
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    this.logger.debug('Requesting Azure DevOps token via Azure CLI');
+    const { token, expiresAt } = await getAzureCliToken(AZURE_DEVOPS_RESOURCE, TOKEN_REQUEST_TIMEOUT_MS);
+    return { authorization: `Bearer ${token}`, expiresAt };
+  }
+}
+
+/**
+ * Personal Access Token from AZURE_DEVOPS_PAT, sent with basic authentication
+ */
+export class PatProvider implements CredentialProvider {
+  public readonly method = 'pat';
+  public readonly name = 'personal access token';
+
+  private env: NodeJS.ProcessEnv;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+  }
+
+  public isAvailable(): boolean {
+    return Boolean(this.env['AZURE_DEVOPS_PAT']?.trim());
+  }
+
+  public async getToken(): Promise<AccessToken> {
+    const pat = this.env['AZURE_DEVOPS_PAT']?.trim();
+    if (!pat) {
+      throw new Error('AZURE_DEVOPS_PAT is not set');
+    }
+    return { authorization: `Basic ${Buffer.from(`:${pat}`).toString('base64')}` };
+  }
+}
+
+/**
+ * Providers in auto detection order: pipeline and federated identities, then an explicitly set PAT,
+ * then the Azure CLI as the fallback
+ */
+export function createCredentialProviders(logger: Logger, env: NodeJS.ProcessEnv = process.env): CredentialProvider[] {
+  return [
+    new SystemAccessTokenProvider(env),
+    new WorkloadIdentityProvider(logger, env),
+    new ManagedIdentityProvider(logger, env),
+    new PatProvider(env),
+    new AzureCliProvider(logger)
+  ];
+}
+
+function toAccessToken(token: unknown, expiresIn: unknown, expiresOn: unknown): AccessToken {
+  if (typeof token !== 'string' || !token) {
+    throw new Error('Token endpoint did not return an access token');
+  }
+
+  let expiresAt = Date.now() + DEFAULT_TOKEN_LIFETIME_MS;
+  if (expiresOn !== undefined && Number.isFinite(Number(expiresOn))) {
+    expiresAt = Number(expiresOn) * 1000;
+  } else if (expiresIn !== undefined && Number.isFinite(Number(expiresIn))) {
+    expiresAt = Date.now() + Number(expiresIn) * 1000;
+  }
+
+  return { authorization: `Bearer ${token}`, expiresAt };
+}
@@ -0,0 +1,124 @@
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { isAzureDevOpsServices } from '../adoUrl';
+import { createCredentialProviders } from './credentialProviders';
+import { AccessToken, ADOAuthMethod, CredentialProvider } from './types';
+
+// Refresh expiring tokens this long before they run out
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Entra ID tokens are only accepted by Azure DevOps Services, not by on-premises servers
+const ENTRA_METHODS: ReadonlyArray<ADOAuthMethod> = ['workload-identity', 'managed-identity', 'azure-cli'];
+
+/**
+ * Azure DevOps credential bound to one provider; caches the token and refreshes it before expiry
+ */
+export class ADOCredential {
+  private provider: CredentialProvider;
+  private cached: AccessToken;
+
+  constructor(provider: CredentialProvider, token: AccessToken) {
+    this.provider = provider;
+    this.cached = token;
+  }
+
+  public get method(): CredentialProvider['method'] {
+    return this.provider.method;
+  }
+
+  public get name(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Authorization header value for REST calls and git
+   */
+  public async getAuthorizationHeader(): Promise<string> {
+    if (this.cached.expiresAt !== undefined && this.cached.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+      this.cached = await this.provider.getToken();
+    }
+    return this.cached.authorization;
+  }
+}
+
+/**
+ * Picks the Azure DevOps credential provider for a run
+ */
+export class CredentialResolver {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+  private providers: CredentialProvider[];
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, providers: CredentialProvider[] = createCredentialProviders(logger)) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+    this.providers = providers;
+  }
+
+  /**
+   * Resolve a credential; 'auto' uses the first available provider that returns a token.
+   * For Azure DevOps Server collections auto detection skips Entra ID providers.
+   */
+  public async resolve(method: ADOAuthMethod = 'auto', collectionUrl?: string): Promise<ADOCredential> {
+    if (method !== 'auto') {
+      const provider = this.providers.find(p => p.method === method);
+      if (!provider) {
+        throw this.errorHandler.createUserError(`Unsupported Azure DevOps auth method: ${method}`);
+      }
+
+      try {
+        return await this.createCredential(provider);
+      } catch (error) {
+        throw this.errorHandler.createUserError(
+          `Azure DevOps authentication with ${provider.name} failed: ${(error as Error).message}`,
+          {
+            operation: 'resolveCredential',
+            component: 'CredentialResolver',
+            metadata: { method }
+          }
+        );
+      }
+    }
+
+    const onPremises = collectionUrl !== undefined && !isAzureDevOpsServices(collectionUrl);
+    const candidates = this.providers.filter(p => p.isAvailable() && !(onPremises && ENTRA_METHODS.includes(p.method)));
+
+    const failures: string[] = [];
+    for (const provider of candidates) {
+      try {
+        return await this.createCredential(provider);
+      } catch (error) {
+        this.logger.debug(`Azure DevOps auth via ${provider.name} unavailable: ${(error as Error).message}`);
+        failures.push(`${provider.name}: ${(error as Error).message.split('\n')[0]}`);
+      }
+    }
+
+    if (onPremises) {
+      throw this.errorHandler.createUserError(
+        'No Azure DevOps Server credentials found. Set SYSTEM_ACCESSTOKEN in pipelines ' +
+        'or set AZURE_DEVOPS_PAT with a valid Personal Access Token.',
+        {
+          operation: 'resolveCredential',
+          component: 'CredentialResolver',
+          metadata: { failures, collectionUrl }
+        }
+      );
+    }
+
+    throw this.errorHandler.createUserError(
+      'No Azure DevOps credentials found. Set SYSTEM_ACCESSTOKEN in pipelines, configure workload or managed identity, ' +
+      'set AZURE_DEVOPS_PAT with a valid Personal Access Token, or sign in with "az login".',
+      {
+        operation: 'resolveCredential',
+        component: 'CredentialResolver',
+        metadata: { failures }
+      }
+    );
+  }
+
+  private async createCredential(provider: CredentialProvider): Promise<ADOCredential> {
+    const token = await provider.getToken();
+    this.logger.info(`Authenticating to Azure DevOps with ${provider.name}`);
+    return new ADOCredential(provider, token);
+  }
+}
@@ -0,0 +1,27 @@
+export type ADOAuthMethod = 'auto' | 'system-token' | 'workload-identity' | 'managed-identity' | 'azure-cli' | 'pat';
+
+export const ADO_AUTH_METHODS: ADOAuthMethod[] = ['auto', 'system-token', 'workload-identity', 'managed-identity', 'azure-cli', 'pat'];
+
+/**
+ * Application ID of Azure DevOps, used as the Entra ID resource for access tokens
+ */
+export const AZURE_DEVOPS_RESOURCE = '499b84ac-1321-427f-aa17-267ca6975798';
+
+export interface AccessToken {
+  /** Value of the Authorization header, e.g. "Bearer eyJ..." or "Basic OnBhdA==" */
+  authorization: string;
+  /** Expiry as epoch milliseconds; undefined for credentials that do not expire */
+  expiresAt?: number;
+}
+
+/**
+ * Source of Azure DevOps credentials
+ */
+export interface CredentialProvider {
+  readonly method: Exclude<ADOAuthMethod, 'auto'>;
+  /** Human readable name used in logs and errors */
+  readonly name: string;
+  /** Whether the environment provides what this provider needs; used by auto detection */
+  isAvailable(): boolean;
+  getToken(): Promise<AccessToken>;
+}
@@ -0,0 +1,150 @@
+/**
+ * Aggregate report of a review-all sweep over many pull requests
+ */
+
+export type BatchReviewStatus = 'reviewed' | 'skipped' | 'failed';
+
+export type BatchReportFormat = 'table' | 'json' | 'markdown';
+
+export const BATCH_REPORT_FORMATS: BatchReportFormat[] = ['table', 'json', 'markdown'];
+
+export interface BatchReviewEntry {
+  pullRequestId: number;
+  repository: string;
+  title: string;
+  url: string;
+  status: BatchReviewStatus;
+  /** Why the PR was skipped or what made the review fail */
+  reason?: string;
+  findingsCount: number;
+  commentsPosted: number;
+  durationMs: number;
+}
+
+export interface BatchReviewReport {
+  organization: string;
+  project: string;
+  repository?: string;
+  startedAt: string;
+  durationMs: number;
+  totals: {
+    pullRequests: number;
+    reviewed: number;
+    skipped: number;
+    failed: number;
+    findings: number;
+    commentsPosted: number;
+  };
+  pullRequests: BatchReviewEntry[];
+}
+
+const STATUS_LABELS: Record<BatchReviewStatus, string> = {
+  reviewed: '✅ Reviewed',
+  skipped: '⏭️ Skipped',
+  failed: '❌ Failed'
+};
+
+/**
+ * Build the aggregate report from per-PR outcomes
+ */
+export function createBatchReport(
+  scope: { organization: string; project: string; repository?: string },
+  entries: BatchReviewEntry[],
+  startedAt: Date,
+  durationMs: number
+): BatchReviewReport {
+  const count = (status: BatchReviewStatus) => entries.filter(entry => entry.status === status).length;
+
+  return {
+    organization: scope.organization,
+    project: scope.project,
+    ...(scope.repository && { repository: scope.repository }),
+    startedAt: startedAt.toISOString(),
+    durationMs,
+    totals: {
+      pullRequests: entries.length,
+      reviewed: count('reviewed'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      findings: entries.reduce((sum, entry) => sum + entry.findingsCount, 0),
+      commentsPosted: entries.reduce((sum, entry) => sum + entry.commentsPosted, 0)
+    },
+    pullRequests: entries
+  };
+}
+
+/**
+ * Render the aggregate report as a console table, JSON or Markdown
+ */
+export function renderBatchReport(report: BatchReviewReport, format: BatchReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'markdown':
+      return renderMarkdown(report);
+    default:
+      return renderTable(report);
+  }
+}
+
+function renderTable(report: BatchReviewReport): string {
+  const rows = report.pullRequests.map(entry => [
+    `#${entry.pullRequestId}`,
+    entry.repository,
+    entry.status,
+    String(entry.findingsCount),
+    String(entry.commentsPosted),
+    entry.reason ?? truncate(entry.title, 50)
+  ]);
+  const header = ['PR', 'Repository', 'Result', 'Findings', 'Comments', 'Title / Reason'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column]!.length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd();
+
+  return [
+    formatRow(header),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+    '',
+    summaryLine(report)
+  ].join('\n');
+}
+
+function renderMarkdown(report: BatchReviewReport): string {
+  const scope = report.repository ? `${report.project}/${report.repository}` : report.project;
+  const parts = [
+    `# 🤖 AI Code Review Sweep: ${escapeTableCell(scope)}`,
+    '',
+    summaryLine(report),
+    ''
+  ];
+
+  if (report.pullRequests.length === 0) {
+    parts.push('No active pull requests matched. ✅');
+  } else {
+    parts.push('| Pull request | Repository | Result | Findings | Comments | Notes |');
+    parts.push('| --- | --- | --- | ---: | ---: | --- |');
+    for (const entry of report.pullRequests) {
+      const title = `#${entry.pullRequestId} ${escapeTableCell(entry.title).replace(/([[\]])/g, '\\$1')}`;
+      parts.push(
+        `| [${title}](${entry.url}) | ${escapeTableCell(entry.repository)} | ${STATUS_LABELS[entry.status]} | ` +
+        `${entry.findingsCount} | ${entry.commentsPosted} | ${escapeTableCell(entry.reason ?? '')} |`
+      );
+    }
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+function summaryLine(report: BatchReviewReport): string {
+  const { totals } = report;
+  return `${totals.pullRequests} pull request(s): ${totals.reviewed} reviewed, ${totals.skipped} skipped, ${totals.failed} failed · ` +
+    `${totals.findings} finding(s), ${totals.commentsPosted} comment(s) posted in ${Math.round(report.durationMs / 1000)}s`;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,200 @@
+import { Logger } from './logger';
+import { ErrorHandler } from './errorHandler';
+import { ConfigLoader } from './configLoader';
+import { ADOClient, ADOClientOptions, PullRequestInfo } from './adoClient';
+import { ADOCredential, CredentialResolver } from './auth/credentialResolver';
+import { ADOAuthMethod } from './auth/types';
+import { buildCollectionUrl } from './adoUrl';
+import { mapWithConcurrency } from './concurrency';
+import { BatchReviewEntry, BatchReviewReport, createBatchReport } from './batchReport';
+import { WatchStateStore } from './watchState';
+import { LAST_REVIEWED_ITERATION_PROPERTY, ReviewOrchestrator } from './reviewOrchestrator';
+
+export interface BatchReviewOptions {
+  org: string;
+  project: string;
+  /** Limit the sweep to one repository */
+  repo?: string;
+  /** Only PRs targeting this branch (name or full ref) */
+  targetBranch?: string;
+  /** Only PRs created after this time */
+  createdAfter?: Date;
+  /** Maximum number of pull requests reviewed at the same time */
+  concurrency: number;
+  serverUrl?: string;
+  auth?: ADOAuthMethod;
+  /** CLI options passed to every ReviewOrchestrator run */
+  reviewOptions: Record<string, any>;
+  /** Reviewed iterations kept between sweeps (watch mode) */
+  state?: WatchStateStore;
+}
+
+interface SweepContext {
+  credential: ADOCredential;
+  collectionUrl: string;
+  clientOptions: ADOClientOptions;
+  clients: Map<string, ADOClient>;
+}
+
+/**
+ * Reviews all active pull requests of a project or repository in one process
+ */
+export class BatchReviewer {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+  }
+
+  /**
+   * List matching pull requests, review those with unreviewed iterations and aggregate the outcomes
+   */
+  public async run(options: BatchReviewOptions): Promise<BatchReviewReport> {
+    const startedAt = new Date();
+    const appConfig = await new ConfigLoader(this.logger, this.errorHandler).getConfig();
+
+    const collectionUrl = buildCollectionUrl(options.org, options.serverUrl ?? appConfig.azo?.serverUrl);
+    const credentialResolver = new CredentialResolver(this.logger, this.errorHandler);
+    const credential = await credentialResolver.resolve(options.auth ?? appConfig.azo?.auth ?? 'auto', collectionUrl);
+    const clientOptions: ADOClientOptions = {
+      collectionUrl,
+      ...(appConfig.azo?.apiVersion && { apiVersion: appConfig.azo.apiVersion })
+    };
+
+    const listClient = new ADOClient(
+      options.org,
+      options.project,
+      options.repo ?? '',
+      credential,
+      this.logger,
+      this.errorHandler,
+      clientOptions
+    );
+    const targetRefName = options.targetBranch && !options.targetBranch.startsWith('refs/')
+      ? `refs/heads/${options.targetBranch}`
+      : options.targetBranch;
+    const pullRequests = (await listClient.listPullRequests({
+      ...(options.repo && { repository: options.repo }),
+      ...(targetRefName && { targetRefName })
+    })).filter(pr => !options.createdAfter || !pr.creationDate || new Date(pr.creationDate) > options.createdAfter);
+
+    const scope = options.repo ? `${options.project}/${options.repo}` : options.project;
+    this.logger.info(`Found ${pullRequests.length} active pull request(s) in ${scope}`);
+
+    const context: SweepContext = { credential, collectionUrl, clientOptions, clients: new Map() };
+    const entries = await mapWithConcurrency(pullRequests, options.concurrency, (pr, index) => {
+      this.logger.debug(`[${index + 1}/${pullRequests.length}] PR #${pr.pullRequestId} ${pr.repository.name}: ${pr.title}`);
+      return this.reviewPullRequest(pr, options, context);
+    });
+    options.state?.retain(pullRequests.map(stateKey));
+
+    return createBatchReport(
+      { organization: options.org, project: options.project, ...(options.repo && { repository: options.repo }) },
+      entries,
+      startedAt,
+      Date.now() - startedAt.getTime()
+    );
+  }
+
+  private async reviewPullRequest(pr: PullRequestInfo, options: BatchReviewOptions, context: SweepContext): Promise<BatchReviewEntry> {
+    const startTime = Date.now();
+    const url = [
+      context.collectionUrl,
+      encodeURIComponent(options.project),
+      '_git',
+      encodeURIComponent(pr.repository.name),
+      'pullrequest',
+      pr.pullRequestId
+    ].join('/');
+    const entry = (status: BatchReviewEntry['status'], details: Partial<BatchReviewEntry> = {}): BatchReviewEntry => ({
+      pullRequestId: pr.pullRequestId,
+      repository: pr.repository.name,
+      title: pr.title,
+      url,
+      status,
+      findingsCount: 0,
+      commentsPosted: 0,
+      durationMs: Date.now() - startTime,
+      ...details
+    });
+
+    const sourceCommit = pr.lastMergeSourceCommit?.commitId;
+    const known = options.state?.get(stateKey(pr));
+    if (known?.sourceCommit && known.sourceCommit === sourceCommit) {
+      return entry('skipped', { reason: 'No new iteration' });
+    }
+
+    try {
+      const latestIteration = await this.getUnreviewedIteration(pr, options, context);
+      if (latestIteration === undefined) {
+        this.logger.debug(`PR #${pr.pullRequestId}: latest iteration already reviewed, skipping`);
+        return entry('skipped', { reason: 'Latest iteration already reviewed' });
+      }
+
+      this.logger.info(`Reviewing PR #${pr.pullRequestId} ${pr.repository.name}: ${pr.title}`);
+
+      // Nobody answers the approval prompt in a sweep, so findings are posted unless this is a dry run
+      const orchestrator = new ReviewOrchestrator(this.logger, {
+        ...options.reviewOptions,
+        prUrl: url,
+        autoApprove: !options.reviewOptions['dryRun']
+      });
+      const result = await orchestrator.run();
+      if (result.hasErrors) {
+        return entry('failed', { reason: result.errorMessage ?? 'Review completed with errors' });
+      }
+
+      // Undelivered findings keep the iteration open, like the PR property the orchestrator records
+      if (result.reviewDelivered) {
+        options.state?.record(stateKey(pr), latestIteration, sourceCommit);
+      } else {
+        this.logger.debug(`PR #${pr.pullRequestId}: findings were not posted, iteration ${latestIteration} stays unreviewed`);
+      }
+      return entry('reviewed', { findingsCount: result.findingsCount, commentsPosted: result.commentsPosted });
+    } catch (error) {
+      this.logger.error(`PR #${pr.pullRequestId}: review failed: ${(error as Error).message}`);
+      return entry('failed', { reason: (error as Error).message });
+    }
+  }
+
+  /**
+   * Latest iteration of the PR, or undefined when ado-review already recorded it as reviewed
+   */
+  private async getUnreviewedIteration(pr: PullRequestInfo, options: BatchReviewOptions, context: SweepContext): Promise<number | undefined> {
+    let client = context.clients.get(pr.repository.id);
+    if (!client) {
+      client = new ADOClient(
+        options.org,
+        options.project,
+        pr.repository.id,
+        context.credential,
+        this.logger,
+        this.errorHandler,
+        context.clientOptions
+      );
+      context.clients.set(pr.repository.id, client);
+    }
+
+    const [iterations, properties] = await Promise.all([
+      client.getPullRequestIterations(pr.pullRequestId),
+      client.getPullRequestProperties(pr.pullRequestId)
+    ]);
+    const latestIteration = Math.max(0, ...iterations.map(iteration => iteration.id));
+    const lastReviewed = Math.max(
+      options.state?.get(stateKey(pr))?.iteration ?? 0,
+      parseInt(properties[LAST_REVIEWED_ITERATION_PROPERTY] ?? '', 10) || 0
+    );
+
+    if (lastReviewed > 0 && lastReviewed >= latestIteration) {
+      options.state?.record(stateKey(pr), latestIteration, pr.lastMergeSourceCommit?.commitId);
+      return undefined;
+    }
+    return latestIteration;
+  }
+}
+
+function stateKey(pr: PullRequestInfo): string {
+  return `${pr.repository.id}#${pr.pullRequestId}`;
+}
@@ -2,6 +2,17 @@ import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
 import { ADOClient } from './adoClient';
 import { ADOComment, ADOCommentThread, MappingResult } from './resultMapper';
+import { FileDiff } from './diffFetcher';
+import { ReviewFinding } from './llm/types';
+import { createResolutionReply, findResolvedThreads, getThreadProperty, toTrackedThread, TrackedThread } from './threadResolution';
+import { FINGERPRINT_PROPERTY, FINGERPRINTS_PROPERTY, parseFingerprints } from './fingerprint';
+
+// Azure DevOps code suggestion rendered by ResultMapper for findings with a replacement
+const SUGGESTION_BLOCK = /\n+```suggestion\n[\s\S]*?\n```/g;
+
+// Only open threads count as already posted; a finding whose thread was fixed may come back,
+// and dismissed ones are left out earlier by suppression
+const OPEN_THREAD_STATUSES: ReadonlySet<string> = new Set(['active', 'pending']);
 
 export interface CommentOptions {
   dryRun: boolean;
@@ -25,6 +36,11 @@ export interface CommentResult {
   warnings: string[];
 }
 
+export interface ResolveResult {
+  threadsResolved: number;
+  errors: string[];
+}
+
 export interface ExistingThread {
   id: number;
   threadContext?: {
@@ -157,6 +173,71 @@ export class Commenter {
     }
   }
 
+  /**
+   * Mark earlier ado-review threads as fixed when the current review no longer reports their finding
+   */
+  public async resolveFixedThreads(
+    pullRequestId: number,
+    findings: ReviewFinding[],
+    files: FileDiff[],
+    iterationId?: number,
+    options: Partial<CommentOptions> = {}
+  ): Promise<ResolveResult> {
+    const opts = { ...this.defaultOptions, ...options };
+    const result: ResolveResult = { threadsResolved: 0, errors: [] };
+
+    let trackedThreads: TrackedThread[];
+    try {
+      const threads = await this.adoClient.getCommentThreads(pullRequestId, iterationId);
+      trackedThreads = threads
+        .map(thread => toTrackedThread(thread))
+        .filter((thread): thread is TrackedThread => thread !== undefined);
+    } catch (error) {
+      this.logger.warn(`Failed to get existing threads, not resolving fixed ones: ${(error as Error).message}`);
+      return result;
+    }
+
+    const resolutions = findResolvedThreads(trackedThreads, findings, files);
+    this.logger.debug(`${resolutions.length} of ${trackedThreads.length} active review thread(s) no longer apply`);
+
+    for (const { thread, reason } of resolutions) {
+      const location = `${thread.filePath}:${thread.startLine ?? '?'}`;
+      if (opts.dryRun) {
+        this.logger.info(`[DRY RUN] Would resolve thread ${thread.id} at ${location} (${reason})`);
+        result.threadsResolved++;
+        continue;
+      }
+
+      try {
+        await this.retryOperation(
+          () => this.adoClient.addCommentToThread(pullRequestId, thread.id, {
+            content: createResolutionReply(reason, iterationId)
+          }),
+          opts.retryAttempts,
+          opts.retryDelay,
+          `reply to thread ${thread.id}`
+        );
+        await this.retryOperation(
+          () => this.adoClient.updateCommentThread(pullRequestId, thread.id, { status: 'fixed' }),
+          opts.retryAttempts,
+          opts.retryDelay,
+          `resolve thread ${thread.id}`
+        );
+        this.logger.debug(`Resolved thread ${thread.id} at ${location} (${reason})`);
+        result.threadsResolved++;
+      } catch (error) {
+        const errorMsg = `Failed to resolve thread ${thread.id}: ${(error as Error).message}`;
+        this.logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (result.threadsResolved > 0) {
+      this.logger.info(`Resolved ${result.threadsResolved} thread(s) whose issue no longer reproduces`);
+    }
+    return result;
+  }
+
   /**
    * Simulate posting for dry run
    */
@@ -211,20 +292,30 @@ export class Commenter {
   }
 
   /**
-   * Get existing comment threads
+   * Get open comment threads that new findings are checked against
    */
   private async getExistingThreads(pullRequestId: number): Promise<ExistingThread[]> {
     try {
       const threads = await this.adoClient.getCommentThreads(pullRequestId);
       
-      return threads.map(thread => ({
-        id: thread.id!,
-        threadContext: thread.context,
-        comments: thread.comments.map(comment => ({
-          id: comment.id!,
-          content: comment.content
-        }))
-      }));
+      return threads.filter(thread => !thread.isDeleted && OPEN_THREAD_STATUSES.has(thread.status)).map(thread => {
+        const context = thread.threadContext ?? thread.context;
+        return {
+          id: thread.id!,
+          ...(context?.rightFileStart && {
+            threadContext: {
+              filePath: context.filePath,
+              rightFileStart: context.rightFileStart,
+              rightFileEnd: context.rightFileEnd ?? context.rightFileStart
+            }
+          }),
+          comments: (thread.comments ?? []).map(comment => ({
+            id: comment.id!,
+            content: comment.content ?? ''
+          })),
+          ...(thread.properties && { properties: thread.properties })
+        };
+      });
     } catch (error) {
       this.logger.warn(`Failed to get existing threads: ${(error as Error).message}`);
       return [];
@@ -266,18 +357,26 @@ export class Commenter {
     
     for (const thread of threads) {
       try {
-        const existingThread = this.findExistingThread(thread, existingThreads);
-        
-        if (existingThread) {
-          if (options.skipExistingComments) {
+        if (options.skipExistingComments) {
+          const remaining = this.removeDuplicateFindings(thread, existingThreads);
+          if (!remaining) {
             this.logger.debug(`Skipping existing thread at ${thread.threadContext?.filePath}:${thread.threadContext?.rightFileStart.line}`);
             result.threadsSkipped++;
             continue;
-          } else if (options.updateExistingComments) {
-            await this.updateExistingThread(pullRequestId, existingThread, thread, options);
-            result.threadsUpdated++;
-            result.commentsUpdated += thread.comments.length;
           }
+          await this.createNewThread(pullRequestId, remaining, options);
+          result.threadsCreated++;
+          result.commentsCreated += remaining.comments.length;
+          continue;
+        }
+
+        const existingThread = options.updateExistingComments
+          ? this.findExistingThread(thread, existingThreads)
+          : undefined;
+        if (existingThread) {
+          await this.updateExistingThread(pullRequestId, existingThread, thread, options);
+          result.threadsUpdated++;
+          result.commentsUpdated += thread.comments.length;
         } else {
           await this.createNewThread(pullRequestId, thread, options);
           result.threadsCreated++;
@@ -295,26 +394,96 @@ export class Commenter {
   }
 
   /**
-   * Find existing thread that matches the new thread
+   * Find existing thread that already holds one of the new thread's findings
    */
   private findExistingThread(
     newThread: ADOCommentThread,
     existingThreads: ExistingThread[]
   ): ExistingThread | undefined {
-    const newContext = newThread.threadContext;
-    if (!newContext) return undefined;
-    
-    return existingThreads.find(existing => {
-      const existingContext = existing.threadContext;
-      if (!existingContext) return false;
-      
-      // Match by file path and line range
-      return (
-        existingContext.filePath === newContext.filePath &&
-        existingContext.rightFileStart.line === newContext.rightFileStart.line &&
-        existingContext.rightFileEnd.line === newContext.rightFileEnd.line
-      );
+    const findingComments = newThread.comments.filter(comment => this.isFindingComment(comment));
+    const filePath = newThread.threadContext?.filePath;
+
+    // Fingerprints survive line shifts, so they are checked across all threads first
+    const byFingerprint = existingThreads.find(existing => {
+      const fingerprints = this.getThreadFingerprints(existing);
+      return findingComments.some(comment => fingerprints.has(comment.properties?.[FINGERPRINT_PROPERTY]));
     });
+    if (byFingerprint) {
+      return byFingerprint;
+    }
+
+    return existingThreads.find(existing =>
+      findingComments.some(comment => this.isSimilarToThread(comment, filePath, existing))
+    );
+  }
+
+  /**
+   * Drop finding comments that were already posted; undefined when nothing new is left
+   */
+  private removeDuplicateFindings(
+    thread: ADOCommentThread,
+    existingThreads: ExistingThread[]
+  ): ADOCommentThread | undefined {
+    const findingComments = thread.comments.filter(comment => this.isFindingComment(comment));
+    const duplicates = new Set(findingComments.filter(comment =>
+      existingThreads.some(existing => this.isDuplicateFinding(comment, thread.threadContext?.filePath, existing))
+    ));
+
+    if (duplicates.size === 0) {
+      return thread;
+    }
+    if (duplicates.size === findingComments.length) {
+      return undefined;
+    }
+
+    this.logger.debug(`Dropping ${duplicates.size} already posted finding(s) from thread at ${thread.threadContext?.filePath}`);
+    const comments = thread.comments.filter(comment => !duplicates.has(comment));
+    const fingerprints = comments
+      .map(comment => comment.properties?.[FINGERPRINT_PROPERTY])
+      .filter((fingerprint): fingerprint is string => !!fingerprint);
+    const { [FINGERPRINTS_PROPERTY]: _previous, ...properties } = thread.properties ?? {};
+
+    return {
+      ...thread,
+      comments,
+      properties: {
+        ...properties,
+        ...(fingerprints.length > 0 && { [FINGERPRINTS_PROPERTY]: fingerprints.join(',') })
+      }
+    };
+  }
+
+  /**
+   * Whether an existing thread already reports this finding
+   */
+  private isDuplicateFinding(comment: ADOComment, filePath: string | undefined, existing: ExistingThread): boolean {
+    const fingerprint = comment.properties?.[FINGERPRINT_PROPERTY];
+    const existingFingerprints = this.getThreadFingerprints(existing);
+
+    // Text similarity only decides when one side predates fingerprints
+    if (fingerprint && existingFingerprints.size > 0) {
+      return existingFingerprints.has(fingerprint);
+    }
+    return this.isSimilarToThread(comment, filePath, existing);
+  }
+
+  /**
+   * Secondary check: an existing thread on the same file with a near-identical comment
+   */
+  private isSimilarToThread(comment: ADOComment, filePath: string | undefined, existing: ExistingThread): boolean {
+    const existingPath = existing.threadContext?.filePath ?? getThreadProperty(existing.properties, 'ado-review.file');
+    if (!filePath || existingPath !== filePath) {
+      return false;
+    }
+    return existing.comments.some(existingComment => this.areCommentsSimilar(existingComment.content, comment.content));
+  }
+
+  private getThreadFingerprints(thread: ExistingThread): Set<string> {
+    return new Set(parseFingerprints(getThreadProperty(thread.properties, FINGERPRINTS_PROPERTY)));
+  }
+
+  private isFindingComment(comment: ADOComment): boolean {
+    return comment.properties?.['ado-review.type'] === 'finding';
   }
 
   /**
@@ -348,22 +517,47 @@ export class Commenter {
     const context = newThread.threadContext;
     this.logger.debug(`Updating existing thread ${existingThread.id} at ${context?.filePath}:${context?.rightFileStart.line}`);
     
+    const fingerprints = this.getThreadFingerprints(existingThread);
+    const knownFingerprints = fingerprints.size;
+    // Suggestion blocks apply to the thread's lines, which may differ from where the finding is now
+    const sameLines = existingThread.threadContext?.rightFileStart.line === context?.rightFileStart.line &&
+      existingThread.threadContext?.rightFileEnd.line === context?.rightFileEnd.line;
+
     // Add new comments to existing thread
     for (const comment of newThread.comments) {
-      // Check if comment already exists (by content similarity)
-      const isDuplicate = existingThread.comments.some(existing => 
-        this.areCommentsSimilar(existing.content, comment.content)
-      );
+      // Check if comment already exists (by fingerprint, then content similarity)
+      const isDuplicate = this.isFindingComment(comment)
+        ? this.isDuplicateFinding(comment, context?.filePath, existingThread)
+        : existingThread.comments.some(existing => this.areCommentsSimilar(existing.content, comment.content));
       
       if (!isDuplicate) {
         await this.retryOperation(
-          () => this.adoClient.addCommentToThread(pullRequestId, existingThread.id, comment),
+          () => this.adoClient.addCommentToThread(
+            pullRequestId,
+            existingThread.id,
+            sameLines ? comment : { ...comment, content: comment.content.replace(SUGGESTION_BLOCK, '') }
+          ),
           options.retryAttempts,
           options.retryDelay,
           `add comment to thread ${existingThread.id}`
         );
+        if (comment.properties?.[FINGERPRINT_PROPERTY]) {
+          fingerprints.add(comment.properties[FINGERPRINT_PROPERTY]);
+        }
       }
     }
+
+    // Threads posted before fingerprints existed keep relying on text similarity
+    if (knownFingerprints > 0 && fingerprints.size > knownFingerprints) {
+      await this.retryOperation(
+        () => this.adoClient.updateCommentThread(pullRequestId, existingThread.id, {
+          properties: { [FINGERPRINTS_PROPERTY]: [...fingerprints].join(',') }
+        }),
+        options.retryAttempts,
+        options.retryDelay,
+        `update fingerprints of thread ${existingThread.id}`
+      );
+    }
   }
 
   /**
@@ -3,6 +3,26 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
+import { LLMProvider } from './llm/types';
+import { AzureOpenAIAuthMode } from './llm/azureOpenaiAdapter';
+import { ADOAuthMethod } from './auth/types';
+
+/**
+ * Review options the webhook server applies to one repository
+ */
+export interface WebhookRepositoryConfig {
+  enabled?: boolean;
+  rules?: string[];
+  projectRules?: string;
+  include?: string[];
+  exclude?: string[];
+  provider?: LLMProvider;
+  model?: string;
+  postStatus?: boolean;
+  incremental?: boolean;
+  dryRun?: boolean;
+  severityThreshold?: 'info' | 'warning' | 'error';
+}
 
 export interface AppConfig {
   azo: {
@@ -10,6 +30,10 @@ export interface AppConfig {
     maxRetries: number;
     retryDelay: number;
     apiVersion: string;
+    /** Azure DevOps Server base URL; null or unset means Azure DevOps Services */
+    serverUrl?: string | null;
+    /** Credential provider for Azure DevOps; 'auto' tries them in order with PAT last */
+    auth?: ADOAuthMethod;
   };
   git: {
     depth: number;
@@ -36,8 +60,30 @@ export interface AppConfig {
     timeout?: number;
     baseUrl?: string;
   };
+  anthropic?: {
+    defaultModel: string;
+    availableModels?: string[];
+    timeout?: number;
+    baseUrl?: string;
+  };
+  azureOpenai?: {
+    defaultModel: string;
+    availableModels?: string[];
+    endpoint?: string;
+    resource?: string;
+    apiVersion?: string;
+    authMode?: AzureOpenAIAuthMode;
+    timeout?: number;
+  };
+  openaiCompatible?: {
+    defaultModel: string;
+    availableModels?: string[];
+    baseUrl?: string;
+    jsonMode?: boolean;
+    timeout?: number;
+  };
   llm?: {
-    defaultProvider: 'gemini-api' | 'openai' | 'openrouter';
+    defaultProvider: LLMProvider;
   };
   rateLimit: {
     batchSize: number;
@@ -56,6 +102,8 @@ export interface AppConfig {
     contextLines: number;
     rules?: string[];
     projectRules?: string | null;
+    incremental?: boolean;
+    resolveFixedThreads?: boolean;
   };
   files: {
     defaultInclude: string[];
@@ -100,6 +148,26 @@ export interface AppConfig {
     };
     targetUrl: string | null;
   };
+  conversation?: {
+    enabled: boolean;
+    maxRepliesPerRun: number;
+    contextLines: number;
+  };
+  suppression?: {
+    enabled: boolean;
+    acrossPullRequests: boolean;
+    stateFile: string;
+  };
+  server?: {
+    port: number;
+    host: string;
+    path: string;
+    secretHeader: string;
+    debounceMs: number;
+    maxConcurrent: number;
+    maxBodyBytes: number;
+    repositories?: Record<string, WebhookRepositoryConfig>;
+  };
   errors: {
     exitCodes: {
       success: number;
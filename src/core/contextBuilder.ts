@@ -375,6 +375,8 @@ For each issue found, provide:
 3. Severity level (error/warning/info)
 4. Suggested fix or improvement
 5. Rule ID (if applicable)
+6. The exact code of the referenced line, copied from the diff
+7. For direct edits, the exact code replacing the referenced lines, with the original indentation
 
 Focus only on the changed lines and their immediate context.
 Provide constructive feedback that helps improve code quality.
@@ -388,8 +390,10 @@ Return results in JSON format with the following structure:
       "severity": "warning",
       "message": "Issue description",
       "suggestion": "Suggested fix",
+      "replacement": "exact new code for lines line..endLine",
       "ruleId": "rule-id",
-      "category": "category-name"
+      "category": "category-name",
+      "codeSnippet": "exact code of the line"
     }
   ]
 }`;
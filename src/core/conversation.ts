@@ -0,0 +1,149 @@
+import { CommentThread } from './adoClient';
+import { getThreadProperty } from './threadResolution';
+
+/**
+ * Follow-up conversations in ado-review threads: spotting developer questions that have not been
+ * answered yet and building a focused prompt for the reply.
+ */
+
+export interface ConversationMessage {
+  author: string;
+  content: string;
+  fromBot: boolean;
+}
+
+export interface PendingConversation {
+  threadId: number;
+  filePath?: string;
+  startLine?: number;
+  endLine?: number;
+  /** Review comment(s) the thread was opened with */
+  finding: string;
+  /** Earlier messages, oldest first */
+  history: ConversationMessage[];
+  /** Latest developer message, the one to answer */
+  question: ConversationMessage;
+}
+
+export interface CodeWindow {
+  startLine: number;
+  lines: string[];
+}
+
+// Longest reply posted to a thread; keeps runaway model output readable
+const MAX_REPLY_LENGTH = 8000;
+
+const ANSWERABLE_THREAD_TYPES = ['line-group', 'severity-group'];
+// Explicit request for an answer that does not need a question mark
+const BOT_MENTION = /(?:^|\s)@ado-review\b/i;
+
+/**
+ * Whether a developer message asks for an answer: it contains a question mark or mentions @ado-review
+ */
+export function isQuestion(text: string): boolean {
+  return text.includes('?') || BOT_MENTION.test(text);
+}
+
+/**
+ * Active ado-review threads whose latest message is an unanswered developer question
+ */
+export function findPendingConversations(threads: CommentThread[], botUserId: string): PendingConversation[] {
+  const pending: PendingConversation[] = [];
+
+  for (const thread of threads) {
+    const type = getThreadProperty(thread.properties, 'ado-review.type');
+    if (thread.isDeleted || thread.status !== 'active' || !type || !ANSWERABLE_THREAD_TYPES.includes(type)) {
+      continue;
+    }
+
+    const messages = (thread.comments ?? [])
+      .filter(comment => !comment.isDeleted && comment.commentType !== 'system' && comment.content?.trim())
+      .sort((a, b) => a.id - b.id)
+      .map(comment => ({
+        author: comment.author?.displayName || 'Developer',
+        content: comment.content.trim(),
+        fromBot: comment.author?.id === botUserId
+      }));
+
+    const question = messages[messages.length - 1];
+    const firstReply = messages.findIndex(message => !message.fromBot);
+    if (!question || question.fromBot || firstReply <= 0 || !isQuestion(question.content)) {
+      continue;
+    }
+
+    const context = thread.threadContext ?? thread.context;
+    const startLine = context?.rightFileStart?.line;
+    const filePath = context?.filePath || getThreadProperty(thread.properties, 'ado-review.file');
+    pending.push({
+      threadId: thread.id,
+      ...(filePath && { filePath }),
+      ...(startLine !== undefined && { startLine, endLine: context?.rightFileEnd?.line ?? startLine }),
+      finding: messages.slice(0, firstReply).map(message => message.content).join('\n\n'),
+      history: messages.slice(firstReply, -1),
+      question
+    });
+  }
+
+  return pending;
+}
+
+/**
+ * Lines around a thread's position, clamped to the file
+ */
+export function extractCodeWindow(content: string, startLine: number, endLine: number, radius: number): CodeWindow {
+  const lines = content.split(/\r?\n/);
+  const first = Math.max(1, startLine - radius);
+  const last = Math.min(lines.length, Math.max(startLine, endLine) + radius);
+  return { startLine: first, lines: lines.slice(first - 1, last) };
+}
+
+/**
+ * Prompt asking the model to answer the latest message of a thread
+ */
+export function buildConversationPrompt(conversation: PendingConversation, code?: CodeWindow): string {
+  const location = conversation.filePath
+    ? `\`${conversation.filePath}\`${conversation.startLine !== undefined ? ` (line ${conversation.startLine}${conversation.endLine && conversation.endLine !== conversation.startLine ? `-${conversation.endLine}` : ''})` : ''}`
+    : 'this pull request';
+
+  const sections = [
+    `You posted the review comment below on ${location}. A developer replied in the comment thread; answer their latest message.`,
+    '',
+    '- Answer in the language the developer wrote in.',
+    '- Be brief: a few short paragraphs at most. Use Markdown and fenced code blocks for code.',
+    '- If the current code or their explanation resolves the concern, say so plainly. If your comment was wrong, admit it.',
+    '- Stay on this thread; do not raise unrelated issues.',
+    '',
+    '## Original review comment',
+    conversation.finding
+  ];
+
+  if (code && code.lines.length > 0) {
+    const width = String(code.startLine + code.lines.length - 1).length;
+    sections.push(
+      '',
+      '## Current code',
+      '```',
+      ...code.lines.map((line, index) => `${String(code.startLine + index).padStart(width)} | ${line}`),
+      '```'
+    );
+  }
+
+  if (conversation.history.length > 0) {
+    sections.push('', '## Earlier replies');
+    for (const message of conversation.history) {
+      sections.push(`**${message.fromBot ? 'You' : message.author}:** ${message.content}`, '');
+    }
+  }
+
+  sections.push('', `## Latest message from ${conversation.question.author}`, conversation.question.content);
+  return sections.join('\n');
+}
+
+/**
+ * Reply content posted to the thread
+ */
+export function formatReply(answer: string): string {
+  const trimmed = answer.trim();
+  const body = trimmed.length > MAX_REPLY_LENGTH ? `${trimmed.substring(0, MAX_REPLY_LENGTH - 1)}…` : trimmed;
+  return `🤖 ${body}`;
+}
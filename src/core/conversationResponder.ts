@@ -0,0 +1,133 @@
+import { Logger } from './logger';
+import { ErrorHandler } from './errorHandler';
+import { ADOClient } from './adoClient';
+import { LLMAdapter } from './llm/types';
+import {
+  buildConversationPrompt,
+  CodeWindow,
+  extractCodeWindow,
+  findPendingConversations,
+  formatReply,
+  PendingConversation
+} from './conversation';
+
+export interface ConversationOptions {
+  model: string;
+  /** Maximum number of threads answered in one run */
+  maxReplies: number;
+  /** Lines of code shown to the model on each side of the thread position */
+  contextLines: number;
+  dryRun: boolean;
+  /** Iteration the thread positions are tracked to */
+  iterationId?: number;
+  /** Source commit the code context is read from */
+  sourceCommit?: string;
+}
+
+export interface ConversationResult {
+  repliesPosted: number;
+  errors: string[];
+}
+
+/**
+ * Answers developer questions posted as replies in ado-review threads
+ */
+export class ConversationResponder {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+  private adoClient: ADOClient;
+  private llmAdapter: LLMAdapter;
+  private botUserId: string | undefined;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, adoClient: ADOClient, llmAdapter: LLMAdapter) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+    this.adoClient = adoClient;
+    this.llmAdapter = llmAdapter;
+  }
+
+  /**
+   * Reply to every unanswered question in the pull request's review threads
+   */
+  public async respond(pullRequestId: number, options: ConversationOptions): Promise<ConversationResult> {
+    const result: ConversationResult = { repliesPosted: 0, errors: [] };
+
+    let pending: PendingConversation[];
+    try {
+      this.botUserId ??= await this.adoClient.getCurrentUserId();
+      const threads = await this.adoClient.getCommentThreads(pullRequestId, options.iterationId);
+      pending = findPendingConversations(threads, this.botUserId);
+    } catch (error) {
+      const normalized = this.errorHandler.normalizeError(error as Error);
+      this.logger.warn(`Failed to check review threads for replies: ${normalized.message}`);
+      result.errors.push(normalized.message);
+      return result;
+    }
+
+    if (pending.length === 0) {
+      this.logger.debug('No unanswered replies in review threads');
+      return result;
+    }
+    if (pending.length > options.maxReplies) {
+      this.logger.warn(`${pending.length} threads await an answer, replying to the first ${options.maxReplies}`);
+    }
+
+    const fileCache = new Map<string, Promise<string>>();
+    for (const conversation of pending.slice(0, options.maxReplies)) {
+      try {
+        const code = await this.getCodeWindow(conversation, options, fileCache);
+        const answer = await this.llmAdapter.generateText(buildConversationPrompt(conversation, code), {
+          model: options.model,
+          temperature: 0.2
+        });
+        if (!answer) {
+          throw new Error('The model returned an empty answer');
+        }
+
+        if (options.dryRun) {
+          this.logger.info(`[DRY RUN] Reply to thread ${conversation.threadId}: ${answer.substring(0, 100).replace(/\n/g, ' ')}...`);
+        } else {
+          await this.adoClient.addCommentToThread(pullRequestId, conversation.threadId, { content: formatReply(answer) });
+          this.logger.debug(`Answered ${conversation.question.author} in thread ${conversation.threadId}`);
+        }
+        result.repliesPosted++;
+      } catch (error) {
+        const errorMsg = `Failed to answer thread ${conversation.threadId}: ${(error as Error).message}`;
+        this.logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    if (result.repliesPosted > 0) {
+      this.logger.info(`Answered ${result.repliesPosted} developer repl${result.repliesPosted === 1 ? 'y' : 'ies'}`);
+    }
+    return result;
+  }
+
+  /**
+   * Code around the thread at the latest source commit; the answer is still useful without it
+   */
+  private async getCodeWindow(
+    conversation: PendingConversation,
+    options: ConversationOptions,
+    fileCache: Map<string, Promise<string>>
+  ): Promise<CodeWindow | undefined> {
+    const { filePath, startLine } = conversation;
+    if (!filePath || startLine === undefined || !options.sourceCommit) {
+      return undefined;
+    }
+
+    try {
+      let content = fileCache.get(filePath);
+      if (!content) {
+        content = this.adoClient.getFileContent(filePath, options.sourceCommit);
+        fileCache.set(filePath, content);
+      }
+      const window = extractCodeWindow(await content, startLine, conversation.endLine ?? startLine, options.contextLines);
+      return window.lines.length > 0 ? window : undefined;
+    } catch (error) {
+      this.logger.debug(`Could not load ${filePath} for thread ${conversation.threadId}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+}
@@ -1,7 +1,9 @@
+import * as fs from 'fs';
 import { ADOClient, PullRequestIteration, FileChange } from './adoClient';
 import { GitManager } from './gitManager';
 import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
+import { createUnifiedDiff } from './lineDiff';
 
 export interface DiffHunk {
   filePath: string;
@@ -31,16 +33,18 @@ export interface PullRequestDiff {
   totalChanges: number;
   addedLines: number;
   deletedLines: number;
+  iterationId?: number;
+  baseIterationId?: number;
 }
 
 export class DiffFetcher {
-  private adoClient: ADOClient;
+  private adoClient: ADOClient | undefined;
   private gitManager: GitManager;
   private logger: Logger;
   private errorHandler: ErrorHandler;
 
   constructor(
-    adoClient: ADOClient,
+    adoClient: ADOClient | undefined,
     gitManager: GitManager,
     logger: Logger,
     errorHandler: ErrorHandler
@@ -53,13 +57,19 @@ export class DiffFetcher {
 
   /**
    * Fetch pull request diff using iteration changes API
-   * This gets the changes from the PR iterations which matches the manual API data
+   * This gets the changes from the PR iterations which matches the manual API data.
+   * When baseIterationId is given, only changes pushed after that iteration are returned.
    */
   public async fetchPullRequestDiff(
     pullRequestId: number,
-    workingDirectory?: string
+    workingDirectory?: string,
+    baseIterationId?: number
   ): Promise<PullRequestDiff> {
     try {
+      if (!this.adoClient) {
+        throw this.errorHandler.createInternalError('ADO client is required to fetch pull request diffs');
+      }
+
       this.logger.info(`Fetching iteration changes for PR ${pullRequestId}`);
 
       // Get PR iterations for commit info
@@ -73,10 +83,37 @@ export class DiffFetcher {
         throw new Error('No valid iteration found for pull request');
       }
 
+      // Resolve base iteration for incremental reviews
+      let baseIteration: PullRequestIteration | undefined;
+      if (baseIterationId !== undefined) {
+        if (baseIterationId >= latestIteration.id) {
+          this.logger.info(`No new iterations since iteration ${baseIterationId}`);
+          return {
+            pullRequestId,
+            sourceCommit: latestIteration.sourceRefCommit.commitId,
+            targetCommit: latestIteration.targetRefCommit.commitId,
+            files: [],
+            totalChanges: 0,
+            addedLines: 0,
+            deletedLines: 0,
+            iterationId: latestIteration.id,
+            baseIterationId
+          };
+        }
+
+        baseIteration = iterations.find(iteration => iteration.id === baseIterationId);
+        if (baseIteration) {
+          this.logger.info(`Reviewing iterations ${baseIterationId + 1}..${latestIteration.id} only`);
+        } else {
+          this.logger.warn(`Base iteration ${baseIterationId} not found, reviewing full pull request`);
+        }
+      }
+
       // Get iteration changes instead of final diff
       const iterationChanges = await this.adoClient.getIterationChanges(
         pullRequestId,
-        latestIteration.id
+        latestIteration.id,
+        baseIteration?.id
       );
       
       this.logger.debug(`Processing iteration changes with ${iterationChanges.length} file changes`);
@@ -95,7 +132,8 @@ export class DiffFetcher {
           const fileDiff = await this.processIterationChange(
             change,
             latestIteration,
-            workingDirectory
+            workingDirectory,
+            baseIteration
           );
         
           if (fileDiff) {
@@ -126,9 +164,14 @@ export class DiffFetcher {
         files: fileDiffs,
         totalChanges: fileDiffs.length,
         addedLines: totalAddedLines,
-        deletedLines: totalDeletedLines
+        deletedLines: totalDeletedLines,
+        iterationId: latestIteration.id
       };
 
+      if (baseIteration) {
+        pullRequestDiff.baseIterationId = baseIteration.id;
+      }
+
       this.logger.info(`Successfully fetched diff: ${fileDiffs.length} files, +${totalAddedLines}/-${totalDeletedLines} lines`);
       return pullRequestDiff;
     } catch (error) {
@@ -151,13 +194,206 @@ export class DiffFetcher {
     }
   }
 
+  /**
+   * Fetch diff between two git refs in a local working copy
+   * Produces the same structure as a pull request diff so the review pipeline can be reused
+   */
+  public async fetchLocalDiff(
+    workingDirectory: string,
+    baseRef: string,
+    headRef: string
+  ): Promise<PullRequestDiff> {
+    try {
+      this.logger.info(`Fetching local changes between ${baseRef} and ${headRef}`);
+
+      const changedFiles = await this.gitManager.getChangedFiles(workingDirectory, baseRef, headRef);
+      this.logger.debug(`Processing ${changedFiles.length} changed files`);
+
+      const fileDiffs: FileDiff[] = [];
+
+      for (const changedFile of changedFiles) {
+        const filePath = `/${changedFile}`;
+
+        if (this.isBinaryFile(filePath)) {
+          fileDiffs.push({
+            filePath,
+            changeType: 'edit',
+            hunks: [],
+            isText: false,
+            isBinary: true
+          });
+          continue;
+        }
+
+        try {
+          const diffContent = await this.gitManager.getDiff(workingDirectory, baseRef, headRef, changedFile);
+          const hunks = this.parseDiffHunks(diffContent, filePath);
+          const isBinary = /^Binary files .* differ$/m.test(diffContent);
+
+          fileDiffs.push({
+            filePath,
+            changeType: this.determineFileChangeType(diffContent),
+            hunks,
+            isText: !isBinary,
+            isBinary
+          });
+        } catch (error) {
+          this.logger.warn(`Failed to process file ${filePath}: ${(error as Error).message}`);
+          // Continue with other files
+        }
+      }
+
+      const { addedLines, deletedLines } = this.countChangedLines(fileDiffs);
+      this.logger.info(`Successfully fetched local diff: ${fileDiffs.length} files, +${addedLines}/-${deletedLines} lines`);
+
+      return {
+        pullRequestId: 0,
+        sourceCommit: headRef,
+        targetCommit: baseRef,
+        files: fileDiffs,
+        totalChanges: fileDiffs.length,
+        addedLines,
+        deletedLines
+      };
+    } catch (error) {
+      const reviewError = this.errorHandler.normalizeError(error);
+      reviewError.context = {
+        ...reviewError.context,
+        operation: 'fetchLocalDiff',
+        component: 'DiffFetcher',
+        metadata: { workingDirectory, baseRef, headRef }
+      };
+      throw reviewError;
+    }
+  }
+
+  /**
+   * Read a unified diff from a file (or stdin when path is '-') and build a diff from it
+   */
+  public async fetchDiffFile(diffFilePath: string): Promise<PullRequestDiff> {
+    try {
+      const fromStdin = diffFilePath === '-';
+      this.logger.info(`Reading unified diff from ${fromStdin ? 'stdin' : diffFilePath}`);
+
+      const diffContent = fs.readFileSync(fromStdin ? 0 : diffFilePath, 'utf8');
+      const fileDiffs = this.parseUnifiedDiff(diffContent);
+      const { addedLines, deletedLines } = this.countChangedLines(fileDiffs);
+
+      this.logger.info(`Successfully parsed diff: ${fileDiffs.length} files, +${addedLines}/-${deletedLines} lines`);
+
+      return {
+        pullRequestId: 0,
+        sourceCommit: '',
+        targetCommit: '',
+        files: fileDiffs,
+        totalChanges: fileDiffs.length,
+        addedLines,
+        deletedLines
+      };
+    } catch (error) {
+      const reviewError = this.errorHandler.normalizeError(error);
+      reviewError.context = {
+        ...reviewError.context,
+        operation: 'fetchDiffFile',
+        component: 'DiffFetcher',
+        metadata: { diffFilePath }
+      };
+      throw reviewError;
+    }
+  }
+
+  /**
+   * Split a multi-file unified diff (git or plain diff -u format) into file diffs
+   */
+  public parseUnifiedDiff(diffContent: string): FileDiff[] {
+    const sections: string[][] = [];
+    const lines = diffContent.replace(/\r\n/g, '\n').split('\n');
+    let current: string[] | null = null;
+    let currentHasHunks = false;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i]!;
+
+      // Inside a hunk body: consume lines by the counts from the hunk header
+      if (current && (oldRemaining > 0 || newRemaining > 0)) {
+        current.push(line);
+        if (line.startsWith('-')) {
+          oldRemaining--;
+        } else if (line.startsWith('+')) {
+          newRemaining--;
+        } else if (!line.startsWith('\\')) {
+          oldRemaining--;
+          newRemaining--;
+        }
+        continue;
+      }
+
+      const startsGitSection = line.startsWith('diff --git ');
+      const startsPlainSection = line.startsWith('--- ') &&
+        (lines[i + 1] || '').startsWith('+++ ') &&
+        (!current || currentHasHunks);
+
+      if (startsGitSection || startsPlainSection) {
+        current = [];
+        currentHasHunks = false;
+        sections.push(current);
+      }
+
+      if (!current) {
+        continue; // Skip preamble such as commit messages
+      }
+
+      const hunkMatch = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      if (hunkMatch) {
+        oldRemaining = parseInt(hunkMatch[1] ?? '1', 10);
+        newRemaining = parseInt(hunkMatch[2] ?? '1', 10);
+        currentHasHunks = true;
+      } else if (currentHasHunks && !line.startsWith('\\')) {
+        continue; // Skip trailing noise after the last hunk (e.g. format-patch signature)
+      }
+
+      current.push(line);
+    }
+
+    const fileDiffs: FileDiff[] = [];
+    for (const section of sections) {
+      const sectionContent = section.join('\n');
+      const paths = this.extractDiffPaths(section);
+      if (!paths.filePath) {
+        this.logger.warn('Skipping diff section without a file path');
+        continue;
+      }
+
+      const isBinary = /^(Binary files .* differ|GIT binary patch)$/m.test(sectionContent) ||
+        this.isBinaryFile(paths.filePath);
+      const fileDiff: FileDiff = {
+        filePath: paths.filePath,
+        changeType: this.determineFileChangeType(sectionContent),
+        hunks: isBinary ? [] : this.parseDiffHunks(sectionContent, paths.filePath),
+        isText: !isBinary,
+        isBinary
+      };
+
+      if (paths.oldPath && paths.oldPath !== paths.filePath) {
+        fileDiff.oldPath = paths.oldPath;
+      }
+
+      fileDiffs.push(fileDiff);
+    }
+
+    return fileDiffs;
+  }
+
   /**
    * Process individual file change from iteration changes
    */
   private async processIterationChange(
     change: FileChange,
     iteration: PullRequestIteration,
-    workingDirectory?: string
+    workingDirectory?: string,
+    baseIteration?: PullRequestIteration
   ): Promise<FileDiff | null> {
     const filePath = change.item?.path;
     if (!filePath) {
@@ -180,28 +416,37 @@ export class DiffFetcher {
       };
     }
 
-    // For iteration changes, we need to create a basic diff since we don't have the actual diff content
-    // This matches the format that would come from the manual API call
-    let diffContent: string;
-    
-    try {
-      // Try to get actual diff content if working directory is available
-      if (workingDirectory) {
+    // Incremental reviews diff against the previously reviewed source commit
+    const fromCommit = baseIteration
+      ? baseIteration.sourceRefCommit.commitId
+      : iteration.targetRefCommit.commitId;
+    const toCommit = iteration.sourceRefCommit.commitId;
+    let diffContent: string | undefined;
+
+    // Prefer git when a working directory is available
+    if (workingDirectory) {
+      try {
         // Remove leading slash from filePath for git diff command
         const normalizedFilePath = filePath.startsWith('/') ? filePath.substring(1) : filePath;
         diffContent = await this.gitManager.getDiff(
           workingDirectory,
-          iteration.targetRefCommit.commitId,
-          iteration.sourceRefCommit.commitId,
+          fromCommit,
+          toCommit,
           normalizedFilePath
         );
-      } else {
-        // Fallback to basic diff
+      } catch (error) {
+        this.logger.warn(`Failed to get git diff for ${filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    // Without git, download both versions through the Items API and diff them in-process
+    if (diffContent === undefined) {
+      try {
+        diffContent = await this.createContentDiff(change, changeType, fromCommit, toCommit);
+      } catch (error) {
+        this.logger.warn(`Failed to get file contents for ${filePath}: ${(error as Error).message}`);
         diffContent = this.createBasicDiff(change, iteration);
       }
-    } catch (error) {
-      this.logger.warn(`Failed to get git diff for ${filePath}: ${(error as Error).message}`);
-      diffContent = this.createBasicDiff(change, iteration);
     }
 
     const hunks = this.parseDiffHunks(diffContent, filePath);
@@ -215,12 +460,125 @@ export class DiffFetcher {
     };
 
     if (changeType === 'rename') {
-      fileDiff.oldPath = filePath;
+      fileDiff.oldPath = change.originalPath || filePath;
     }
 
     return fileDiff;
   }
 
+  /**
+   * Build a unified diff from file contents fetched at both commits
+   */
+  private async createContentDiff(
+    change: FileChange,
+    changeType: 'add' | 'edit' | 'delete' | 'rename',
+    fromCommit: string,
+    toCommit: string
+  ): Promise<string> {
+    if (!this.adoClient) {
+      throw new Error('ADO client is required to fetch file contents');
+    }
+
+    const filePath = change.item.path;
+    const oldPath = change.originalPath || filePath;
+
+    const oldContent = changeType === 'add'
+      ? ''
+      : await this.adoClient.getFileContent(oldPath, fromCommit);
+    const newContent = changeType === 'delete'
+      ? ''
+      : await this.adoClient.getFileContent(filePath, toCommit);
+
+    this.logger.debug(`Computed in-process diff for ${filePath} (${oldContent.length} -> ${newContent.length} chars)`);
+    return createUnifiedDiff(filePath, oldContent, newContent);
+  }
+
+  /**
+   * Determine file change type from git diff headers
+   */
+  private determineFileChangeType(diffContent: string): 'add' | 'edit' | 'delete' | 'rename' {
+    if (/^(new file mode|--- \/dev\/null)/m.test(diffContent)) {
+      return 'add';
+    }
+    if (/^(deleted file mode|\+\+\+ \/dev\/null)/m.test(diffContent)) {
+      return 'delete';
+    }
+    if (/^rename from/m.test(diffContent)) {
+      return 'rename';
+    }
+    return 'edit';
+  }
+
+  /**
+   * Extract old and new file paths from the header lines of a diff section
+   */
+  private extractDiffPaths(sectionLines: string[]): { filePath?: string; oldPath?: string } {
+    const normalize = (rawPath: string): string | undefined => {
+      // Drop timestamps appended by diff -u and the a/ b/ prefixes used by git
+      const cleaned = rawPath.split('\t')[0]!.trim().replace(/^"(.*)"$/, '$1');
+      if (!cleaned || cleaned === '/dev/null') {
+        return undefined;
+      }
+      const withoutPrefix = cleaned.replace(/^[ab]\//, '');
+      return withoutPrefix.startsWith('/') ? withoutPrefix : `/${withoutPrefix}`;
+    };
+
+    let oldPath: string | undefined;
+    let newPath: string | undefined;
+    let gitPath: string | undefined;
+
+    for (const line of sectionLines) {
+      if (line.startsWith('@@')) {
+        break;
+      }
+      if (line.startsWith('diff --git ')) {
+        const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+        gitPath = match?.[2] ? normalize(match[2]) : undefined;
+      } else if (line.startsWith('rename from ')) {
+        oldPath = normalize(line.substring('rename from '.length));
+      } else if (line.startsWith('rename to ')) {
+        newPath = normalize(line.substring('rename to '.length));
+      } else if (line.startsWith('--- ')) {
+        oldPath = oldPath ?? normalize(line.substring(4));
+      } else if (line.startsWith('+++ ')) {
+        newPath = newPath ?? normalize(line.substring(4));
+      }
+    }
+
+    const result: { filePath?: string; oldPath?: string } = {};
+    const filePath = newPath ?? oldPath ?? gitPath;
+    if (filePath) {
+      result.filePath = filePath;
+    }
+    if (oldPath) {
+      result.oldPath = oldPath;
+    }
+    return result;
+  }
+
+  /**
+   * Count added and deleted lines across file diffs
+   * Hunk content never contains file headers, so every +/- line is a change
+   */
+  private countChangedLines(files: FileDiff[]): { addedLines: number; deletedLines: number } {
+    let addedLines = 0;
+    let deletedLines = 0;
+
+    for (const file of files) {
+      for (const hunk of file.hunks) {
+        for (const line of hunk.content.split('\n')) {
+          if (line.startsWith('+')) {
+            addedLines++;
+          } else if (line.startsWith('-')) {
+            deletedLines++;
+          }
+        }
+      }
+    }
+
+    return { addedLines, deletedLines };
+  }
+
   private mapChangeType(adoChangeType: string): 'add' | 'edit' | 'delete' | 'rename' {
     switch (adoChangeType.toLowerCase()) {
       case 'add':
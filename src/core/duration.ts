@@ -0,0 +1,27 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration such as "90s", "5m", "1h30m" or a plain number of milliseconds;
+ * returns undefined for anything else
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+  if (!/^(\d+(ms|s|m|h|d))+$/.test(trimmed)) {
+    return undefined;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+)(ms|s|m|h|d)/g)) {
+    total += parseInt(amount!, 10) * UNIT_MS[unit!]!;
+  }
+  return total;
+}
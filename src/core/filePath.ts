@@ -0,0 +1,7 @@
+/**
+ * Canonical form of a repository file path for comparisons. Azure DevOps, git diffs and model
+ * output disagree on leading slashes, "./" and the "a/" / "b/" diff prefixes.
+ */
+export function normalizePath(filePath: string): string {
+  return filePath.trim().replace(/\\/g, '/').replace(/^(\.\/|[ab]\/)/, '').replace(/^\/+/, '');
+}
@@ -0,0 +1,168 @@
+import { FileDiff } from './diffFetcher';
+import { ReviewFinding } from './llm/types';
+import { normalizePath } from './filePath';
+
+/**
+ * Anchors LLM findings to lines that are actually visible in the diff.
+ * Line numbers outside the changed ranges are snapped using the quoted code snippet;
+ * findings that cannot be placed are returned separately for the summary comment.
+ */
+
+export interface AnchorResult {
+  anchored: ReviewFinding[];
+  unanchored: ReviewFinding[];
+  snapped: number;
+}
+
+interface DiffLine {
+  line: number;
+  text: string;
+  added: boolean;
+}
+
+interface FileLines {
+  lines: DiffLine[];
+  ranges: Array<{ start: number; end: number }>;
+}
+
+// Substring matches shorter than this are too ambiguous (e.g. "}" or "return;")
+const MIN_PARTIAL_SNIPPET_LENGTH = 10;
+
+/**
+ * Validate finding line numbers against the new-side ranges of the diff hunks
+ */
+export function anchorFindings(findings: ReviewFinding[], files: FileDiff[]): AnchorResult {
+  const fileLines = new Map<string, FileLines>();
+  for (const file of files) {
+    if (file.changeType !== 'delete') {
+      fileLines.set(normalizePath(file.filePath), collectNewLines(file));
+    }
+  }
+
+  const result: AnchorResult = { anchored: [], unanchored: [], snapped: 0 };
+
+  for (const finding of findings) {
+    const diff = fileLines.get(normalizePath(finding.file));
+    if (!diff || diff.ranges.length === 0) {
+      result.unanchored.push(finding);
+      continue;
+    }
+
+    const target = findAnchorLine(finding, diff);
+    if (target === undefined) {
+      result.unanchored.push(finding);
+    } else if (target === finding.line) {
+      result.anchored.push(finding);
+    } else {
+      result.anchored.push(moveFinding(finding, target, diff));
+      result.snapped++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pick the line a finding should be attached to, or undefined if it cannot be anchored
+ */
+function findAnchorLine(finding: ReviewFinding, diff: FileLines): number | undefined {
+  const inRange = diff.ranges.some(range => finding.line >= range.start && finding.line <= range.end);
+  const snippet = normalizeSnippet(finding.codeSnippet);
+
+  if (!snippet) {
+    return inRange ? finding.line : undefined;
+  }
+
+  const current = diff.lines.find(line => line.line === finding.line);
+  if (current && matchesSnippet(current.text, snippet)) {
+    return finding.line;
+  }
+
+  const matches = diff.lines.filter(line => matchesSnippet(line.text, snippet));
+  if (matches.length === 0) {
+    // The snippet may be paraphrased; trust an in-range line number
+    return inRange ? finding.line : undefined;
+  }
+
+  // Prefer exact matches, then changed lines, then the closest one to the reported line
+  const exact = matches.filter(line => normalizeText(line.text) === snippet);
+  const candidates = exact.length > 0 ? exact : matches;
+  candidates.sort((a, b) =>
+    Math.abs(a.line - finding.line) - Math.abs(b.line - finding.line) ||
+    Number(b.added) - Number(a.added)
+  );
+  return candidates[0]!.line;
+}
+
+/**
+ * Move a finding to a new line, keeping its span inside the same hunk
+ */
+function moveFinding(finding: ReviewFinding, line: number, diff: FileLines): ReviewFinding {
+  const moved: ReviewFinding = { ...finding, line };
+  delete moved.endLine;
+
+  if (finding.endLine !== undefined) {
+    const range = diff.ranges.find(r => line >= r.start && line <= r.end)!;
+    const endLine = Math.min(finding.endLine + (line - finding.line), range.end);
+    if (endLine > line) {
+      moved.endLine = endLine;
+    }
+  }
+
+  // A replacement written for more lines than the span kept would duplicate code
+  if ((moved.endLine ?? line) - line !== (finding.endLine ?? finding.line) - finding.line) {
+    delete moved.replacement;
+  }
+
+  return moved;
+}
+
+/**
+ * Collect new-side line numbers and text from the hunks of a file
+ */
+function collectNewLines(file: FileDiff): FileLines {
+  const lines: DiffLine[] = [];
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (const hunk of file.hunks) {
+    if (hunk.newLineCount > 0) {
+      ranges.push({ start: hunk.newLineStart, end: hunk.newLineStart + hunk.newLineCount - 1 });
+    }
+
+    let line = hunk.newLineStart;
+    for (const raw of hunk.content.split('\n')) {
+      if (raw.startsWith('+') || raw.startsWith(' ')) {
+        lines.push({ line, text: raw.substring(1), added: raw.startsWith('+') });
+        line++;
+      }
+    }
+  }
+
+  return { lines, ranges };
+}
+
+function matchesSnippet(text: string, snippet: string): boolean {
+  const normalized = normalizeText(text);
+  if (!normalized) {
+    return false;
+  }
+  return normalized === snippet || (snippet.length >= MIN_PARTIAL_SNIPPET_LENGTH && normalized.includes(snippet));
+}
+
+/**
+ * Use the first meaningful line of a snippet, stripping diff markers copied from the prompt
+ */
+function normalizeSnippet(snippet: string | undefined): string {
+  if (!snippet) {
+    return '';
+  }
+  const firstLine = snippet
+    .split('\n')
+    .map(line => normalizeText(line.replace(/^[+-]/, '')))
+    .find(line => line.length > 0);
+  return firstLine ?? '';
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,53 @@
+import { ReviewFinding, Severity } from './llm/types';
+
+/**
+ * Severity and category counts shared by the summary comment, PR status and reports
+ */
+
+export const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+export const UNCATEGORIZED = 'uncategorized';
+
+export interface FindingStatistics {
+  totalFindings: number;
+  bySeverity: Record<Severity, number>;
+  /** Severity counts per category, ordered by total count */
+  byCategory: Array<{ category: string; total: number; bySeverity: Record<Severity, number> }>;
+  filesWithFindings: number;
+}
+
+/**
+ * Count findings by severity, category and file
+ */
+export function computeFindingStatistics(findings: ReviewFinding[]): FindingStatistics {
+  const bySeverity = emptyCounts();
+  const categories = new Map<string, Record<Severity, number>>();
+  const files = new Set<string>();
+
+  for (const finding of findings) {
+    bySeverity[finding.severity]++;
+    files.add(finding.file);
+
+    const category = finding.category?.trim() || UNCATEGORIZED;
+    const counts = categories.get(category) ?? emptyCounts();
+    counts[finding.severity]++;
+    categories.set(category, counts);
+  }
+
+  const byCategory = Array.from(categories, ([category, counts]) => ({
+    category,
+    total: counts.error + counts.warning + counts.info,
+    bySeverity: counts
+  })).sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+
+  return {
+    totalFindings: findings.length,
+    bySeverity,
+    byCategory,
+    filesWithFindings: files.size
+  };
+}
+
+function emptyCounts(): Record<Severity, number> {
+  return { error: 0, warning: 0, info: 0 };
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { FileDiff, DiffHunk } from './diffFetcher';
+import { ReviewFinding } from './llm/types';
+import { normalizePath } from './filePath';
+
+/**
+ * Stable identity of a finding across runs. Built from what the finding is about (rule, code,
+ * file, enclosing symbol) rather than where it is, so inserting lines above does not change it.
+ */
+
+/** Comment property holding the fingerprint of one finding */
+export const FINGERPRINT_PROPERTY = 'ado-review.fingerprint';
+/** Thread property listing the fingerprints of all findings in the thread */
+export const FINGERPRINTS_PROPERTY = 'ado-review.fingerprints';
+
+export interface FingerprintParts {
+  file: string;
+  ruleId?: string;
+  /** Flagged code; whitespace differences are ignored */
+  snippet?: string;
+  /** Name of the function, method or class containing the code */
+  symbol?: string;
+  /** Identifies the issue when there is no rule ID */
+  message?: string;
+}
+
+const FINGERPRINT_LENGTH = 16;
+
+// Declarations in the common C-like, Python, Go and Rust syntaxes
+const DECLARATION_PATTERNS = [
+  /\b(?:function|def|func|fn|class|interface|struct|enum|trait|impl|module|namespace)\s+(?:\([^)]*\)\s*)?\*?\s*([A-Za-z_$][\w$]*)/,
+  /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/,
+  // Methods with a modifier; the opening brace may be on the next line
+  /^\s*(?:(?:public|private|protected|internal|static|async|override|virtual|abstract|final|readonly|export|default)\s+)+(?:[\w<>[\],.?]+\s+)?([A-Za-z_$][\w$]*)\s*\([^;]*\)\s*(?::\s*[^={;]+)?\s*(?:\{|=>|throws\b.*\{)?\s*$/,
+  // Methods without a modifier must open their body on the same line
+  /^\s*(?:[\w<>[\],.?]+\s+)?([A-Za-z_$][\w$]*)\s*\([^;]*\)\s*(?::\s*[^={;]+)?\s*(?:\{|throws\b.*\{)\s*$/
+];
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'foreach', 'while', 'switch', 'catch', 'return', 'else', 'using', 'lock', 'with', 'elif', 'new', 'await']);
+
+/**
+ * Hash the identifying parts of a finding
+ */
+export function computeFingerprint(parts: FingerprintParts): string {
+  const identity = parts.ruleId ? `rule:${parts.ruleId.toLowerCase()}` : `message:${normalizeMessage(parts.message)}`;
+  const material = [
+    normalizePath(parts.file),
+    identity,
+    parts.symbol ?? '',
+    normalizeCode(parts.snippet)
+  ].join('\n');
+
+  return createHash('sha256').update(material).digest('hex').substring(0, FINGERPRINT_LENGTH);
+}
+
+/**
+ * Fingerprint a finding using the code on its line in the diff, falling back to its own snippet
+ */
+export function fingerprintFinding(finding: ReviewFinding, files: FileDiff[]): string {
+  const file = files.find(candidate => normalizePath(candidate.filePath) === normalizePath(finding.file));
+  const hunk = file?.hunks.find(candidate =>
+    finding.line >= candidate.newLineStart && finding.line < candidate.newLineStart + candidate.newLineCount
+  );
+  const lines = hunk ? newSideLines(hunk) : [];
+  const index = hunk ? lines.findIndex(line => line.line === finding.line) : -1;
+
+  const snippet = index >= 0 && normalizeCode(lines[index]!.text)
+    ? lines[index]!.text
+    : firstCodeLine(finding.codeSnippet);
+  const symbol = (index >= 0 ? findDeclaration(lines.slice(0, index + 1).map(line => line.text).reverse()) : undefined) ??
+    (hunk?.context ? findDeclaration([hunk.context]) : undefined);
+
+  return computeFingerprint({
+    file: finding.file,
+    message: finding.message,
+    ...(finding.ruleId && { ruleId: finding.ruleId }),
+    ...(snippet && { snippet }),
+    ...(symbol && { symbol })
+  });
+}
+
+/**
+ * Parse a comma separated fingerprint list from a thread property
+ */
+export function parseFingerprints(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Name declared by the first line that looks like a declaration
+ */
+export function findDeclaration(lines: string[]): string | undefined {
+  for (const line of lines) {
+    for (const pattern of DECLARATION_PATTERNS) {
+      const name = line.match(pattern)?.[1];
+      if (name && !CONTROL_KEYWORDS.has(name)) {
+        return name;
+      }
+    }
+  }
+  return undefined;
+}
+
+function newSideLines(hunk: DiffHunk): Array<{ line: number; text: string }> {
+  const lines: Array<{ line: number; text: string }> = [];
+  let line = hunk.newLineStart;
+  for (const raw of hunk.content.split('\n')) {
+    if (raw.startsWith('+') || raw.startsWith(' ')) {
+      lines.push({ line, text: raw.substring(1) });
+      line++;
+    }
+  }
+  return lines;
+}
+
+function firstCodeLine(snippet: string | undefined): string | undefined {
+  return snippet
+    ?.split('\n')
+    .map(line => line.replace(/^[+-]/, ''))
+    .find(line => normalizeCode(line).length > 0);
+}
+
+function normalizeCode(code: string | undefined): string {
+  return (code ?? '').replace(/\s+/g, '');
+}
+
+function normalizeMessage(message: string | undefined): string {
+  return (message ?? '').toLowerCase().replace(/[^\w]+/g, ' ').trim();
+}
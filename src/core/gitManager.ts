@@ -10,6 +10,8 @@ export interface CloneOptions {
   sparseCheckout?: string[];
   workingDirectory: string;
   additionalRefs?: string[];
+  /** Authorization header value sent to the remote, e.g. "Bearer <token>" */
+  authorizationHeader?: string;
 }
 
 export interface GitInfo {
@@ -37,7 +39,9 @@ export class GitManager {
   ): Promise<GitInfo> {
     try {
       this.logger.info(`Cloning repository: ${repositoryUrl}`);
-      this.logger.debug(`Clone options: ${JSON.stringify(options)}`);
+      this.logger.debug(`Clone options: ${JSON.stringify(redactCloneOptions(options))}`);
+
+      const authEnv = options.authorizationHeader ? this.createAuthEnv(options.authorizationHeader) : undefined;
 
       // Ensure working directory exists
       if (!fs.existsSync(options.workingDirectory)) {
@@ -70,7 +74,7 @@ export class GitManager {
       if (options.depth) {
         fetchArgs.push('--depth', options.depth.toString());
       }
-      this.executeGitCommand('fetch', fetchArgs.slice(1), options.workingDirectory);
+      this.executeGitCommand('fetch', fetchArgs.slice(1), options.workingDirectory, authEnv);
 
       // Checkout the branch
       // Clean branch name by removing 'refs/heads/' prefix if present
@@ -81,7 +85,7 @@ export class GitManager {
       if (options.additionalRefs && options.additionalRefs.length > 0) {
         for (const ref of options.additionalRefs) {
           try {
-            this.executeGitCommand('fetch', ['origin', ref], options.workingDirectory);
+            this.executeGitCommand('fetch', ['origin', ref], options.workingDirectory, authEnv);
           } catch (e) {
             // Non-fatal: continue; diffs may still work if commit is reachable via other refs
             this.logger.warn(`Failed to fetch additional ref ${ref}: ${(e as Error).message}`);
@@ -109,7 +113,7 @@ export class GitManager {
         {
           operation: 'cloneRepository',
           component: 'GitManager',
-          metadata: { repositoryUrl, options }
+          metadata: { repositoryUrl, options: redactCloneOptions(options) }
         }
       );
     }
@@ -289,9 +293,20 @@ export class GitManager {
   }
 
   /**
-   * Execute git command synchronously
+   * Pass the Authorization header to git through GIT_CONFIG_* variables,
+   * keeping the token out of the command line, the remote URL and .git/config
    */
-  private executeGitCommand(command: string, args: string[], cwd: string): string {
+  private createAuthEnv(authorizationHeader: string): NodeJS.ProcessEnv {
+    const index = Number(process.env['GIT_CONFIG_COUNT']) || 0;
+    return {
+      ...process.env,
+      GIT_CONFIG_COUNT: String(index + 1),
+      [`GIT_CONFIG_KEY_${index}`]: 'http.extraheader',
+      [`GIT_CONFIG_VALUE_${index}`]: `AUTHORIZATION: ${authorizationHeader}`
+    };
+  }
+
+  private executeGitCommand(command: string, args: string[], cwd: string, env?: NodeJS.ProcessEnv): string {
     try {
       const fullCommand = `git ${command} ${args.join(' ')}`;
       this.logger.debug(`Executing: ${fullCommand}`);
@@ -300,7 +315,8 @@ export class GitManager {
         cwd,
         encoding: 'utf8',
         stdio: ['ignore', 'pipe', 'pipe'],
-        maxBuffer: 10 * 1024 * 1024 // 10MB buffer
+        maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+        ...(env && { env })
       });
       
       return result;
@@ -358,3 +374,7 @@ export class GitManager {
     return regex.test(filePath);
   }
 }
+
+function redactCloneOptions(options: CloneOptions): CloneOptions {
+  return options.authorizationHeader ? { ...options, authorizationHeader: '***' } : options;
+}
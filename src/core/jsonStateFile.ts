@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+
+/**
+ * Local JSON file holding state kept between runs, such as reviewed iterations or suppressed findings
+ */
+export class JsonStateFile<T> {
+  public readonly path: string;
+  private logger: Logger;
+  private label: string;
+
+  /**
+   * @param label - Name of the state used in log messages, e.g. 'watch state'
+   */
+  constructor(logger: Logger, filePath: string, label: string) {
+    this.logger = logger;
+    this.path = path.resolve(filePath);
+    this.label = label;
+  }
+
+  /**
+   * Parsed file content; undefined when the file is missing or unreadable, so callers start empty
+   */
+  public read(): Partial<T> | undefined {
+    if (!fs.existsSync(this.path)) {
+      this.logger.debug(`No ${this.label} at ${this.path}, starting fresh`);
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf8')) as Partial<T>;
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable ${this.label} ${this.path}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace the file content; writes a temporary file first so an interrupted write never leaves a truncated file
+   */
+  public write(content: T): void {
+    const tempPath = `${this.path}.tmp`;
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(content, null, 2) + '\n', 'utf8');
+    fs.renameSync(tempPath, this.path);
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * In-process line diff used when git is not available.
+ * Produces unified diff text that DiffFetcher can parse like `git diff` output.
+ */
+
+export interface LineDiffOptions {
+  contextLines?: number;
+  maxEditDistance?: number;
+}
+
+type EditType = ' ' | '-' | '+';
+
+interface Edit {
+  type: EditType;
+  line: string;
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+const DEFAULT_MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Split file content into lines, ignoring the final newline
+ */
+function splitLines(content: string): string[] {
+  if (content.length === 0) {
+    return [];
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * Returns an empty string when both versions are identical
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string,
+  newContent: string,
+  options: LineDiffOptions = {}
+): string {
+  const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+  const edits = diffLines(
+    splitLines(oldContent),
+    splitLines(newContent),
+    options.maxEditDistance ?? DEFAULT_MAX_EDIT_DISTANCE
+  );
+
+  const hunks = buildHunks(edits, contextLines);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const normalizedPath = filePath.startsWith('/') ? filePath.substring(1) : filePath;
+  const header = [
+    `--- ${oldContent.length === 0 ? '/dev/null' : `a/${normalizedPath}`}`,
+    `+++ ${newContent.length === 0 ? '/dev/null' : `b/${normalizedPath}`}`
+  ];
+
+  return [...header, ...hunks].join('\n') + '\n';
+}
+
+/**
+ * Compute line edits between two files.
+ * Common prefix/suffix are trimmed before running Myers' algorithm on the middle part.
+ */
+function diffLines(oldLines: string[], newLines: string[], maxEditDistance = DEFAULT_MAX_EDIT_DISTANCE): Edit[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const middle = myers(oldMiddle, newMiddle, maxEditDistance) ?? [
+    // Too many differences to align cheaply: treat the region as replaced
+    ...oldMiddle.map(line => ({ type: '-' as const, line })),
+    ...newMiddle.map(line => ({ type: '+' as const, line }))
+  ];
+
+  return [
+    ...oldLines.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: ' ' as const, line }))
+  ];
+}
+
+/**
+ * Myers O(ND) shortest edit script. Returns null when the edit distance exceeds the limit.
+ */
+function myers(a: string[], b: string[], maxEditDistance: number): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+
+  if (max === 0) {
+    return [];
+  }
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Window of v saved per step: k in [-d-1, d+1]
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= Math.min(max, maxEditDistance); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+        x = v[offset + k + 1]!;
+      } else {
+        x = v[offset + k - 1]! + 1;
+      }
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+
+    if (found) {
+      break;
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]!;
+    const at = (k: number): number => snapshot[k + d + 1]!;
+    const k = x - y;
+
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: ' ', line: a[x - 1]! });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: '+', line: b[prevY]! });
+      } else {
+        edits.push({ type: '-', line: a[prevX]! });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Group edits into unified diff hunks with surrounding context
+ */
+function buildHunks(edits: Edit[], contextLines: number): string[] {
+  const changeIndexes: number[] = [];
+  edits.forEach((edit, index) => {
+    if (edit.type !== ' ') {
+      changeIndexes.push(index);
+    }
+  });
+
+  if (changeIndexes.length === 0) {
+    return [];
+  }
+
+  // Merge changes whose context windows touch into the same hunk
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(edits.length, index + contextLines + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  const output: string[] = [];
+  let editIndex = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const range of ranges) {
+    // Advance line counters to the start of the hunk
+    for (; editIndex < range.start; editIndex++) {
+      const type = edits[editIndex]!.type;
+      if (type !== '+') oldLine++;
+      if (type !== '-') newLine++;
+    }
+
+    const body: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (let i = range.start; i < range.end; i++) {
+      const edit = edits[i]!;
+      body.push(`${edit.type}${edit.line}`);
+      if (edit.type !== '+') oldCount++;
+      if (edit.type !== '-') newCount++;
+    }
+
+    const oldStart = oldCount > 0 ? oldLine + 1 : oldLine;
+    const newStart = newCount > 0 ? newLine + 1 : newLine;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+
+    oldLine += oldCount;
+    newLine += newCount;
+    editIndex = range.end;
+  }
+
+  return output;
+}
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { BaseLLMAdapter, LLMRequest, LLMResponse } from './baseLLMAdapter';
+import { toTokenUsage } from './responseUtils';
+
+// Messages API requires an explicit output limit; keep it within what current models accept
+const MAX_OUTPUT_TOKENS = 8192;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicAdapter extends BaseLLMAdapter {
+  protected readonly providerId = 'anthropic';
+  protected readonly providerName = 'Anthropic';
+  private baseUrl: string;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, defaultTimeout: number = 120000, baseUrl = 'https://api.anthropic.com/v1') {
+    super(logger, errorHandler, defaultTimeout);
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  protected override validateConfiguration(): void {
+    if (!process.env['ANTHROPIC_API_KEY']) {
+      throw this.errorHandler.createUserError('Missing ANTHROPIC_API_KEY environment variable for Anthropic provider');
+    }
+  }
+
+  /**
+   * 529 means the API is temporarily overloaded; back off like a rate limit
+   */
+  protected override isRateLimitStatus(status: number | undefined): boolean {
+    return status === 429 || status === 529;
+  }
+
+  protected async sendRequest(request: LLMRequest): Promise<LLMResponse> {
+    const { config } = request;
+    const response = await axios.post(`${this.baseUrl}/messages`, {
+      model: config.model,
+      system: request.systemPrompt,
+      messages: [
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: config.temperature ?? 0.1,
+      // The API rejects fractional budgets, which batch planning produces
+      max_tokens: Math.max(1, Math.floor(Math.min(config.maxTokens ?? MAX_OUTPUT_TOKENS, MAX_OUTPUT_TOKENS)))
+    }, {
+      headers: {
+        'x-api-key': process.env['ANTHROPIC_API_KEY'],
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json'
+      },
+      timeout: request.timeout
+    });
+
+    // Response content is a list of blocks; only text blocks carry the review
+    const blocks = (response.data?.content || []) as Array<{ type: string; text?: string }>;
+    return {
+      content: blocks
+        .filter(block => block.type === 'text' && block.text)
+        .map(block => block.text)
+        .join(''),
+      raw: response.data,
+      truncated: response.data?.stop_reason === 'max_tokens',
+      usage: toTokenUsage(response.data?.usage?.input_tokens, response.data?.usage?.output_tokens)
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { AzureCliToken, getAzureCliToken } from '../auth/azureCli';
+import { BaseLLMAdapter, LLMRequest, LLMResponse } from './baseLLMAdapter';
+import { toTokenUsage } from './responseUtils';
+import { REVIEW_RESULT_JSON_SCHEMA } from './findingSchema';
+
+// Entra ID resource for Azure OpenAI / Cognitive Services tokens
+const COGNITIVE_SERVICES_RESOURCE = 'https://cognitiveservices.azure.com';
+
+export type AzureOpenAIAuthMode = 'auto' | 'api-key' | 'entra';
+
+export interface AzureOpenAIOptions {
+  endpoint?: string;
+  resource?: string;
+  apiVersion?: string;
+  authMode?: AzureOpenAIAuthMode;
+}
+
+export class AzureOpenAIAdapter extends BaseLLMAdapter {
+  protected readonly providerId = 'azure-openai';
+  protected readonly providerName = 'Azure OpenAI';
+  private endpoint: string;
+  private apiVersion: string;
+  private authMode: AzureOpenAIAuthMode;
+  private cachedToken?: AzureCliToken;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, defaultTimeout: number = 120000, options: AzureOpenAIOptions = {}) {
+    super(logger, errorHandler, defaultTimeout);
+    this.structuredOutput = true;
+    const resource = options.resource || process.env['AZURE_OPENAI_RESOURCE'];
+    const endpoint = options.endpoint || process.env['AZURE_OPENAI_ENDPOINT'] || (resource ? `https://${resource}.openai.azure.com` : '');
+    this.endpoint = endpoint.replace(/\/$/, '');
+    this.apiVersion = options.apiVersion || process.env['AZURE_OPENAI_API_VERSION'] || '2024-10-21';
+    this.authMode = options.authMode || 'auto';
+  }
+
+  protected override validateConfiguration(): void {
+    if (!this.endpoint) {
+      throw this.errorHandler.createUserError('Missing Azure OpenAI endpoint. Set AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_RESOURCE or azureOpenai.endpoint in configuration');
+    }
+  }
+
+  /**
+   * Send a chat completions request to a deployment. config.model is the deployment name.
+   */
+  protected async sendRequest(request: LLMRequest): Promise<LLMResponse> {
+    const { config } = request;
+    const url = `${this.endpoint}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions`;
+
+    const response = await axios.post(url, {
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: config.temperature ?? 0.1,
+      max_tokens: config.maxTokens ?? undefined,
+      ...(request.structuredOutput && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'review_result', strict: true, schema: REVIEW_RESULT_JSON_SCHEMA }
+        }
+      })
+    }, {
+      params: {
+        'api-version': this.apiVersion
+      },
+      headers: {
+        ...(await this.getAuthHeaders()),
+        'Content-Type': 'application/json'
+      },
+      timeout: request.timeout
+    });
+
+    const choice = response.data?.choices?.[0];
+    const usage = response.data?.usage;
+    return {
+      content: choice?.message?.content || '',
+      raw: response.data,
+      truncated: choice?.finish_reason === 'length',
+      usage: toTokenUsage(usage?.prompt_tokens, usage?.completion_tokens, usage?.total_tokens)
+    };
+  }
+
+  /**
+   * Resolve authentication headers: api-key when available, otherwise an Entra ID bearer token
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const apiKey = process.env['AZURE_OPENAI_API_KEY'];
+
+    if (this.authMode === 'api-key' || (this.authMode === 'auto' && apiKey)) {
+      if (!apiKey) {
+        throw this.errorHandler.createUserError('Missing AZURE_OPENAI_API_KEY environment variable for Azure OpenAI api-key authentication');
+      }
+      return { 'api-key': apiKey };
+    }
+
+    return { 'Authorization': `Bearer ${await this.getEntraToken()}` };
+  }
+
+  /**
+   * Get an Entra ID access token from AZURE_OPENAI_AD_TOKEN or the Azure CLI
+   */
+  private async getEntraToken(): Promise<string> {
+    const envToken = process.env['AZURE_OPENAI_AD_TOKEN'];
+    if (envToken) {
+      return envToken;
+    }
+
+    // Reuse cached token until five minutes before expiry
+    if (this.cachedToken && this.cachedToken.expiresAt - 5 * 60 * 1000 > Date.now()) {
+      return this.cachedToken.token;
+    }
+
+    try {
+      this.logger.debug('Requesting Entra ID token for Azure OpenAI via Azure CLI');
+      this.cachedToken = await getAzureCliToken(COGNITIVE_SERVICES_RESOURCE);
+      return this.cachedToken.token;
+    } catch (error) {
+      throw this.errorHandler.createUserError(
+        'Unable to get an Entra ID token for Azure OpenAI. Set AZURE_OPENAI_API_KEY or AZURE_OPENAI_AD_TOKEN, or sign in with "az login"',
+        {
+          operation: 'getEntraToken',
+          component: 'AzureOpenAIAdapter',
+          metadata: { error: (error as Error).message }
+        }
+      );
+    }
+  }
+}
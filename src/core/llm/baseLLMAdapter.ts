@@ -0,0 +1,325 @@
+import { AxiosError } from 'axios';
+import { Logger } from '../logger';
+import { ErrorHandler, UserError } from '../errorHandler';
+import { ReviewContext } from '../contextBuilder';
+import { LLMAdapter, LLMConfig, ReviewResult, TokenUsage } from './types';
+import { addTokenUsage, extractJson, parseRetryAfter } from './responseUtils';
+import { REVIEW_RESULT_JSON_SCHEMA, validateReviewResult } from './findingSchema';
+
+const SYSTEM_PROMPT = 'You are an expert code reviewer. Respond ONLY with JSON as instructed.';
+const TEXT_SYSTEM_PROMPT = 'You are an expert code reviewer answering questions about your review comments. Respond in concise Markdown.';
+
+// Upper bound for a server-provided Retry-After so a bad header cannot stall the run
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Matches provider errors caused by an unsupported structured output request
+const STRUCTURED_OUTPUT_ERROR = /response_format|json_schema|response_?schema|response_?mime_?type/i;
+
+// Client errors that will not succeed on retry
+const NON_RETRYABLE_STATUSES = [400, 401, 403, 404];
+
+/**
+ * Request handed to a provider's transport
+ */
+export interface LLMRequest {
+  systemPrompt: string;
+  prompt: string;
+  config: LLMConfig;
+  timeout: number;
+  /** Request provider-native structured output; false once the provider rejected it */
+  structuredOutput: boolean;
+}
+
+/**
+ * Raw text returned by a provider's transport
+ */
+export interface LLMResponse {
+  content: string;
+  raw: unknown;
+  truncated?: boolean;
+  /** Token counters reported by the provider */
+  usage?: TokenUsage | undefined;
+}
+
+/**
+ * Base class for LLM adapters.
+ * Owns retries, backoff, timeouts, prompt construction and response parsing;
+ * providers only implement the transport call in sendRequest().
+ */
+export abstract class BaseLLMAdapter implements LLMAdapter {
+  protected logger: Logger;
+  protected errorHandler: ErrorHandler;
+  protected defaultTimeout: number;
+  /** Whether the provider should be asked for schema-constrained output */
+  protected structuredOutput = false;
+
+  /** Identifier used for debug prompt/response logs, e.g. 'openai' */
+  protected abstract readonly providerId: string;
+  /** Human readable provider name used in messages, e.g. 'OpenAI' */
+  protected abstract readonly providerName: string;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, defaultTimeout: number = 120000) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+    this.defaultTimeout = defaultTimeout;
+  }
+
+  /**
+   * Send a single completion request and return the model's text
+   */
+  protected abstract sendRequest(request: LLMRequest): Promise<LLMResponse>;
+
+  /**
+   * Validate credentials and other prerequisites before any request is made
+   */
+  protected validateConfiguration(): void {}
+
+  /**
+   * Hook executed once per review before the retry loop
+   */
+  protected async prepare(_config: LLMConfig): Promise<void> {}
+
+  /**
+   * Whether an HTTP status should be treated as a rate limit for backoff purposes
+   */
+  protected isRateLimitStatus(status: number | undefined): boolean {
+    return status === 429;
+  }
+
+  public async reviewCode(context: ReviewContext, config: LLMConfig): Promise<ReviewResult> {
+    this.validateConfiguration();
+    await this.prepare(config);
+
+    const prompt = this.buildReviewPrompt(context);
+
+    return this.withRetries(config, async timeout => {
+      const response = await this.complete(prompt, config, timeout);
+      try {
+        return this.withUsage(this.parseReviewResponse(response.content), response.usage);
+      } catch (parseError) {
+        // Ask the model once to fix its own output before spending a full retry
+        this.logger.warn(`${this.providerName} returned malformed review output, requesting repair: ${(parseError as Error).message}`);
+        const repaired = await this.complete(this.buildRepairPrompt(response.content, parseError as Error), config, timeout);
+        return this.withUsage(this.parseReviewResponse(repaired.content), addTokenUsage(response.usage, repaired.usage));
+      }
+    });
+  }
+
+  public async generateText(prompt: string, config: LLMConfig): Promise<string> {
+    this.validateConfiguration();
+    await this.prepare(config);
+
+    return this.withRetries(config, async timeout => {
+      const response = await this.complete(prompt, config, timeout, TEXT_SYSTEM_PROMPT, false);
+      return response.content.trim();
+    });
+  }
+
+  /**
+   * Run one request attempt at a time with backoff until it succeeds or retries are exhausted
+   */
+  private async withRetries<T>(config: LLMConfig, attemptRequest: (timeout: number) => Promise<T>): Promise<T> {
+    const maxRetries = config.retryAttempts ?? 3;
+    const baseDelay = config.retryDelay ?? 1000;
+    const timeout = config.timeout ?? this.defaultTimeout;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        return await attemptRequest(timeout);
+      } catch (err) {
+        if (err instanceof UserError) {
+          throw err;
+        }
+
+        const error = err as AxiosError<any>;
+        const status = error.response?.status;
+        const message = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+        const isRateLimit = this.isRateLimitStatus(status);
+
+        this.logger.warn(`${this.providerName} request failed (attempt ${attempt}/${maxRetries}): ${status || ''} ${message}`);
+        if (attempt === maxRetries || (status !== undefined && NON_RETRYABLE_STATUSES.includes(status))) {
+          throw this.errorHandler.createAPIError(
+            `${this.providerName} request failed${isRateLimit ? ' (rate limit)' : ''}`,
+            status,
+            error.response?.data,
+            { metadata: { message } },
+            isRateLimit || (status !== undefined && status >= 500)
+          );
+        }
+
+        const retryAfter = parseRetryAfter(error.response?.headers);
+        const delay = retryAfter !== undefined
+          ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+          : this.calculateBackoffDelay(attempt, baseDelay, isRateLimit, config.maxBackoffDelay);
+        if (retryAfter !== undefined) {
+          this.logger.debug(`Honoring Retry-After from ${this.providerName}: waiting ${delay}ms`);
+        }
+        await this.sleep(delay);
+      }
+    }
+
+    // Should not reach here
+    throw this.errorHandler.createInternalError(`${this.providerName} retry loop exhausted unexpectedly`);
+  }
+
+  /**
+   * Send a prompt and return the provider response, dropping structured output if the provider rejects it
+   */
+  private async complete(
+    prompt: string,
+    config: LLMConfig,
+    timeout: number,
+    systemPrompt: string = SYSTEM_PROMPT,
+    structuredOutput: boolean = this.structuredOutput
+  ): Promise<LLMResponse> {
+    let response: LLMResponse;
+    try {
+      response = await this.sendRequest({ systemPrompt, prompt, config, timeout, structuredOutput });
+    } catch (err) {
+      const error = err as AxiosError<any>;
+      const message = error.response?.data ? JSON.stringify(error.response.data) : error.message;
+      if (!structuredOutput || error.response?.status !== 400 || !STRUCTURED_OUTPUT_ERROR.test(message)) {
+        throw err;
+      }
+
+      this.logger.warn(`${this.providerName} rejected structured output for model ${config.model}, retrying with a plain JSON prompt`);
+      this.structuredOutput = false;
+      response = await this.sendRequest({ systemPrompt, prompt, config, timeout, structuredOutput: false });
+    }
+
+    if (!response.content) {
+      throw new Error(`Empty response content from ${this.providerName}`);
+    }
+
+    // Log raw response for debugging
+    this.logger.logGeminiResponse(this.providerId, JSON.stringify(response.raw));
+
+    if (response.truncated) {
+      this.logger.warn(`${this.providerName} response was truncated at the output token limit; findings may be incomplete`);
+    }
+
+    return response;
+  }
+
+  private withUsage(result: ReviewResult, usage: TokenUsage | undefined): ReviewResult {
+    return usage ? { ...result, usage } : result;
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  protected calculateBackoffDelay(attempt: number, baseDelay: number, rateLimited: boolean, maxBackoffDelay?: number): number {
+    const multiplier = rateLimited ? 2 : 1.5;
+    const maxDelay = maxBackoffDelay ?? (rateLimited ? 60000 : 30000);
+    let delay = baseDelay * Math.pow(multiplier, attempt - 1);
+    delay = Math.min(delay, maxDelay);
+    const jitter = delay * 0.25 * (Math.random() - 0.5);
+    return Math.max(baseDelay, Math.floor(delay + jitter));
+  }
+
+  /**
+   * Build the review prompt from the review context
+   */
+  protected buildReviewPrompt(context: ReviewContext): string {
+    const sections: string[] = [];
+
+    sections.push('You are an expert code reviewer. Please review the following code changes according to the provided guidelines and rules.');
+    sections.push('');
+
+    if (context.projectGuidelines.trim()) {
+      sections.push('## Project Guidelines');
+      sections.push(context.projectGuidelines);
+      sections.push('');
+    }
+
+    if (context.reviewRules.trim()) {
+      sections.push('## Review Rules');
+      sections.push(context.reviewRules);
+      sections.push('');
+    }
+
+    sections.push('## Code Changes to Review');
+    sections.push(context.diffs);
+    sections.push('');
+
+    sections.push('## Instructions');
+    sections.push('Please review the code changes and provide feedback in the following JSON format:');
+    sections.push('');
+    sections.push('```json');
+    sections.push('{');
+    sections.push('  "findings": [');
+    sections.push('    {');
+    sections.push('      "file": "path/to/file",');
+    sections.push('      "line": 123,');
+    sections.push('      "endLine": 125,');
+    sections.push('      "severity": "warning",');
+    sections.push('      "message": "Issue description",');
+    sections.push('      "suggestion": "Suggested fix",');
+    sections.push('      "replacement": "exact new code for lines line..endLine",');
+    sections.push('      "ruleId": "rule-id",');
+    sections.push('      "category": "category-name",');
+    sections.push('      "codeSnippet": "exact code of the line, copied from the diff"');
+    sections.push('    }');
+    sections.push('  ],');
+    sections.push('  "summary": "Overall review summary"');
+    sections.push('}');
+    sections.push('```');
+    sections.push('');
+    sections.push('Only return the raw JSON. Do not include any additional text.');
+    sections.push('"severity" must be one of "error", "warning" or "info"; "line" and "endLine" must be integers.');
+    sections.push('"line" must be a line number in the new version of the file, inside a changed hunk (a "+" or context line).');
+    sections.push('Be specific about line numbers and provide actionable suggestions.');
+    sections.push('When the fix is a direct edit of the referenced lines, set "replacement" to the exact code that replaces lines "line" through "endLine" (or only "line"), with the original indentation and without diff markers. Omit it otherwise.');
+
+    const prompt = sections.join('\n');
+    this.logger.logPrompt(this.providerId, prompt);
+    return prompt;
+  }
+
+  /**
+   * Build a follow-up prompt asking the model to correct malformed output
+   */
+  protected buildRepairPrompt(previousOutput: string, error: Error): string {
+    return [
+      'Your previous code review response could not be processed.',
+      `Problem: ${error.message}`,
+      '',
+      'Rewrite it as a single JSON object that matches this JSON Schema. Keep the same findings and do not add new ones.',
+      '',
+      '```json',
+      JSON.stringify(REVIEW_RESULT_JSON_SCHEMA, null, 2),
+      '```',
+      '',
+      '## Previous Response',
+      previousOutput,
+      '',
+      'Only return the raw JSON. Do not include any additional text.'
+    ].join('\n');
+  }
+
+  /**
+   * Parse the model output into a review result
+   */
+  protected parseReviewResponse(content: string): ReviewResult {
+    const parsed = extractJson(content);
+    if (parsed === undefined) {
+      throw this.errorHandler.createAPIError(`${this.providerName} returned non-JSON response`, undefined, undefined, {
+        metadata: { preview: content.trim().slice(0, 200) }
+      });
+    }
+
+    const { result, errors } = validateReviewResult(parsed);
+    if (!result) {
+      throw this.errorHandler.createInternalError(`Failed to parse ${this.providerName} response JSON: ${errors.join('; ')}`, {
+        metadata: { errors }
+      });
+    }
+
+    for (const error of errors) {
+      this.logger.warn(`${this.providerName} review output: ${error}`);
+    }
+
+    return result;
+  }
+}
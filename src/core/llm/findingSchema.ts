@@ -0,0 +1,210 @@
+import { ReviewFinding, ReviewResult, Severity } from './types';
+
+/**
+ * Formal schema for review output, shared by prompt construction,
+ * provider-native structured output and response validation.
+ */
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+// Severity names models commonly use instead of ours
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  critical: 'error',
+  blocker: 'error',
+  high: 'error',
+  major: 'error',
+  warn: 'warning',
+  medium: 'warning',
+  moderate: 'warning',
+  minor: 'info',
+  low: 'info',
+  note: 'info',
+  suggestion: 'info',
+  nit: 'info'
+};
+
+interface FieldSpec {
+  name: keyof ReviewFinding;
+  type: 'string' | 'integer';
+  required: boolean;
+  description: string;
+  enum?: string[];
+}
+
+const FINDING_FIELDS: FieldSpec[] = [
+  { name: 'file', type: 'string', required: true, description: 'Path of the changed file' },
+  { name: 'line', type: 'integer', required: true, description: 'Line number in the new version of the file' },
+  { name: 'endLine', type: 'integer', required: false, description: 'Last line of a multi-line finding' },
+  { name: 'severity', type: 'string', required: true, description: 'Finding severity', enum: SEVERITIES },
+  { name: 'message', type: 'string', required: true, description: 'Issue description' },
+  { name: 'suggestion', type: 'string', required: false, description: 'Suggested fix' },
+  { name: 'replacement', type: 'string', required: false, description: 'Exact code replacing lines line..endLine, without diff markers' },
+  { name: 'ruleId', type: 'string', required: false, description: 'Identifier of the violated rule' },
+  { name: 'category', type: 'string', required: false, description: 'Finding category' },
+  { name: 'codeSnippet', type: 'string', required: false, description: 'Exact code of the referenced line, copied from the diff' }
+];
+
+/**
+ * JSON Schema for OpenAI-style `json_schema` structured output.
+ * Strict mode requires every property to be listed as required, so optional fields are nullable.
+ */
+export const REVIEW_RESULT_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['findings', 'summary'],
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: FINDING_FIELDS.map(field => field.name),
+        properties: Object.fromEntries(FINDING_FIELDS.map(field => [field.name, {
+          type: field.required ? field.type : [field.type, 'null'],
+          description: field.description,
+          ...(field.enum && { enum: field.enum })
+        }]))
+      }
+    },
+    summary: { type: 'string', description: 'Overall review summary' }
+  }
+};
+
+/**
+ * OpenAPI-subset schema for Gemini `responseSchema`
+ */
+export const REVIEW_RESULT_GEMINI_SCHEMA = {
+  type: 'OBJECT',
+  required: ['findings', 'summary'],
+  properties: {
+    findings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        required: FINDING_FIELDS.filter(field => field.required).map(field => field.name),
+        properties: Object.fromEntries(FINDING_FIELDS.map(field => [field.name, {
+          type: field.type.toUpperCase(),
+          description: field.description,
+          ...(!field.required && { nullable: true }),
+          ...(field.enum && { enum: field.enum })
+        }]))
+      }
+    },
+    summary: { type: 'STRING', description: 'Overall review summary' }
+  }
+};
+
+export interface ReviewResultValidation {
+  /** Validated result, or null when the response structure is unusable */
+  result: ReviewResult | null;
+  /** Structural errors and reasons for dropped or coerced findings */
+  errors: string[];
+}
+
+/**
+ * Validate and coerce a parsed model response into a ReviewResult.
+ * Invalid findings are dropped individually; only a missing findings array fails the whole result.
+ */
+export function validateReviewResult(value: unknown): ReviewResultValidation {
+  const root = Array.isArray(value) ? { findings: value } : value;
+  if (!root || typeof root !== 'object') {
+    return { result: null, errors: ['Response is not a JSON object'] };
+  }
+
+  const { findings, summary } = root as { findings?: unknown; summary?: unknown };
+  if (!Array.isArray(findings)) {
+    return { result: null, errors: ['Invalid response structure: missing findings array'] };
+  }
+
+  const errors: string[] = [];
+  const validFindings: ReviewFinding[] = [];
+
+  findings.forEach((raw, index) => {
+    const finding = validateFinding(raw, `findings[${index}]`, errors);
+    if (finding) {
+      validFindings.push(finding);
+    }
+  });
+
+  return {
+    result: {
+      findings: validFindings,
+      summary: typeof summary === 'string' && summary.trim() ? summary : 'No summary provided'
+    },
+    errors
+  };
+}
+
+/**
+ * Validate a single finding, recording problems in errors
+ */
+function validateFinding(raw: unknown, label: string, errors: string[]): ReviewFinding | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${label}: not an object`);
+    return null;
+  }
+
+  const item = raw as Record<string, unknown>;
+
+  const file = typeof item['file'] === 'string' ? item['file'].trim() : '';
+  if (!file) {
+    errors.push(`${label}: missing file`);
+    return null;
+  }
+
+  const message = typeof item['message'] === 'string' ? item['message'].trim() : '';
+  if (!message) {
+    errors.push(`${label}: missing message`);
+    return null;
+  }
+
+  const line = toLineNumber(item['line']);
+  if (line === undefined) {
+    errors.push(`${label}: invalid line ${JSON.stringify(item['line'])}`);
+    return null;
+  }
+
+  const severity = toSeverity(item['severity']);
+  if (!severity) {
+    errors.push(`${label}: unknown severity ${JSON.stringify(item['severity'])}, using "warning"`);
+  }
+
+  const finding: ReviewFinding = { file, line, severity: severity ?? 'warning', message };
+
+  const endLine = toLineNumber(item['endLine']);
+  if (endLine !== undefined && endLine > line) {
+    finding.endLine = endLine;
+  }
+
+  for (const key of ['suggestion', 'replacement', 'ruleId', 'category', 'codeSnippet'] as const) {
+    const text = toOptionalString(item[key]);
+    if (text !== undefined) {
+      finding[key] = text;
+    }
+  }
+
+  return finding;
+}
+
+function toLineNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 1) {
+    return undefined;
+  }
+  return Math.floor(number);
+}
+
+function toSeverity(value: unknown): Severity | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  return SEVERITIES.includes(normalized as Severity) ? normalized as Severity : SEVERITY_ALIASES[normalized];
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
@@ -0,0 +1,108 @@
+import axios, { AxiosError } from 'axios';
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { LLMConfig } from './types';
+import { BaseLLMAdapter, LLMRequest, LLMResponse } from './baseLLMAdapter';
+import { toTokenUsage } from './responseUtils';
+
+/**
+ * Adapter for self-hosted servers exposing the OpenAI chat completions API
+ * (Ollama, vLLM, llama.cpp server, LM Studio, ...)
+ */
+export class OpenAICompatibleAdapter extends BaseLLMAdapter {
+  protected readonly providerId = 'openai-compatible';
+  protected readonly providerName = 'OpenAI-compatible server';
+  private baseUrl: string;
+  private modelsProbed = false;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, defaultTimeout: number = 300000, baseUrl?: string, jsonMode: boolean = true) {
+    super(logger, errorHandler, defaultTimeout);
+    this.baseUrl = (baseUrl || process.env['OPENAI_COMPATIBLE_BASE_URL'] || 'http://localhost:11434/v1').replace(/\/$/, '');
+    this.structuredOutput = jsonMode;
+  }
+
+  protected override async prepare(config: LLMConfig): Promise<void> {
+    await this.probeModel(config.model);
+  }
+
+  protected async sendRequest(request: LLMRequest): Promise<LLMResponse> {
+    const { config } = request;
+    const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+      model: config.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt }
+      ],
+      temperature: config.temperature ?? 0.1,
+      max_tokens: config.maxTokens ?? undefined,
+      // Servers that ignore response_format still get the JSON instructions in the prompt
+      ...(request.structuredOutput && { response_format: { type: 'json_object' } })
+    }, {
+      headers: this.getHeaders(),
+      timeout: request.timeout
+    });
+
+    const choice = response.data?.choices?.[0];
+    const usage = response.data?.usage;
+    return {
+      content: choice?.message?.content || '',
+      raw: response.data,
+      truncated: choice?.finish_reason === 'length',
+      usage: toTokenUsage(usage?.prompt_tokens, usage?.completion_tokens, usage?.total_tokens)
+    };
+  }
+
+  /**
+   * List models served by the endpoint via GET /models
+   */
+  public async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(),
+        timeout: 10000
+      });
+      const models = (response.data?.data ?? response.data?.models ?? []) as Array<{ id?: string; name?: string }>;
+      return models
+        .map(model => model.id || model.name)
+        .filter((id): id is string => typeof id === 'string');
+    } catch (err) {
+      const error = err as AxiosError<any>;
+      throw this.errorHandler.createAPIError(
+        `Failed to list models from ${this.baseUrl}`,
+        error.response?.status,
+        error.response?.data,
+        { operation: 'getAvailableModels', component: 'OpenAICompatibleAdapter', metadata: { message: error.message } }
+      );
+    }
+  }
+
+  /**
+   * Check once that the server is reachable and serves the requested model
+   */
+  private async probeModel(model: string): Promise<void> {
+    if (this.modelsProbed) {
+      return;
+    }
+    this.modelsProbed = true;
+
+    try {
+      const models = await this.getAvailableModels();
+      this.logger.debug(`OpenAI-compatible server at ${this.baseUrl} serves ${models.length} model(s)`);
+      if (models.length > 0 && !models.includes(model)) {
+        this.logger.warn(`Model "${model}" is not listed by ${this.baseUrl}. Available models: ${models.join(', ')}`);
+      }
+    } catch (error) {
+      // Some servers do not implement /models; the completion request will surface real failures
+      this.logger.debug(`Model probing skipped: ${(error as Error).message}`);
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = process.env['OPENAI_COMPATIBLE_API_KEY'];
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+}
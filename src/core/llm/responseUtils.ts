@@ -0,0 +1,148 @@
+import { TokenUsage } from './types';
+
+/**
+ * Helpers for interpreting raw LLM provider responses
+ */
+
+/**
+ * Extract the first JSON value from model output.
+ * Handles reasoning blocks, markdown fences and prose around the JSON.
+ */
+export function extractJson(content: string): unknown {
+  const text = content.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+
+  const candidates: string[] = [text];
+  const fenceRegex = /```(?:json)?\s*\n([\s\S]*?)```/g;
+  let fence: RegExpExecArray | null;
+  while ((fence = fenceRegex.exec(text)) !== null) {
+    candidates.push(fence[1]!.trim());
+  }
+
+  for (const candidate of candidates) {
+    const value = tryParseObject(candidate);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+
+  // Fall back to the first balanced object embedded in prose
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    const end = findClosingBracket(text, start);
+    if (end !== -1) {
+      const value = tryParseObject(text.slice(start, end + 1));
+      if (value !== undefined) {
+        return value;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function tryParseObject(candidate: string): unknown {
+  try {
+    const value = JSON.parse(candidate);
+    return typeof value === 'object' && value !== null ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the bracket closing the one at start, skipping over string literals
+ */
+function findClosingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) and retry-after-ms headers into milliseconds
+ */
+export function parseRetryAfter(headers: unknown, now: number = Date.now()): number | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  const values = headers as Record<string, unknown>;
+  const retryAfterMs = Number(values['retry-after-ms']);
+  if (values['retry-after-ms'] !== undefined && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return Math.ceil(retryAfterMs);
+  }
+
+  const retryAfter = values['retry-after'];
+  if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+  }
+
+  const date = Date.parse(String(retryAfter));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Build token usage from provider counters, or undefined when the provider reported none
+ */
+export function toTokenUsage(promptTokens: unknown, completionTokens: unknown, totalTokens?: unknown): TokenUsage | undefined {
+  const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  const prompt = count(promptTokens);
+  const completion = count(completionTokens);
+  if (prompt === undefined && completion === undefined) {
+    return undefined;
+  }
+  return {
+    promptTokens: prompt ?? 0,
+    completionTokens: completion ?? 0,
+    totalTokens: count(totalTokens) ?? (prompt ?? 0) + (completion ?? 0)
+  };
+}
+
+/**
+ * Add two usage records, treating a missing one as zero
+ */
+export function addTokenUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
@@ -2,6 +2,10 @@ import { ReviewContext } from '../contextBuilder';
 
 export type Severity = 'error' | 'warning' | 'info';
 
+export type LLMProvider = 'gemini-api' | 'openai' | 'openrouter' | 'anthropic' | 'azure-openai' | 'openai-compatible';
+
+export const LLM_PROVIDERS: LLMProvider[] = ['gemini-api', 'openai', 'openrouter', 'anthropic', 'azure-openai', 'openai-compatible'];
+
 export interface ReviewFinding {
   file: string;
   line: number;
@@ -9,13 +13,30 @@ export interface ReviewFinding {
   severity: Severity;
   message: string;
   suggestion?: string;
+  /** Exact code replacing lines line..endLine; offered as a one-click suggestion when it applies cleanly */
+  replacement?: string;
   ruleId?: string;
   category?: string;
+  codeSnippet?: string;
+  /** Stable identity across runs, assigned after anchoring (see fingerprint.ts) */
+  fingerprint?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface ReviewResult {
   findings: ReviewFinding[];
+  /** Findings that could not be placed on a diff line; reported in the summary comment */
+  unanchoredFindings?: ReviewFinding[];
+  /** Findings left out because reviewers dismissed them in earlier threads */
+  suppressedCount?: number;
   summary?: string;
+  /** Tokens consumed by the review, when the provider reports them */
+  usage?: TokenUsage;
   metadata?: {
     reviewedFiles: number;
     reviewedLines: number;
@@ -39,6 +60,8 @@ export interface LLMConfig {
 
 export interface LLMAdapter {
   reviewCode(context: ReviewContext, config: LLMConfig): Promise<ReviewResult>;
+  /** Free-form Markdown answer, used to reply to developers in review threads */
+  generateText(prompt: string, config: LLMConfig): Promise<string>;
   getAvailableModels?(): Promise<string[]>;
   getSummary?(): string;
 }
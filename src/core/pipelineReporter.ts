@@ -0,0 +1,119 @@
+import { Logger } from './logger';
+import { ReviewFinding } from './llm/types';
+
+/**
+ * Azure Pipelines logging commands (##vso[...]) for findings and progress.
+ * Annotations appear in the build summary independently of PR comments and status.
+ */
+
+export type TaskResult = 'Succeeded' | 'SucceededWithIssues' | 'Failed';
+
+/**
+ * Whether the process runs inside an Azure Pipelines job
+ */
+export function isAzurePipelines(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env['TF_BUILD']);
+}
+
+/**
+ * Format a finding as a task.logissue command; info findings are reported as warnings
+ */
+export function formatLogIssue(finding: ReviewFinding): string {
+  const properties: Record<string, string | number | undefined> = {
+    type: finding.severity === 'error' ? 'error' : 'warning',
+    sourcepath: finding.file.replace(/\\/g, '/').replace(/^\/+/, ''),
+    linenumber: finding.line,
+    columnnumber: 1,
+    code: finding.ruleId
+  };
+  const message = finding.severity === 'info' ? `[info] ${finding.message}` : finding.message;
+  return formatCommand('task.logissue', properties, message);
+}
+
+/**
+ * Format a task.setprogress command; value is clamped to 0-100
+ */
+export function formatSetProgress(value: number, text: string): string {
+  return formatCommand('task.setprogress', { value: Math.max(0, Math.min(100, Math.round(value))) }, text);
+}
+
+/**
+ * Format a task.complete command
+ */
+export function formatTaskComplete(result: TaskResult, message: string): string {
+  return formatCommand('task.complete', { result }, message);
+}
+
+function formatCommand(command: string, properties: Record<string, string | number | undefined>, message: string): string {
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(';');
+  return `##vso[${command} ${props};]${escapeMessage(message)}`;
+}
+
+function escapeMessage(value: string): string {
+  return value
+    .replace(/%/g, '%AZP25')
+    .replace(/\r/g, '%0D')
+    .replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeMessage(value)
+    .replace(/;/g, '%3B')
+    .replace(/]/g, '%5D');
+}
+
+export class PipelineReporter {
+  private logger: Logger;
+  private enabled: boolean;
+
+  constructor(logger: Logger, env: NodeJS.ProcessEnv = process.env) {
+    this.logger = logger;
+    this.enabled = isAzurePipelines(env);
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Annotate the build with one issue per finding
+   */
+  public reportFindings(findings: ReviewFinding[]): void {
+    if (!this.enabled || findings.length === 0) {
+      return;
+    }
+
+    this.logger.debug(`Publishing ${findings.length} finding(s) as pipeline annotations`);
+    for (const finding of findings) {
+      this.emit(formatLogIssue(finding));
+    }
+  }
+
+  /**
+   * Report batch progress on the pipeline step
+   */
+  public setProgress(completed: number, total: number, text: string): void {
+    if (!this.enabled || total <= 0) {
+      return;
+    }
+    this.emit(formatSetProgress((completed / total) * 100, text));
+  }
+
+  /**
+   * Mark the step as succeeded with issues when findings reached the severity threshold
+   */
+  public complete(findings: ReviewFinding[]): void {
+    if (!this.enabled || findings.length === 0) {
+      return;
+    }
+    this.emit(formatTaskComplete('SucceededWithIssues', `ado-review reported ${findings.length} finding(s)`));
+  }
+
+  private emit(command: string): void {
+    // Logging commands are read from the step output
+    console.log(command);
+  }
+}
@@ -0,0 +1,260 @@
+import { ReviewFinding } from '../llm/types';
+import { FileDiff, DiffHunk } from '../diffFetcher';
+import { computeFindingStatistics, SEVERITY_ORDER } from '../findingStats';
+import { Reporter, ReportData, ReportRunInfo } from './types';
+import { normalizePath } from '../filePath';
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0 auto; max-width: 1200px; padding: 24px; color: #1f2328; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+h2 { font-size: 17px; margin: 24px 0 8px; }
+a { color: #0969da; }
+table.meta { border-collapse: collapse; font-size: 13px; }
+table.meta th { text-align: left; padding: 3px 16px 3px 0; color: #59636e; font-weight: 600; }
+table.meta td { padding: 3px 0; }
+.summary { white-space: pre-wrap; background: #f6f8fa; border: 1px solid #d1d9e0; border-radius: 6px; padding: 12px; font-size: 14px; }
+.filters { display: flex; gap: 16px; align-items: center; margin: 16px 0; font-size: 14px; }
+details.file { border: 1px solid #d1d9e0; border-radius: 6px; margin-bottom: 12px; }
+details.file > summary { cursor: pointer; padding: 8px 12px; background: #f6f8fa; font-family: ui-monospace, Consolas, monospace; font-size: 13px; }
+.change { color: #59636e; margin-left: 8px; }
+.badge { display: inline-block; border-radius: 10px; padding: 0 7px; margin-left: 6px; font-size: 11px; color: #fff; }
+.badge.error, .finding.error .sev { background: #cf222e; }
+.badge.warning, .finding.warning .sev { background: #9a6700; }
+.badge.info, .finding.info .sev { background: #0969da; }
+table.diff { width: 100%; border-collapse: collapse; font-family: ui-monospace, Consolas, monospace; font-size: 12px; }
+table.diff td { padding: 0 8px; vertical-align: top; white-space: pre-wrap; word-break: break-all; }
+table.diff td.num { width: 1%; min-width: 36px; text-align: right; color: #59636e; user-select: none; }
+tr.hunk td { background: #ddf4ff; color: #59636e; padding: 2px 8px; }
+tr.add td { background: #e6ffec; }
+tr.del td { background: #ffebe9; }
+tr.note td { padding: 6px 8px; white-space: normal; }
+.outside { padding: 8px 12px; }
+.finding { border: 1px solid #d1d9e0; border-left-width: 4px; border-radius: 6px; padding: 8px 10px; margin: 4px 0; background: #fff; font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 13px; }
+.finding.error { border-left-color: #cf222e; }
+.finding.warning { border-left-color: #9a6700; }
+.finding.info { border-left-color: #0969da; }
+.finding .sev { color: #fff; border-radius: 4px; padding: 0 6px; font-size: 11px; font-weight: 600; }
+.finding .where { color: #59636e; margin-left: 6px; }
+.finding p { margin: 6px 0 0; }
+.finding pre { margin: 6px 0 0; padding: 8px; background: #f6f8fa; border-radius: 4px; white-space: pre-wrap; }
+body.hide-error .finding.error, body.hide-warning .finding.warning, body.hide-info .finding.info { display: none; }
+body.hide-error tr.note.error, body.hide-warning tr.note.warning, body.hide-info tr.note.info { display: none; }
+.empty { color: #59636e; }
+`;
+
+const SCRIPT = `
+document.querySelectorAll('.filters input[data-severity]').forEach(function (input) {
+  input.addEventListener('change', function () {
+    document.body.classList.toggle('hide-' + input.dataset.severity, !input.checked);
+  });
+});
+document.getElementById('expand-all').addEventListener('click', function () {
+  document.querySelectorAll('details.file').forEach(function (d) { d.open = true; });
+});
+document.getElementById('collapse-all').addEventListener('click', function () {
+  document.querySelectorAll('details.file').forEach(function (d) { d.open = false; });
+});
+`;
+
+/**
+ * Renders a self-contained HTML page: run metadata, the model summary,
+ * severity filters and one collapsible diff per file with findings inline
+ */
+export class HtmlReporter implements Reporter {
+  public render(data: ReportData): string {
+    const title = data.run?.pullRequest
+      ? `Code review of PR #${data.run.pullRequest.id}`
+      : 'Code review';
+
+    const counts = computeFindingStatistics(data.findings).bySeverity;
+    const filters = SEVERITY_ORDER.map(severity =>
+      `<label><input type="checkbox" data-severity="${severity}" checked> ${capitalize(severity)} (${counts[severity]})</label>`
+    );
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(title)}</h1>`,
+      ...(data.run?.pullRequest ? [renderPullRequest(data.run.pullRequest)] : []),
+      '<h2>Run</h2>',
+      renderMetadata(data),
+      '<h2>Summary</h2>',
+      `<div class="summary">${escapeHtml(data.summary?.trim() || 'No summary provided')}</div>`,
+      '<h2>Files</h2>',
+      `<div class="filters">${filters.join('')}<button type="button" id="expand-all">Expand all</button><button type="button" id="collapse-all">Collapse all</button></div>`,
+      renderFiles(data),
+      `<script>${SCRIPT}</script>`,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+}
+
+function renderPullRequest(pullRequest: NonNullable<ReportRunInfo['pullRequest']>): string {
+  const label = escapeHtml(pullRequest.title || `Pull request ${pullRequest.id}`);
+  return pullRequest.url
+    ? `<p><a href="${escapeHtml(pullRequest.url)}">${label}</a></p>`
+    : `<p>${label}</p>`;
+}
+
+function renderMetadata(data: ReportData): string {
+  const rows: Array<[string, string]> = [['Tool', `${data.tool.name} ${data.tool.version}`]];
+  const run = data.run;
+
+  if (run) {
+    rows.push(['Model', `${run.model} (${run.provider})`]);
+    rows.push(['Started', run.startedAt]);
+    rows.push(['Duration', formatDuration(run.durationMs)]);
+    if (run.strategy) {
+      rows.push(['Strategy', run.batches !== undefined ? `${run.strategy}, ${run.batches} batch(es)` : run.strategy]);
+    }
+    if (run.tokenUsage) {
+      const { promptTokens, completionTokens, totalTokens } = run.tokenUsage;
+      rows.push(['Tokens', `${totalTokens} (prompt ${promptTokens}, completion ${completionTokens})`]);
+    } else if (run.estimatedTokens !== undefined) {
+      rows.push(['Tokens', `~${run.estimatedTokens} (estimated)`]);
+    }
+  }
+
+  rows.push(['Files reviewed', String(data.files.length)]);
+  rows.push(['Findings', String(data.findings.length)]);
+
+  return `<table class="meta">${rows.map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+}
+
+function renderFiles(data: ReportData): string {
+  const findingsByFile = new Map<string, ReviewFinding[]>();
+  for (const finding of data.findings) {
+    const key = normalizePath(finding.file);
+    findingsByFile.set(key, [...(findingsByFile.get(key) ?? []), finding]);
+  }
+
+  const sections: string[] = [];
+  const rendered = new Set<string>();
+
+  for (const file of data.diffs ?? []) {
+    const key = normalizePath(file.filePath);
+    if (file.hunks.length === 0 && !findingsByFile.has(key)) {
+      continue;
+    }
+    rendered.add(key);
+    sections.push(renderFile(file.filePath, findingsByFile.get(key) ?? [], file));
+  }
+
+  // Findings for files whose diff is not part of the report
+  for (const [key, findings] of findingsByFile) {
+    if (!rendered.has(key)) {
+      sections.push(renderFile(findings[0]!.file, findings));
+    }
+  }
+
+  return sections.length > 0 ? sections.join('\n') : '<p class="empty">No files were reviewed.</p>';
+}
+
+function renderFile(filePath: string, findings: ReviewFinding[], diff?: FileDiff): string {
+  const counts = computeFindingStatistics(findings).bySeverity;
+  const badges = SEVERITY_ORDER
+    .filter(severity => counts[severity] > 0)
+    .map(severity => `<span class="badge ${severity}">${counts[severity]} ${severity}</span>`)
+    .join('');
+  const change = diff ? `<span class="change">${escapeHtml(diff.changeType)}</span>` : '';
+
+  const placed = new Set<ReviewFinding>();
+  const rows = diff ? diff.hunks.map(hunk => renderHunk(hunk, findings, placed)).join('') : '';
+  const outside = findings.filter(finding => !placed.has(finding));
+
+  const body: string[] = [];
+  if (outside.length > 0) {
+    body.push(`<div class="outside">${outside.map(renderFinding).join('')}</div>`);
+  }
+  if (rows) {
+    body.push(`<table class="diff">${rows}</table>`);
+  }
+
+  return [
+    `<details class="file"${findings.length > 0 ? ' open' : ''}>`,
+    `<summary>${escapeHtml(filePath.replace(/^\/+/, ''))}${change}${badges}</summary>`,
+    ...body,
+    '</details>'
+  ].join('\n');
+}
+
+/**
+ * Render hunk lines, placing each finding after the new-side line it refers to
+ */
+function renderHunk(hunk: DiffHunk, findings: ReviewFinding[], placed: Set<ReviewFinding>): string {
+  const rows: string[] = [
+    `<tr class="hunk"><td class="num"></td><td class="num"></td><td>@@ -${hunk.oldLineStart},${hunk.oldLineCount} +${hunk.newLineStart},${hunk.newLineCount} @@</td></tr>`
+  ];
+
+  let oldLine = hunk.oldLineStart;
+  let newLine = hunk.newLineStart;
+
+  for (const raw of hunk.content.split('\n')) {
+    const marker = raw.charAt(0);
+    const text = escapeHtml(raw.substring(1));
+
+    if (marker === '-') {
+      rows.push(`<tr class="del"><td class="num">${oldLine}</td><td class="num"></td><td>-${text}</td></tr>`);
+      oldLine++;
+    } else if (marker === '+' || marker === ' ') {
+      const cls = marker === '+' ? ' class="add"' : '';
+      rows.push(`<tr${cls}><td class="num">${marker === '+' ? '' : oldLine}</td><td class="num">${newLine}</td><td>${marker}${text}</td></tr>`);
+
+      for (const finding of findings) {
+        if (finding.line === newLine && !placed.has(finding)) {
+          placed.add(finding);
+          rows.push(`<tr class="note ${finding.severity}"><td class="num"></td><td class="num"></td><td>${renderFinding(finding)}</td></tr>`);
+        }
+      }
+
+      if (marker === ' ') {
+        oldLine++;
+      }
+      newLine++;
+    }
+  }
+
+  return rows.join('');
+}
+
+function renderFinding(finding: ReviewFinding): string {
+  const location = finding.endLine && finding.endLine > finding.line
+    ? `line ${finding.line}-${finding.endLine}`
+    : `line ${finding.line}`;
+  const labels = [finding.ruleId, finding.category].filter(Boolean).join(' · ');
+
+  return [
+    `<div class="finding ${finding.severity}">`,
+    `<span class="sev">${finding.severity.toUpperCase()}</span>`,
+    `<span class="where">${escapeHtml(location)}${labels ? ` · ${escapeHtml(labels)}` : ''}</span>`,
+    `<p>${escapeHtml(finding.message)}</p>`,
+    finding.suggestion ? `<pre>${escapeHtml(finding.suggestion)}</pre>` : '',
+    '</div>'
+  ].join('');
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
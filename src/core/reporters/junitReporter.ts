@@ -0,0 +1,78 @@
+import { ReviewFinding } from '../llm/types';
+import { Reporter, ReportData } from './types';
+
+/**
+ * Renders findings as JUnit XML: one testcase per reviewed file,
+ * one failure per error finding, other findings as system-out
+ */
+export class JUnitReporter implements Reporter {
+  public render(data: ReportData): string {
+    const findingsByFile = new Map<string, ReviewFinding[]>();
+    for (const file of data.files) {
+      findingsByFile.set(file, []);
+    }
+    for (const finding of data.findings) {
+      const fileFindings = findingsByFile.get(finding.file) ?? [];
+      fileFindings.push(finding);
+      findingsByFile.set(finding.file, fileFindings);
+    }
+
+    const testcases: string[] = [];
+    let failures = 0;
+
+    for (const [file, findings] of findingsByFile) {
+      const errors = findings.filter(f => f.severity === 'error');
+      const others = findings.filter(f => f.severity !== 'error');
+      failures += errors.length > 0 ? 1 : 0;
+
+      const children: string[] = errors.map(finding =>
+        `      <failure message="${escapeXml(finding.message)}" type="${escapeXml(finding.ruleId || 'error')}">${escapeXml(formatFinding(finding))}</failure>`
+      );
+      if (others.length > 0) {
+        children.push(`      <system-out>${escapeXml(others.map(formatFinding).join('\n\n'))}</system-out>`);
+      }
+
+      const name = file.replace(/^\/+/, '');
+      const attributes = `classname="${escapeXml(data.tool.name)}" name="${escapeXml(name)}" file="${escapeXml(name)}" time="0"`;
+      testcases.push(children.length > 0
+        ? `    <testcase ${attributes}>\n${children.join('\n')}\n    </testcase>`
+        : `    <testcase ${attributes}/>`);
+    }
+
+    const counts = `tests="${findingsByFile.size}" failures="${failures}" errors="0" skipped="0"`;
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${escapeXml(data.tool.name)}" ${counts}>`,
+      `  <testsuite name="${escapeXml(`${data.tool.name} code review`)}" ${counts} timestamp="${new Date().toISOString()}">`,
+      ...testcases,
+      '  </testsuite>',
+      '</testsuites>'
+    ].join('\n');
+  }
+}
+
+/**
+ * Format a finding as plain text for failure bodies and system-out
+ */
+function formatFinding(finding: ReviewFinding): string {
+  const location = finding.endLine && finding.endLine > finding.line
+    ? `${finding.file}:${finding.line}-${finding.endLine}`
+    : `${finding.file}:${finding.line}`;
+  const rule = finding.ruleId ? ` (${finding.ruleId})` : '';
+  const lines = [`[${finding.severity.toUpperCase()}] ${location}${rule}`, finding.message];
+  if (finding.suggestion) {
+    lines.push(`Suggestion: ${finding.suggestion}`);
+  }
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,144 @@
+import { ReviewFinding, Severity } from '../llm/types';
+import { computeFindingStatistics, SEVERITY_ORDER } from '../findingStats';
+import { Reporter, ReportData } from './types';
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  error: '🚨 Error',
+  warning: '⚠️ Warning',
+  info: 'ℹ️ Info'
+};
+
+/**
+ * Renders a Markdown report for pipeline summaries and wiki pages:
+ * severity and category tables followed by one section per file
+ */
+export class MarkdownReporter implements Reporter {
+  public render(data: ReportData): string {
+    const stats = computeFindingStatistics(data.findings);
+    const parts: string[] = [];
+
+    parts.push('# 🤖 AI Code Review Report');
+    parts.push('');
+
+    const pullRequest = data.run?.pullRequest;
+    if (pullRequest) {
+      const label = pullRequest.title ? `#${pullRequest.id} ${pullRequest.title}` : `#${pullRequest.id}`;
+      parts.push(`**Pull request:** ${pullRequest.url ? `[${escapeMarkdown(label)}](${pullRequest.url})` : escapeMarkdown(label)}`);
+      parts.push('');
+    }
+
+    parts.push(...this.renderRunInfo(data));
+    parts.push('');
+
+    if (data.summary?.trim()) {
+      parts.push('## 📝 Summary');
+      parts.push('');
+      parts.push(data.summary.trim());
+      parts.push('');
+    }
+
+    parts.push('## 📊 Findings by Severity');
+    parts.push('');
+    parts.push('| Severity | Count |');
+    parts.push('| --- | ---: |');
+    for (const severity of SEVERITY_ORDER) {
+      parts.push(`| ${SEVERITY_LABELS[severity]} | ${stats.bySeverity[severity]} |`);
+    }
+    parts.push(`| **Total** | **${stats.totalFindings}** |`);
+
+    if (stats.byCategory.length > 0) {
+      parts.push('');
+      parts.push('## 🏷️ Findings by Category');
+      parts.push('');
+      parts.push('| Category | Errors | Warnings | Info | Total |');
+      parts.push('| --- | ---: | ---: | ---: | ---: |');
+      for (const { category, total, bySeverity } of stats.byCategory) {
+        parts.push(`| ${escapeTableCell(category)} | ${bySeverity.error} | ${bySeverity.warning} | ${bySeverity.info} | ${total} |`);
+      }
+    }
+
+    parts.push('');
+    parts.push('## 📁 Findings by File');
+    parts.push('');
+
+    if (data.findings.length === 0) {
+      parts.push('No issues found. ✅');
+    } else {
+      for (const [file, findings] of groupByFile(data.findings)) {
+        parts.push(`### \`${file.replace(/^\/+/, '')}\` (${findings.length})`);
+        parts.push('');
+        for (const finding of findings) {
+          parts.push(...this.renderFinding(finding));
+        }
+      }
+    }
+
+    return parts.join('\n').trimEnd() + '\n';
+  }
+
+  private renderRunInfo(data: ReportData): string[] {
+    const items = [`**Files reviewed:** ${data.files.length}`];
+    const run = data.run;
+
+    if (run) {
+      items.push(`**Model:** ${run.model} (${run.provider})`);
+      items.push(`**Duration:** ${Math.round(run.durationMs / 1000)}s`);
+      if (run.tokenUsage) {
+        items.push(`**Tokens:** ${run.tokenUsage.totalTokens}`);
+      }
+    }
+
+    items.push(`**Generated by:** ${data.tool.name} ${data.tool.version}`);
+    return [items.join(' · ')];
+  }
+
+  private renderFinding(finding: ReviewFinding): string[] {
+    const location = finding.endLine && finding.endLine > finding.line
+      ? `lines ${finding.line}-${finding.endLine}`
+      : `line ${finding.line}`;
+    const labels = [finding.ruleId, finding.category].filter(Boolean).map(label => `\`${label}\``);
+    const lines = [`- **${SEVERITY_LABELS[finding.severity]}** (${[location, ...labels].join(', ')}): ${finding.message.trim()}`];
+
+    if (finding.suggestion?.trim()) {
+      const fence = codeFence(finding.suggestion);
+      lines.push('');
+      lines.push(`  ${fence}`);
+      lines.push(...finding.suggestion.trim().split('\n').map(line => `  ${line}`));
+      lines.push(`  ${fence}`);
+    }
+
+    lines.push('');
+    return lines;
+  }
+}
+
+/**
+ * Group findings by file, most severe files first
+ */
+function groupByFile(findings: ReviewFinding[]): Map<string, ReviewFinding[]> {
+  const sorted = [...findings].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line
+  );
+
+  const byFile = new Map<string, ReviewFinding[]>();
+  for (const finding of sorted) {
+    byFile.set(finding.file, [...(byFile.get(finding.file) ?? []), finding]);
+  }
+  return byFile;
+}
+
+/**
+ * Pick a fence longer than any backtick run inside the code
+ */
+function codeFence(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\[\]*_`])/g, '\\$1');
+}
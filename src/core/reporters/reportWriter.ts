@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { SarifReporter } from './sarifReporter';
+import { JUnitReporter } from './junitReporter';
+import { HtmlReporter } from './htmlReporter';
+import { MarkdownReporter } from './markdownReporter';
+import { Reporter, ReportData, ReportFormat } from './types';
+
+export class ReportWriter {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+  }
+
+  /**
+   * Render a report and write it to a file, or to stdout when no path is given
+   */
+  public write(format: ReportFormat, data: ReportData, outputPath?: string): void {
+    const content = this.render(format, data);
+
+    if (!outputPath) {
+      console.log(content);
+      return;
+    }
+
+    try {
+      const resolved = path.resolve(outputPath);
+      fs.mkdirSync(path.dirname(resolved), { recursive: true });
+      fs.writeFileSync(resolved, content.endsWith('\n') ? content : content + '\n', 'utf8');
+      this.logger.info(`${format.toUpperCase()} report written to ${resolved}`);
+
+      // Attach Markdown reports to the run's Extensions tab when running in Azure Pipelines
+      if (format === 'markdown' && process.env['TF_BUILD']) {
+        console.log(`##vso[task.uploadsummary]${resolved}`);
+      }
+    } catch (error) {
+      throw this.errorHandler.createUserError(`Failed to write report to ${outputPath}: ${(error as Error).message}`, {
+        operation: 'write',
+        component: 'ReportWriter',
+        metadata: { format, outputPath }
+      });
+    }
+  }
+
+  /**
+   * Render a report in the requested format
+   */
+  public render(format: ReportFormat, data: ReportData): string {
+    return this.createReporter(format).render(data);
+  }
+
+  /**
+   * Name and version of this tool for report metadata
+   */
+  public getToolInfo(): ReportData['tool'] {
+    try {
+      const packageJsonPath = path.join(__dirname, '..', '..', '..', 'package.json');
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+      return {
+        name: 'ado-review',
+        version: packageJson.version || '0.0.0',
+        ...(packageJson.homepage && { informationUri: packageJson.homepage })
+      };
+    } catch (error) {
+      this.logger.debug(`Could not read package.json for report metadata: ${error}`);
+      return { name: 'ado-review', version: '0.0.0' };
+    }
+  }
+
+  private createReporter(format: ReportFormat): Reporter {
+    switch (format) {
+      case 'json':
+        // Keep the plain findings array that --format json has always printed
+        return { render: data => JSON.stringify(data.findings, null, 2) };
+      case 'sarif':
+        return new SarifReporter();
+      case 'junit':
+        return new JUnitReporter();
+      case 'html':
+        return new HtmlReporter();
+      case 'markdown':
+        return new MarkdownReporter();
+      default:
+        throw this.errorHandler.createUserError(`Unsupported report format: ${format}`);
+    }
+  }
+}
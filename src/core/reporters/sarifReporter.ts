@@ -0,0 +1,82 @@
+import { Severity } from '../llm/types';
+import { Reporter, ReportData } from './types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note'
+};
+
+/**
+ * Renders findings as a SARIF 2.1.0 log
+ */
+export class SarifReporter implements Reporter {
+  public render(data: ReportData): string {
+    const rules = data.rules.map(rule => ({
+      id: rule.id,
+      name: rule.name,
+      shortDescription: { text: rule.name },
+      fullDescription: { text: rule.description || rule.name },
+      defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+      ...(rule.suggestion && { help: { text: rule.suggestion } }),
+      properties: { category: rule.category }
+    }));
+    const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+
+    const results = data.findings.map(finding => {
+      const artifactLocation = {
+        uri: finding.file.replace(/^\/+/, ''),
+        uriBaseId: '%SRCROOT%'
+      };
+      const region = {
+        startLine: finding.line,
+        ...(finding.endLine && finding.endLine > finding.line && { endLine: finding.endLine })
+      };
+      const ruleIndex = finding.ruleId !== undefined ? ruleIndexes.get(finding.ruleId) : undefined;
+
+      return {
+        ...(finding.ruleId && { ruleId: finding.ruleId }),
+        ...(ruleIndex !== undefined && { ruleIndex }),
+        level: SARIF_LEVELS[finding.severity],
+        message: { text: finding.message },
+        locations: [{ physicalLocation: { artifactLocation, region } }],
+        ...(finding.suggestion && {
+          // A SARIF fix needs at least one replacement; an empty insertion keeps
+          // the suggestion descriptive without telling tools to rewrite the file
+          fixes: [{
+            description: { text: finding.suggestion },
+            artifactChanges: [{
+              artifactLocation,
+              replacements: [{
+                deletedRegion: { startLine: finding.line, startColumn: 1, endLine: finding.line, endColumn: 1 }
+              }]
+            }]
+          }]
+        }),
+        ...(finding.category && { properties: { category: finding.category } })
+      };
+    });
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: data.tool.name,
+              version: data.tool.version,
+              ...(data.tool.informationUri && { informationUri: data.tool.informationUri }),
+              rules
+            }
+          },
+          results
+        }
+      ]
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+}
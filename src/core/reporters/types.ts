@@ -0,0 +1,50 @@
+import { ReviewFinding, TokenUsage } from '../llm/types';
+import { ReviewRule } from '../rulesLoader';
+import { FileDiff } from '../diffFetcher';
+
+export type ReportFormat = 'json' | 'sarif' | 'junit' | 'html' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'sarif', 'junit', 'html', 'markdown'];
+
+/**
+ * How the review was run, for reports that show run metadata
+ */
+export interface ReportRunInfo {
+  provider: string;
+  model: string;
+  startedAt: string;
+  durationMs: number;
+  strategy?: string;
+  batches?: number;
+  estimatedTokens?: number;
+  tokenUsage?: TokenUsage;
+  pullRequest?: {
+    id: number;
+    title?: string;
+    url?: string;
+  };
+}
+
+/**
+ * Everything a reporter needs to describe a finished review
+ */
+export interface ReportData {
+  tool: {
+    name: string;
+    version: string;
+    informationUri?: string;
+  };
+  /** Paths of all files that were sent for review */
+  files: string[];
+  findings: ReviewFinding[];
+  rules: ReviewRule[];
+  /** Diffs of the reviewed files, for reports that show the changed code */
+  diffs?: FileDiff[];
+  /** Review summary written by the model */
+  summary?: string;
+  run?: ReportRunInfo;
+}
+
+export interface Reporter {
+  render(data: ReportData): string;
+}
@@ -1,6 +1,7 @@
 import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
 import { ReviewFinding, ReviewResult } from './llm/types';
+import { FINGERPRINT_PROPERTY, FINGERPRINTS_PROPERTY } from './fingerprint';
 
 export interface ADOComment {
   id?: number;
@@ -94,6 +95,7 @@ export class ResultMapper {
     try {
       const opts = { ...this.defaultOptions, ...options };
       const { findings } = reviewResult;
+      const unanchoredCount = reviewResult.unanchoredFindings?.length ?? 0;
       
       this.logger.info(`Mapping ${findings.length} findings to ADO comment threads`);
       
@@ -122,9 +124,9 @@ export class ResultMapper {
         }
       }
       
-      // Create summary comment if needed
+      // Create summary comment if needed; findings without a diff line can only be reported there
       let summaryComment: ADOComment | undefined;
-      if (opts.createSummaryComment && findings.length >= opts.summaryCommentThreshold) {
+      if (unanchoredCount > 0 || (opts.createSummaryComment && findings.length >= opts.summaryCommentThreshold)) {
         summaryComment = this.createSummaryComment(reviewResult, mappedCount, skippedCount);
       }
       
@@ -132,7 +134,7 @@ export class ResultMapper {
         threads: threads.slice(0, opts.maxTotalThreads),
         ...(summaryComment && { summaryComment }),
         stats: {
-          totalFindings: findings.length,
+          totalFindings: findings.length + unanchoredCount,
           mappedFindings: mappedCount,
           skippedFindings: skippedCount + Math.max(0, findings.length - mappedCount),
           threadsCreated: threads.length,
@@ -287,7 +289,7 @@ export class ResultMapper {
     // Add finding comments (limited)
     const limitedFindings = findings.slice(0, options.maxCommentsPerThread - 1);
     for (const finding of limitedFindings) {
-      const comment = this.createFindingComment(finding, options);
+      const comment = this.createFindingComment(finding, options, threadContext);
       comments.push(comment);
     }
     
@@ -312,7 +314,8 @@ export class ResultMapper {
       properties: {
         'ado-review.type': 'severity-group',
         'ado-review.severity': severity,
-        'ado-review.file': filePath
+        'ado-review.file': filePath,
+        ...this.createFindingIdentityProperties(findings)
       }
     };
   }
@@ -358,7 +361,7 @@ export class ResultMapper {
     // Add finding comments (limited)
     const limitedFindings = findings.slice(0, options.maxCommentsPerThread);
     for (const finding of limitedFindings) {
-      const comment = this.createFindingComment(finding, options);
+      const comment = this.createFindingComment(finding, options, threadContext);
       comments.push(comment);
     }
     
@@ -383,11 +386,26 @@ export class ResultMapper {
       properties: {
         'ado-review.type': 'line-group',
         'ado-review.line': lineKey,
-        'ado-review.file': firstFinding?.file || ''
+        'ado-review.file': firstFinding?.file || '',
+        ...this.createFindingIdentityProperties(findings)
       }
     };
   }
 
+  /**
+   * Thread-level rule IDs and fingerprints; Azure DevOps keeps thread properties but not comment
+   * properties, so this is what later runs use to recognize the thread's findings
+   */
+  private createFindingIdentityProperties(findings: ReviewFinding[]): Record<string, string> {
+    const unique = (values: Array<string | undefined>) => [...new Set(values.filter((value): value is string => !!value))];
+    const ruleIds = unique(findings.map(finding => finding.ruleId));
+    const fingerprints = unique(findings.map(finding => finding.fingerprint));
+    return {
+      ...(ruleIds.length > 0 && { 'ado-review.ruleIds': ruleIds.join(',') }),
+      ...(fingerprints.length > 0 && { [FINGERPRINTS_PROPERTY]: fingerprints.join(',') })
+    };
+  }
+
   /**
    * Create severity header content
    */
@@ -406,7 +424,11 @@ export class ResultMapper {
   /**
    * Create comment for a finding
    */
-  private createFindingComment(finding: ReviewFinding, options: MappingOptions): ADOComment {
+  private createFindingComment(
+    finding: ReviewFinding,
+    options: MappingOptions,
+    threadContext?: ADOCommentThread['threadContext']
+  ): ADOComment {
     const parts: string[] = [];
     
     // Severity indicator
@@ -439,6 +461,13 @@ export class ResultMapper {
     if (options.includeSuggestions && finding.suggestion) {
       parts.push(`\n**Suggestion:** ${finding.suggestion}`);
     }
+
+    // Azure DevOps applies a suggestion block to the thread's lines, so the ranges must match
+    const appliesToThread = threadContext?.rightFileStart.line === finding.line &&
+      threadContext.rightFileEnd.line === (finding.endLine ?? finding.line);
+    if (options.includeSuggestions && finding.replacement !== undefined && appliesToThread) {
+      parts.push(`\n\`\`\`suggestion\n${finding.replacement}\n\`\`\``);
+    }
     
     // Line information
     const lineInfo = finding.endLine && finding.endLine !== finding.line
@@ -456,7 +485,8 @@ export class ResultMapper {
         'ado-review.line': finding.line,
         'ado-review.endLine': finding.endLine,
         'ado-review.ruleId': finding.ruleId,
-        'ado-review.category': finding.category
+        'ado-review.category': finding.category,
+        [FINGERPRINT_PROPERTY]: finding.fingerprint
       }
     };
   }
@@ -470,6 +500,7 @@ export class ResultMapper {
     skippedCount: number
   ): ADOComment {
     const { findings, summary, metadata } = reviewResult;
+    const unanchored = reviewResult.unanchoredFindings ?? [];
     
     const parts: string[] = [];
     
@@ -486,12 +517,20 @@ export class ResultMapper {
     // Statistics
     parts.push('## 📊 Review Statistics');
     parts.push('');
-    parts.push(`- **Total Issues Found:** ${findings.length}`);
+    parts.push(`- **Total Issues Found:** ${findings.length + unanchored.length}`);
     parts.push(`- **Issues Commented:** ${mappedCount}`);
     
     if (skippedCount > 0) {
       parts.push(`- **Issues Skipped:** ${skippedCount} (due to limits)`);
     }
+
+    if (unanchored.length > 0) {
+      parts.push(`- **Issues Outside Changed Lines:** ${unanchored.length}`);
+    }
+
+    if (reviewResult.suppressedCount) {
+      parts.push(`- **Issues Suppressed:** ${reviewResult.suppressedCount} (marked won't fix, closed or by design earlier)`);
+    }
     
     if (metadata) {
       parts.push(`- **Files Reviewed:** ${metadata.reviewedFiles}`);
@@ -517,6 +556,18 @@ export class ResultMapper {
       }
     }
     
+    // Findings that could not be attached to a line in the diff
+    if (unanchored.length > 0) {
+      const severityEmoji = { error: '🚨', warning: '⚠️', info: 'ℹ️' };
+
+      parts.push('');
+      parts.push('## 📌 Findings Outside Changed Lines');
+      parts.push('');
+      for (const finding of unanchored) {
+        parts.push(`- ${severityEmoji[finding.severity]} \`${finding.file}:${finding.line}\` — ${finding.message}`);
+      }
+    }
+    
     // Footer
     parts.push('');
     parts.push('---');
@@ -528,9 +579,10 @@ export class ResultMapper {
       status: 'active',
       properties: {
         'ado-review.type': 'summary',
-        'ado-review.totalFindings': findings.length,
+        'ado-review.totalFindings': findings.length + unanchored.length,
         'ado-review.mappedFindings': mappedCount,
-        'ado-review.skippedFindings': skippedCount
+        'ado-review.skippedFindings': skippedCount,
+        'ado-review.suppressedFindings': reviewResult.suppressedCount ?? 0
       }
     };
   }
@@ -4,18 +4,34 @@ import { ErrorHandler, ReviewError } from './errorHandler';
 import { ArgsParser, ReviewOptions } from '../cli/argsParser.js';
 import { ConfigLoader } from './configLoader';
 import { ADOClient } from './adoClient';
+import { ADOCredential, CredentialResolver } from './auth/credentialResolver';
+import { buildCollectionUrl } from './adoUrl';
 import { GitManager } from './gitManager';
-import { DiffFetcher } from './diffFetcher';
+import { DiffFetcher, PullRequestDiff } from './diffFetcher';
 import { RulesLoader } from './rulesLoader';
 import { ContextBuilder } from './contextBuilder';
 import { ReviewPlanner } from './reviewPlanner';
-import { LLMAdapter, ReviewFinding } from './llm/types';
+import { LLMAdapter, ReviewFinding, ReviewResult as LLMReviewResult, TokenUsage } from './llm/types';
+import { addTokenUsage } from './llm/responseUtils';
 import { GeminiApiAdapter } from './llm/geminiApiAdapter';
 import { OpenAIAdapter } from './llm/openaiAdapter';
 import { OpenRouterAdapter } from './llm/openRouterAdapter';
+import { AnthropicAdapter } from './llm/anthropicAdapter';
+import { AzureOpenAIAdapter } from './llm/azureOpenaiAdapter';
+import { OpenAICompatibleAdapter } from './llm/openaiCompatibleAdapter';
 import { ResultMapper } from './resultMapper';
-import { Commenter } from './commenter';
-import { StatusReporter } from './statusReporter';
+import { anchorFindings } from './findingAnchor';
+import { fingerprintFinding } from './fingerprint';
+import { validateReplacement } from './suggestion';
+import { findSuppressions, partitionSuppressed, Suppression, SuppressionStore } from './suppression';
+import { computeFindingStatistics } from './findingStats';
+import { Commenter, CommentResult } from './commenter';
+import { ConversationResponder, ConversationResult } from './conversationResponder';
+import { StatusReporter, PIPELINE_ARTIFACTS_URL } from './statusReporter';
+import { ReportWriter } from './reporters/reportWriter';
+import { PipelineReporter } from './pipelineReporter';
+import { ReportFormat } from './reporters/types';
+import { LoadedRules, ReviewRule } from './rulesLoader';
 import { Workspace } from './workspace';
 import chalk from 'chalk';
 
@@ -25,6 +41,8 @@ export interface ReviewResult {
   findingsCount: number;
   commentsPosted: number;
   processingTime: number;
+  /** The iteration's findings reached the pull request, so it can be recorded as reviewed */
+  reviewDelivered: boolean;
   errorMessage?: string;
   errorStack?: string;
   errorType?: string;
@@ -32,6 +50,9 @@ export interface ReviewResult {
 
 // ReviewFinding is imported from LLM types
 
+// PR property used to remember the last reviewed iteration between runs
+export const LAST_REVIEWED_ITERATION_PROPERTY = 'ado-review.lastReviewedIteration';
+
 export class ReviewOrchestrator {
   private logger: Logger;
   private errorHandler: ErrorHandler;
@@ -41,6 +62,7 @@ export class ReviewOrchestrator {
 
   // Core components
   private adoClient?: ADOClient;
+  private adoCredential?: ADOCredential;
   private gitManager?: GitManager;
   private diffFetcher?: DiffFetcher;
   private rulesLoader?: RulesLoader;
@@ -49,11 +71,31 @@ export class ReviewOrchestrator {
   private llmAdapter?: LLMAdapter;
   private resultMapper?: ResultMapper;
   private commenter?: Commenter;
+  private conversationResponder?: ConversationResponder;
   private statusReporter?: StatusReporter;
+  private reportWriter?: ReportWriter;
+  private pipelineReporter?: PipelineReporter;
   private workspace?: Workspace;
+  private incremental = false;
+  private resolveFixed = true;
+  // Findings that could not be placed on a diff line; posted in the summary comment
+  private unanchoredFindings = new Set<ReviewFinding>();
+  // Findings left out because a reviewer dismissed them earlier; reported in the summary comment
+  private suppressedCount = 0;
+  // Set when the interactive user approves the pull request instead of posting findings
+  private pullRequestApproved = false;
+  // Set when some hunks got no LLM answer, so a missing finding there does not mean it was fixed
+  private llmReviewIncomplete = false;
+  // Summaries and token usage reported by the LLM across all batches
+  private llmSummaries: string[] = [];
+  private tokenUsage: TokenUsage | undefined;
 
-  constructor(logger: Logger, options: any) {
+  /**
+   * @param handleProcessExit - Clean up the workspace from process exit and signal handlers; set only by the single review command
+   */
+  constructor(logger: Logger, options: any, handleProcessExit: boolean = false) {
     this.logger = logger;
+    this.handleProcessExit = handleProcessExit;
     this.errorHandler = new ErrorHandler(logger);
     this.argsParser = new ArgsParser(logger);
     this.configLoader = new ConfigLoader(logger, this.errorHandler);
@@ -64,6 +106,7 @@ export class ReviewOrchestrator {
   }
 
   private rawOptions: any;
+  private handleProcessExit: boolean;
 
   /**
    * Main orchestration method
@@ -79,21 +122,40 @@ export class ReviewOrchestrator {
       await this.initialize();
       this.logger.debug('Completed step 1: Initialize');
 
+      const offline = this.argsParser.isOfflineReview(this.options);
+
       // Step 2: Setup workspace
       this.logger.step(2, 8, 'Setting up temporary workspace...');
       this.logger.debug('Starting step 2: Setup workspace');
-      workspace = await this.setupWorkspace();
+      if (offline) {
+        this.logger.info('Offline review, using current working copy');
+      } else {
+        workspace = await this.setupWorkspace();
+      }
       this.logger.debug('Completed step 2: Setup workspace');
 
       // Step 3: Fetch PR information and diffs
       this.logger.step(3, 8, 'Fetching PR information and changes...');
       this.logger.debug('Starting step 3: Fetch PR info and diffs');
-      const prInfo = await this.fetchPRInfo();
+      const prInfo = offline ? undefined : await this.fetchPRInfo();
       this.logger.debug('Completed fetchPRInfo');
 
-      const diffs = await this.fetchDiffs(prInfo);
+      const diffs = prInfo ? await this.fetchDiffs(prInfo) : await this.fetchOfflineDiffs();
       this.logger.debug('Completed step 3: Fetch PR info and diffs');
 
+      if (this.incremental && diffs.baseIterationId !== undefined && diffs.baseIterationId >= diffs.iterationId) {
+        const processingTime = Date.now() - startTime;
+        this.logger.success(`Iteration ${diffs.iterationId} was already reviewed, nothing to do`);
+        return {
+          hasErrors: false,
+          hasFindings: false,
+          findingsCount: 0,
+          commentsPosted: 0,
+          processingTime,
+          reviewDelivered: true
+        };
+      }
+
       // Step 4: Load rules and build context
       this.logger.step(4, 8, 'Loading rules and building review context...');
       this.logger.debug('Starting step 4: Load rules and build context');
@@ -113,33 +175,72 @@ export class ReviewOrchestrator {
       // Step 6: Process and filter findings
       this.logger.step(6, 8, 'Processing and filtering findings...');
       this.logger.debug('Starting step 6: Process findings');
-      const processedFindings = await this.processFindings(findings);
+      const anchoredFindings = this.anchorFindings(findings, diffs);
+      const filteredFindings = await this.processFindings(anchoredFindings);
+      const processedFindings = prInfo ? await this.removeSuppressedFindings(filteredFindings, prInfo) : filteredFindings;
+      if (this.options.format !== 'table') {
+        this.writeReport(this.options.format, processedFindings, rules, diffs, reviewPlan, prInfo, startTime);
+      }
+      this.pipelineReporter?.reportFindings(processedFindings);
       this.logger.debug('Completed step 6: Process findings');
 
       // Step 7: Get user approval and post comments
       this.logger.step(7, 8, 'Getting approval and posting comments...');
       this.logger.debug('Starting step 7: Get approval and post comments');
-      const approvedFindings = await this.getApproval(processedFindings);
-      this.logger.debug('Completed getApproval');
-      const commentsPosted = await this.postComments(approvedFindings, prInfo);
+      let commentsPosted = 0;
+      // Cancelled, deselected or failed postings leave the iteration open for the next incremental run
+      let reviewDelivered = processedFindings.length === 0;
+      if (prInfo) {
+        const approvedFindings = await this.getApproval(processedFindings);
+        this.logger.debug('Completed getApproval');
+        const postingDeclined = !this.options.dryRun && !this.pullRequestApproved &&
+          processedFindings.length > 0 && approvedFindings.length === 0;
+        if (this.llmReviewIncomplete || postingDeclined) {
+          this.logger.debug('Not resolving fixed threads, the review was incomplete or its findings were not posted');
+        } else {
+          // Judged against every finding of this run, including ones below the severity threshold or not approved
+          await this.resolveFixedThreads(anchoredFindings, prInfo, diffs);
+        }
+        const commentResult = await this.postComments(approvedFindings, prInfo);
+        commentsPosted = commentResult?.commentsCreated ?? 0;
+        reviewDelivered ||= this.pullRequestApproved || (commentResult !== undefined && commentResult.errors.length === 0);
+        // A dry run would pay for answers that are never posted
+        if (this.options.autoApprove && !this.options.dryRun) {
+          await this.answerReplies(prInfo, diffs.iterationId);
+        } else {
+          this.logger.debug('Thread replies are only answered in unattended runs (--auto-approve without --dry-run)');
+        }
+      } else {
+        // Nothing to post without a pull request
+        this.displayFindings(processedFindings);
+      }
       this.logger.debug('Completed step 7: Get approval and post comments');
 
       // Step 8: Update PR status and cleanup
       this.logger.step(8, 8, 'Updating PR status and cleaning up...');
       this.logger.debug('Starting step 8: Update PR status');
-      await this.updatePRStatus(prInfo, processedFindings);
+      if (prInfo) {
+        await this.updatePRStatus(prInfo, processedFindings, diffs, startTime);
+        if (reviewDelivered) {
+          await this.recordReviewedIteration(prInfo.pullRequestId, diffs.iterationId);
+        } else {
+          this.logger.debug(`Iteration ${diffs.iterationId} not recorded as reviewed, its findings were not posted`);
+        }
+      }
       this.logger.debug('Completed step 8: Update PR status');
 
       const processingTime = Date.now() - startTime;
 
       this.logger.success(`Review completed successfully in ${processingTime}ms`);
+      this.pipelineReporter?.complete(processedFindings);
 
       return {
         hasErrors: false,
         hasFindings: processedFindings.length > 0,
         findingsCount: processedFindings.length,
         commentsPosted,
-        processingTime
+        processingTime,
+        reviewDelivered
       };
 
     } catch (error) {
@@ -160,6 +261,7 @@ export class ReviewOrchestrator {
           findingsCount: 0,
           commentsPosted: 0,
           processingTime,
+          reviewDelivered: false,
           errorMessage: err.message,
           errorType: error.constructor.name
         };
@@ -183,6 +285,21 @@ export class ReviewOrchestrator {
     }
   }
 
+  /**
+   * Answer developer replies in the review threads without reviewing the code again
+   */
+  public async runConversation(): Promise<ConversationResult> {
+    await this.initialize();
+    if (this.argsParser.isOfflineReview(this.options)) {
+      throw this.errorHandler.createUserError('Answering thread replies requires a pull request');
+    }
+
+    const prInfo = await this.fetchPRInfo();
+    const iterations = await this.adoClient!.getPullRequestIterations(prInfo.pullRequestId);
+    const iterationId = iterations.length > 0 ? Math.max(...iterations.map(iteration => iteration.id)) : undefined;
+    return this.answerReplies(prInfo, iterationId);
+  }
+
   /**
    * Initialize components and validate options
    */
@@ -190,17 +307,22 @@ export class ReviewOrchestrator {
     try {
       // Parse and validate options
       this.options = await this.argsParser.parseOptions(this.rawOptions);
+      const offline = this.argsParser.isOfflineReview(this.options);
 
       // Parse PR information
-      const prInfo = this.argsParser.parsePRInfo(this.options);
+      const prInfo = offline ? undefined : this.argsParser.parsePRInfo(this.options);
       let org = '', project = '', repo = '';
+      let collectionUrl: string | undefined;
 
-      if (prInfo.type === 'url' && prInfo.url) {
+      if (!prInfo) {
+        this.logger.debug('Offline review, skipping PR information');
+      } else if (prInfo.type === 'url' && prInfo.url) {
         const repoInfo = this.argsParser.extractRepoInfoFromUrl(prInfo.url);
         if (repoInfo) {
           org = repoInfo.org;
           project = repoInfo.project;
           repo = repoInfo.repo;
+          collectionUrl = repoInfo.collectionUrl;
         } else {
           throw new Error('Could not extract repository information from PR URL');
         }
@@ -215,6 +337,7 @@ export class ReviewOrchestrator {
           const repoInfo = this.argsParser.extractRepoInfoFromUrl(repoParam);
           if (repoInfo) {
             repo = repoInfo.repo;
+            collectionUrl = repoInfo.collectionUrl;
           } else {
             throw new Error(`Could not extract repository name from URL: ${repoParam}`);
           }
@@ -226,17 +349,28 @@ export class ReviewOrchestrator {
 
       // Load configuration
       this.logger.info('Loading configuration...');
-      await this.configLoader.getConfig();
+      const appConfig = await this.configLoader.getConfig();
 
       // Initialize core components
-      this.adoClient = new ADOClient(
-        org,
-        project,
-        repo,
-        process.env['AZURE_DEVOPS_PAT'] || '',
-        this.logger,
-        this.errorHandler
-      );
+      if (!offline) {
+        collectionUrl ??= buildCollectionUrl(org, this.options.serverUrl ?? appConfig.azo?.serverUrl);
+        this.logger.debug(`Azure DevOps collection: ${collectionUrl}`);
+
+        const credentialResolver = new CredentialResolver(this.logger, this.errorHandler);
+        this.adoCredential = await credentialResolver.resolve(this.options.auth ?? appConfig.azo?.auth ?? 'auto', collectionUrl);
+        this.adoClient = new ADOClient(
+          org,
+          project,
+          repo,
+          this.adoCredential,
+          this.logger,
+          this.errorHandler,
+          {
+            collectionUrl,
+            ...(appConfig.azo?.apiVersion && { apiVersion: appConfig.azo.apiVersion })
+          }
+        );
+      }
       this.gitManager = new GitManager(this.logger, this.errorHandler);
       this.diffFetcher = new DiffFetcher(this.adoClient, this.gitManager, this.logger, this.errorHandler);
       this.rulesLoader = new RulesLoader(this.logger, this.errorHandler);
@@ -244,7 +378,6 @@ export class ReviewOrchestrator {
       this.reviewPlanner = new ReviewPlanner(this.logger, this.errorHandler);
 
       // Initialize LLM adapter based on provider
-      const appConfig = await this.configLoader.getConfig();
       const defaultLlmTimeout = appConfig.errors?.timeouts?.llm ?? 120000;
       const provider = this.options.provider || 'gemini-api';
       this.logger.debug(`Initializing LLM adapter for provider: ${provider}`);
@@ -261,13 +394,52 @@ export class ReviewOrchestrator {
           this.llmAdapter = new OpenRouterAdapter(this.logger, this.errorHandler, defaultLlmTimeout);
           break;
         }
+        case 'anthropic': {
+          this.llmAdapter = new AnthropicAdapter(
+            this.logger,
+            this.errorHandler,
+            appConfig.anthropic?.timeout ?? defaultLlmTimeout,
+            appConfig.anthropic?.baseUrl
+          );
+          break;
+        }
+        case 'azure-openai': {
+          const azureConfig = appConfig.azureOpenai;
+          this.llmAdapter = new AzureOpenAIAdapter(
+            this.logger,
+            this.errorHandler,
+            azureConfig?.timeout ?? defaultLlmTimeout,
+            {
+              ...(azureConfig?.endpoint && { endpoint: azureConfig.endpoint }),
+              ...(azureConfig?.resource && { resource: azureConfig.resource }),
+              ...(azureConfig?.apiVersion && { apiVersion: azureConfig.apiVersion }),
+              ...(azureConfig?.authMode && { authMode: azureConfig.authMode })
+            }
+          );
+          break;
+        }
+        case 'openai-compatible': {
+          this.llmAdapter = new OpenAICompatibleAdapter(
+            this.logger,
+            this.errorHandler,
+            appConfig.openaiCompatible?.timeout ?? defaultLlmTimeout,
+            appConfig.openaiCompatible?.baseUrl,
+            appConfig.openaiCompatible?.jsonMode ?? true
+          );
+          break;
+        }
         default:
           throw new Error(`Unsupported provider: ${provider}`);
       }
 
       this.resultMapper = new ResultMapper(this.logger, this.errorHandler);
-      this.commenter = new Commenter(this.logger, this.errorHandler, this.adoClient);
-      this.statusReporter = new StatusReporter(this.logger, this.errorHandler, this.adoClient);
+      this.reportWriter = new ReportWriter(this.logger, this.errorHandler);
+      this.pipelineReporter = new PipelineReporter(this.logger);
+      if (this.adoClient) {
+        this.commenter = new Commenter(this.logger, this.errorHandler, this.adoClient);
+        this.conversationResponder = new ConversationResponder(this.logger, this.errorHandler, this.adoClient, this.llmAdapter);
+        this.statusReporter = new StatusReporter(this.logger, this.errorHandler, this.adoClient);
+      }
 
       this.logger.debug('All components initialized successfully');
     } catch (error) {
@@ -289,7 +461,8 @@ export class ReviewOrchestrator {
       {
         baseDir: this.options.tmpDir || os.tmpdir(),
         prefix: 'ado-review',
-        keepOnExit: false
+        keepOnExit: false,
+        handleProcessExit: this.handleProcessExit
       }
     );
     await this.workspace.create();
@@ -364,7 +537,8 @@ export class ReviewOrchestrator {
       {
         branch: prInfo.sourceRefName,
         workingDirectory: sourceDir,
-        additionalRefs: prInfo.targetRefName ? [prInfo.targetRefName] : []
+        additionalRefs: prInfo.targetRefName ? [prInfo.targetRefName] : [],
+        ...(this.adoCredential && { authorizationHeader: await this.adoCredential.getAuthorizationHeader() })
       }
     );
 
@@ -379,10 +553,18 @@ export class ReviewOrchestrator {
       configKeys: config ? Object.keys(config) : []
     });
 
+    // Incremental reviews start from the last iteration recorded on the PR
+    this.incremental = this.options.incremental || config?.review?.incremental === true;
+    this.resolveFixed = config?.review?.resolveFixedThreads !== false;
+    const baseIterationId = this.incremental
+      ? await this.getLastReviewedIteration(prInfo.pullRequestId)
+      : undefined;
+
     // Fetch PR diff
     const prDiff = await this.diffFetcher.fetchPullRequestDiff(
       prInfo.pullRequestId,
-      sourceDir
+      sourceDir,
+      baseIterationId
     );
 
     // Log the diff for debugging
@@ -391,6 +573,68 @@ export class ReviewOrchestrator {
     return prDiff;
   }
 
+  /**
+   * Fetch diffs for reviews that do not target an Azure DevOps pull request
+   */
+  private async fetchOfflineDiffs(): Promise<PullRequestDiff> {
+    if (!this.diffFetcher) {
+      throw this.errorHandler.createInternalError('Required components not initialized');
+    }
+
+    // A provided diff file takes precedence over git refs and skips git entirely
+    const prDiff = this.options.diffFile !== undefined
+      ? await this.diffFetcher.fetchDiffFile(this.options.diffFile)
+      : await this.diffFetcher.fetchLocalDiff(process.cwd(), this.options.base!, this.options.head!);
+
+    this.logger.logDiff('local', JSON.stringify(prDiff, null, 2));
+
+    return prDiff;
+  }
+
+  /**
+   * Read the last reviewed iteration from PR properties
+   */
+  private async getLastReviewedIteration(pullRequestId: number): Promise<number | undefined> {
+    if (!this.adoClient) {
+      throw this.errorHandler.createInternalError('ADO client not initialized');
+    }
+
+    try {
+      const properties = await this.adoClient.getPullRequestProperties(pullRequestId);
+      const value = properties[LAST_REVIEWED_ITERATION_PROPERTY];
+      const iterationId = value !== undefined ? parseInt(value, 10) : NaN;
+
+      if (isNaN(iterationId)) {
+        this.logger.info('No previous review recorded, reviewing full pull request');
+        return undefined;
+      }
+
+      this.logger.info(`Last reviewed iteration: ${iterationId}`);
+      return iterationId;
+    } catch (error) {
+      this.logger.warn(`Failed to read last reviewed iteration, reviewing full pull request: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the reviewed iteration so the next incremental run can skip it
+   */
+  private async recordReviewedIteration(pullRequestId: number, iterationId?: number): Promise<void> {
+    if (!this.adoClient || this.options.dryRun || iterationId === undefined) {
+      return;
+    }
+
+    try {
+      await this.adoClient.updatePullRequestProperties(pullRequestId, {
+        [LAST_REVIEWED_ITERATION_PROPERTY]: iterationId.toString()
+      });
+      this.logger.debug(`Recorded iteration ${iterationId} as last reviewed`);
+    } catch (error) {
+      this.logger.warn(`Failed to record last reviewed iteration: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Load rules from files
    */
@@ -527,6 +771,7 @@ export class ReviewOrchestrator {
       }
     );
 
+    this.recordLLMResult(reviewResult);
     return reviewResult.findings;
   }
 
@@ -562,6 +807,7 @@ export class ReviewOrchestrator {
           }
         );
 
+        this.recordLLMResult(batchResult);
         allFindings.push(...batchResult.findings);
         batchSuccess = true;
         consecutiveFailures = 0; // Reset failure counter on success
@@ -585,6 +831,9 @@ export class ReviewOrchestrator {
           // For non-rate-limit errors, try fallback strategies
           batchSuccess = await this.handleGeneralError(batch, baseContext, i + 1, error, allFindings);
         }
+        if (!batchSuccess) {
+          this.llmReviewIncomplete = true;
+        }
 
         // Check if we should abort due to too many consecutive failures
         if (consecutiveFailures >= maxConsecutiveFailures) {
@@ -598,12 +847,24 @@ export class ReviewOrchestrator {
       if (batchSuccess) {
         consecutiveFailures = 0;
       }
+
+      this.pipelineReporter?.setProgress(i + 1, batches.length, `Reviewed batch ${i + 1}/${batches.length}`);
     }
 
     this.logger.info(`Batched review completed: ${allFindings.length} total findings from ${batches.length} batches`);
     return allFindings;
   }
 
+  /**
+   * Keep the summary and token usage of a completed LLM review
+   */
+  private recordLLMResult(result: LLMReviewResult): void {
+    if (result.summary && result.summary !== 'No summary provided') {
+      this.llmSummaries.push(result.summary);
+    }
+    this.tokenUsage = addTokenUsage(this.tokenUsage, result.usage);
+  }
+
   /**
    * Handle rate limit errors with multiple fallback strategies
    */
@@ -636,6 +897,7 @@ export class ReviewOrchestrator {
           }
         );
 
+        this.recordLLMResult(batchResult);
         allFindings.push(...batchResult.findings);
         this.logger.info(`Batch ${batchNumber} retry succeeded with reduced context: ${batchResult.findings.length} findings`);
         return true;
@@ -679,6 +941,7 @@ export class ReviewOrchestrator {
         }
       );
 
+      this.recordLLMResult(batchResult);
       allFindings.push(...batchResult.findings);
       this.logger.info(`Batch ${batchNumber} fallback succeeded: ${batchResult.findings.length} findings`);
       return true;
@@ -722,12 +985,14 @@ export class ReviewOrchestrator {
           }
         );
 
+        this.recordLLMResult(subBatchResult);
         allFindings.push(...subBatchResult.findings);
         successCount++;
         this.logger.info(`Sub-batch ${j + 1}/${subBatches.length} of batch ${batchNumber} succeeded`);
 
       } catch (subError) {
         this.logger.error(`Sub-batch ${j + 1} of batch ${batchNumber} failed:`, subError);
+        this.llmReviewIncomplete = true;
       }
     }
 
@@ -947,6 +1212,45 @@ export class ReviewOrchestrator {
     return findings;
   }
 
+  /**
+   * Check finding lines against the diff hunks, snapping near misses and
+   * setting aside findings that cannot be placed on a changed line
+   */
+  private anchorFindings(findings: ReviewFinding[], diffs: any): ReviewFinding[] {
+    const { anchored, unanchored, snapped } = anchorFindings(findings, diffs.files || []);
+
+    if (snapped > 0) {
+      this.logger.info(`Moved ${snapped} finding(s) to the changed line matching their code snippet`);
+    }
+    if (unanchored.length > 0) {
+      this.logger.warn(`${unanchored.length} finding(s) do not match any changed line and will be reported in the summary comment`);
+      for (const finding of unanchored) {
+        this.logger.debug(`Unanchored finding: ${finding.file}:${finding.line} ${finding.message}`);
+      }
+    }
+
+    const files = diffs.files || [];
+    let rejectedReplacements = 0;
+    // Replacements become one-click suggestions, so only ones that apply cleanly to a diff line are kept
+    const prepare = (finding: ReviewFinding, onDiffLine: boolean): ReviewFinding => {
+      const { replacement, ...rest } = finding;
+      const checked = onDiffLine ? validateReplacement(finding, files) : undefined;
+      if (replacement !== undefined && checked === undefined) {
+        rejectedReplacements++;
+      }
+      return { ...rest, ...(checked !== undefined && { replacement: checked }), fingerprint: fingerprintFinding(finding, files) };
+    };
+    const preparedUnanchored = unanchored.map(finding => prepare(finding, false));
+    const preparedAnchored = anchored.map(finding => prepare(finding, true));
+
+    if (rejectedReplacements > 0) {
+      this.logger.debug(`Dropped ${rejectedReplacements} replacement(s) that do not apply cleanly to the referenced lines`);
+    }
+
+    this.unanchoredFindings = new Set(preparedUnanchored);
+    return [...preparedAnchored, ...preparedUnanchored];
+  }
+
   /**
    * Process and filter findings
    */
@@ -964,6 +1268,101 @@ export class ReviewOrchestrator {
     return filtered;
   }
 
+  /**
+   * Drop findings whose thread a reviewer set to won't fix, closed or by design
+   */
+  private async removeSuppressedFindings(findings: ReviewFinding[], prInfo: any): Promise<ReviewFinding[]> {
+    if (!this.adoClient) {
+      throw this.errorHandler.createInternalError('ADO client not initialized');
+    }
+
+    const config = (await this.configLoader.getConfig()).suppression;
+    if (config?.enabled === false || (findings.length === 0 && !config?.acrossPullRequests)) {
+      return findings;
+    }
+
+    let suppressions: Suppression[];
+    try {
+      suppressions = findSuppressions(await this.adoClient.getCommentThreads(prInfo.pullRequestId), prInfo.pullRequestId);
+    } catch (error) {
+      this.logger.warn(`Failed to read dismissed review threads: ${(error as Error).message}`);
+      return findings;
+    }
+    const fingerprints = new Set(suppressions.map(suppression => suppression.fingerprint));
+
+    if (config?.acrossPullRequests) {
+      const store = new SuppressionStore(this.logger, config.stateFile || '.ado-review-suppressions.json');
+      const repository = `${prInfo.repository?.project?.name ?? this.adoClient.getProject()}/${prInfo.repository?.name ?? this.adoClient.getRepository()}`;
+      store.load();
+      if (!this.options.dryRun) {
+        store.record(repository, suppressions);
+      }
+      store.getFingerprints(repository).forEach(fingerprint => fingerprints.add(fingerprint));
+    }
+
+    const { kept, suppressed } = partitionSuppressed(findings, fingerprints);
+    this.suppressedCount = suppressed.length;
+    if (suppressed.length > 0) {
+      this.logger.info(`Suppressed ${suppressed.length} finding(s) that reviewers marked won't fix, closed or by design`);
+    }
+    return kept;
+  }
+
+  /**
+   * Write findings in a machine-readable report format
+   */
+  private writeReport(
+    format: ReportFormat,
+    findings: ReviewFinding[],
+    rules: LoadedRules,
+    diffs: any,
+    reviewPlan: any,
+    prInfo: any,
+    startTime: number
+  ): void {
+    if (!this.reportWriter) {
+      throw this.errorHandler.createInternalError('Report writer not initialized');
+    }
+
+    // Rule IDs must be unique in reports; later rule sets override earlier ones
+    const rulesById = new Map<string, ReviewRule>();
+    for (const ruleSet of rules.ruleSets) {
+      for (const rule of ruleSet.rules) {
+        if (rule.enabled) {
+          rulesById.set(rule.id, rule);
+        }
+      }
+    }
+
+    const reviewedFiles = (diffs.files || []).filter((file: any) => file.hunks.length > 0);
+
+    this.reportWriter.write(format, {
+      tool: this.reportWriter.getToolInfo(),
+      files: reviewedFiles.map((file: any) => file.filePath),
+      findings,
+      rules: Array.from(rulesById.values()),
+      diffs: reviewedFiles,
+      ...(this.llmSummaries.length > 0 && { summary: this.llmSummaries.join('\n\n') }),
+      run: {
+        provider: this.options.provider,
+        model: this.options.model,
+        startedAt: new Date(startTime).toISOString(),
+        durationMs: Date.now() - startTime,
+        strategy: reviewPlan.strategy,
+        batches: reviewPlan.batches?.length || 1,
+        estimatedTokens: reviewPlan.estimatedTokens,
+        ...(this.tokenUsage && { tokenUsage: this.tokenUsage }),
+        ...(prInfo && {
+          pullRequest: {
+            id: prInfo.pullRequestId,
+            title: prInfo.title,
+            ...(prInfo.repository?.remoteUrl && { url: `${prInfo.repository.remoteUrl}/pullrequest/${prInfo.pullRequestId}` })
+          }
+        })
+      }
+    }, this.options.output);
+  }
+
   /**
    * Get user approval for findings
    */
@@ -988,70 +1387,114 @@ export class ReviewOrchestrator {
   /**
    * Post comments to PR
    */
-  private async postComments(findings: ReviewFinding[], prInfo: any): Promise<number> {
+  private async postComments(findings: ReviewFinding[], prInfo: any): Promise<CommentResult | undefined> {
     if (!this.commenter || !this.resultMapper) {
       throw this.errorHandler.createInternalError('Commenter not initialized');
     }
 
     if (findings.length === 0) {
       this.logger.info('No findings to post');
-      return 0;
+      return undefined;
     }
 
-    // Map findings to comment threads
+    // Map findings to comment threads; unanchored findings only go into the summary
     const reviewResult = {
-      findings,
+      findings: findings.filter(f => !this.unanchoredFindings.has(f)),
+      unanchoredFindings: findings.filter(f => this.unanchoredFindings.has(f)),
+      ...(this.suppressedCount > 0 && { suppressedCount: this.suppressedCount }),
       metadata: {
         reviewId: Date.now().toString(),
         reviewedFiles: new Set(findings.map(f => f.file)).size,
         reviewedLines: 0, // TODO: Calculate from diff
         totalIssues: findings.length,
-        issuesBySeverity: {
-          error: findings.filter(f => f.severity === 'error').length,
-          warning: findings.filter(f => f.severity === 'warning').length,
-          info: findings.filter(f => f.severity === 'info').length
-        }
+        issuesBySeverity: computeFindingStatistics(findings).bySeverity
       }
     };
     const mappingResult = this.resultMapper.mapToCommentThreads(reviewResult);
 
     // Post comments
-    const commentResult = await this.commenter.postComments(prInfo.pullRequestId, mappingResult);
+    return this.commenter.postComments(prInfo.pullRequestId, mappingResult);
+  }
+
+  /**
+   * Reply to developer questions in ado-review threads
+   */
+  private async answerReplies(prInfo: any, iterationId?: number): Promise<ConversationResult> {
+    if (!this.conversationResponder) {
+      throw this.errorHandler.createInternalError('Conversation responder not initialized');
+    }
+
+    const config = (await this.configLoader.getConfig()).conversation;
+    if (config?.enabled === false) {
+      return { repliesPosted: 0, errors: [] };
+    }
 
-    return commentResult.commentsCreated;
+    const sourceCommit = prInfo.lastMergeSourceCommit?.commitId;
+    return this.conversationResponder.respond(prInfo.pullRequestId, {
+      model: this.options.model,
+      maxReplies: config?.maxRepliesPerRun ?? 5,
+      contextLines: config?.contextLines ?? 15,
+      dryRun: this.options.dryRun,
+      ...(iterationId !== undefined && { iterationId }),
+      ...(sourceCommit && { sourceCommit })
+    });
+  }
+
+  /**
+   * Mark earlier review threads fixed when their finding is gone from this iteration
+   */
+  private async resolveFixedThreads(findings: ReviewFinding[], prInfo: any, diffs: any): Promise<void> {
+    if (!this.commenter) {
+      throw this.errorHandler.createInternalError('Commenter not initialized');
+    }
+    if (!this.resolveFixed) {
+      return;
+    }
+
+    await this.commenter.resolveFixedThreads(
+      prInfo.pullRequestId,
+      findings,
+      diffs.files || [],
+      diffs.iterationId,
+      { dryRun: this.options.dryRun }
+    );
   }
 
   /**
    * Update PR status
    */
-  private async updatePRStatus(prInfo: any, findings: ReviewFinding[]): Promise<void> {
+  private async updatePRStatus(prInfo: any, findings: ReviewFinding[], diffs: any, startTime: number): Promise<void> {
     if (!this.options.postStatus || !this.statusReporter) {
       return;
     }
 
     const hasErrors = findings.some(f => f.severity === 'error');
 
-    // Create review summary
-    const summary = {
-      totalFindings: findings.length,
-      criticalFindings: findings.filter(f => f.severity === 'error').length,
-      majorFindings: findings.filter(f => f.severity === 'warning').length,
-      minorFindings: findings.filter(f => f.severity === 'info').length,
-      infoFindings: findings.filter(f => f.severity === 'info').length,
-      filesReviewed: new Set(findings.map(f => f.file)).size,
-      linesReviewed: 0, // TODO: Calculate from diff
-      reviewDuration: 0, // TODO: Track review duration
-      success: !hasErrors,
-      errors: []
-    };
+    const reviewedFiles = (diffs.files || []).filter((file: any) => file.hunks.length > 0);
+    const linesReviewed = reviewedFiles.reduce((total: number, file: any) =>
+      total + file.hunks.reduce((sum: number, hunk: any) => sum + hunk.newLineCount, 0), 0);
+    const summary = this.statusReporter.createSummary(findings, reviewedFiles.length, linesReviewed, Date.now() - startTime);
+
+    const targetUrl = await this.resolveStatusTargetUrl();
+    const statusOptions = targetUrl ? { targetUrl } : {};
 
     if (hasErrors) {
-      await this.statusReporter.setFailed(prInfo.pullRequestId, summary);
+      await this.statusReporter.setFailed(prInfo.pullRequestId, summary, statusOptions);
     } else {
-      await this.statusReporter.setSuccess(prInfo.pullRequestId, summary);
+      await this.statusReporter.setSuccess(prInfo.pullRequestId, summary, statusOptions);
     }
   }
 
+  /**
+   * Pick the PR status link: --report-url, then status.targetUrl from config, then the
+   * build artifacts page when an HTML report is produced inside Azure Pipelines
+   */
+  private async resolveStatusTargetUrl(): Promise<string | undefined> {
+    const statusConfig = await this.configLoader.getStatusConfig();
+    const pipelineReport = this.options.format === 'html' && process.env['TF_BUILD'] ? PIPELINE_ARTIFACTS_URL : undefined;
+    return this.statusReporter!.resolveTargetUrl(this.options.reportUrl ?? statusConfig?.targetUrl ?? pipelineReport);
+  }
+
   /**
    * Display findings in console
    */
@@ -1186,6 +1629,7 @@ export class ReviewOrchestrator {
 
       // Approve the PR
       await this.adoClient.approvePullRequest(prId, userId);
+      this.pullRequestApproved = true;
 
       this.logger.info(`Successfully approved PR ${prId}`);
     } catch (error) {
@@ -1200,9 +1644,8 @@ export class ReviewOrchestrator {
       return;
     }
 
-    if (this.options.format === 'json') {
-      console.log(JSON.stringify(findings, null, 2));
-    } else {
+    // Report formats are printed by writeReport unless they go to a file
+    if (this.options.format === 'table' || this.options.output) {
       this.logger.table(findings.map(f => ({
         File: f.file,
         Line: f.line,
@@ -1,6 +1,13 @@
 import { Logger } from './logger';
 import { ErrorHandler } from './errorHandler';
 import { ADOClient } from './adoClient';
+import { ReviewFinding } from './llm/types';
+import { computeFindingStatistics } from './findingStats';
+
+/**
+ * Build results page of the current Azure Pipelines run, where published artifacts are listed
+ */
+export const PIPELINE_ARTIFACTS_URL = '${SYSTEM_COLLECTIONURI}${SYSTEM_TEAMPROJECT}/_build/results?buildId=${BUILD_BUILDID}&view=artifacts';
 
 export interface StatusOptions {
   enabled: boolean;
@@ -315,7 +322,7 @@ export class StatusReporter {
           this.logger.debug(`Updating existing status ${existingStatus.id}`);
           // Update existing status
           const updatedStatus = await this.retryOperation(
-            () => this.adoClient.updatePullRequestStatus(pullRequestId, String(existingStatus.id!), status.state as 'pending' | 'succeeded' | 'failed' | 'error', status.description),
+            () => this.adoClient.updatePullRequestStatus(pullRequestId, String(existingStatus.id!), status.state as 'pending' | 'succeeded' | 'failed' | 'error', status.description, status.targetUrl),
             options.retryAttempts,
             options.retryDelay,
             'update status'
@@ -484,29 +491,30 @@ export class StatusReporter {
   }
 
   /**
-   * Create review summary from results
+   * Create review summary from results.
+   * Errors count as critical, warnings as major and info findings as info.
    */
   public createSummary(
-    findings: Array<{ severity: string }>,
+    findings: ReviewFinding[],
     filesReviewed: number,
     linesReviewed: number,
     reviewDuration: number,
     errors: string[] = []
   ): ReviewSummary {
-    const summary: ReviewSummary = {
-      totalFindings: findings.length,
-      criticalFindings: findings.filter(f => f.severity === 'critical').length,
-      majorFindings: findings.filter(f => f.severity === 'major').length,
-      minorFindings: findings.filter(f => f.severity === 'minor').length,
-      infoFindings: findings.filter(f => f.severity === 'info').length,
+    const { totalFindings, bySeverity } = computeFindingStatistics(findings);
+
+    return {
+      totalFindings,
+      criticalFindings: bySeverity.error,
+      majorFindings: bySeverity.warning,
+      minorFindings: 0,
+      infoFindings: bySeverity.info,
       filesReviewed,
       linesReviewed,
       reviewDuration,
       success: errors.length === 0,
       errors
     };
-    
-    return summary;
   }
 
   /**
@@ -560,6 +568,37 @@ export class StatusReporter {
     };
   }
 
+  /**
+   * Expand ${VAR} placeholders in a status target URL from the environment.
+   * Returns undefined when a variable is not set or the result is not a valid URL.
+   */
+  public resolveTargetUrl(template: string | null | undefined, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    if (!template) {
+      return undefined;
+    }
+
+    const missing: string[] = [];
+    const url = template.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+      const value = env[name];
+      if (value === undefined || value === '') {
+        missing.push(name);
+        return '';
+      }
+      return value;
+    });
+
+    if (missing.length > 0) {
+      this.logger.warn(`Status target URL not set: environment variable(s) ${missing.join(', ')} not defined`);
+      return undefined;
+    }
+    if (!this.isValidUrl(url)) {
+      this.logger.warn(`Status target URL is not a valid URL: ${url}`);
+      return undefined;
+    }
+
+    return url;
+  }
+
   /**
    * Check if URL is valid
    */
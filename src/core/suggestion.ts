@@ -0,0 +1,125 @@
+import { FileDiff } from './diffFetcher';
+import { ReviewFinding } from './llm/types';
+import { normalizePath } from './filePath';
+
+/**
+ * Checks model-provided replacements against the lines they replace, so that the
+ * Azure DevOps suggestion block built from them applies cleanly with one click.
+ */
+
+// Longer replacements are rewrites rather than suggestions
+const MAX_REPLACEMENT_LINES = 50;
+
+/**
+ * The finding's replacement, cleaned up, or undefined when it would not apply cleanly
+ */
+export function validateReplacement(finding: ReviewFinding, files: FileDiff[]): string | undefined {
+  if (finding.replacement === undefined) {
+    return undefined;
+  }
+
+  const file = files.find(candidate =>
+    candidate.changeType !== 'delete' && normalizePath(candidate.filePath) === normalizePath(finding.file)
+  );
+  const lines = file ? newSideLines(file) : new Map<number, string>();
+  const endLine = finding.endLine ?? finding.line;
+  const original: string[] = [];
+  for (let line = finding.line; line <= endLine; line++) {
+    const text = lines.get(line);
+    if (text === undefined) {
+      // Lines outside the diff cannot be compared
+      return undefined;
+    }
+    original.push(text);
+  }
+
+  let replacement = splitReplacement(finding.replacement);
+  if (replacement.length === 0 || replacement.length > MAX_REPLACEMENT_LINES || replacement.some(line => line.includes('```'))) {
+    return undefined;
+  }
+
+  // Diff markers copied from the prompt
+  if (replacement.every(line => line.startsWith('+')) && !original.every(line => line.startsWith('+'))) {
+    replacement = replacement.map(line => line.substring(1));
+  }
+  replacement = restoreIndentation(replacement, original);
+
+  if (sameCode(replacement, original)) {
+    return undefined;
+  }
+
+  // Replacements that repeat the surrounding lines would duplicate them when applied
+  const before = lines.get(finding.line - 1);
+  const after = lines.get(endLine + 1);
+  if (
+    (before?.trim() && normalizeText(replacement[0]!) === normalizeText(before) && normalizeText(original[0]!) !== normalizeText(before)) ||
+    (after?.trim() && normalizeText(replacement[replacement.length - 1]!) === normalizeText(after) &&
+      normalizeText(original[original.length - 1]!) !== normalizeText(after))
+  ) {
+    return undefined;
+  }
+
+  return replacement.join('\n');
+}
+
+/**
+ * Split a replacement into lines, unwrapping a Markdown code fence
+ */
+function splitReplacement(text: string): string[] {
+  const trimBlankLines = (lines: string[]) => {
+    while (lines.length > 0 && !lines[lines.length - 1]!.trim()) {
+      lines.pop();
+    }
+    while (lines.length > 0 && !lines[0]!.trim()) {
+      lines.shift();
+    }
+    return lines;
+  };
+
+  let lines = trimBlankLines(text.replace(/\r\n?/g, '\n').split('\n'));
+  if (lines.length >= 2 && /^\s*```[\w+-]*\s*$/.test(lines[0]!) && /^\s*```\s*$/.test(lines[lines.length - 1]!)) {
+    lines = trimBlankLines(lines.slice(1, -1));
+  }
+  return lines.map(line => line.replace(/\s+$/, ''));
+}
+
+/**
+ * Models often drop the leading indentation of nested code; re-indent to match the original lines
+ */
+function restoreIndentation(replacement: string[], original: string[]): string[] {
+  const originalIndent = commonIndent(original);
+  if (!originalIndent || commonIndent(replacement) !== '') {
+    return replacement;
+  }
+  return replacement.map(line => (line.trim() ? originalIndent + line : line));
+}
+
+function commonIndent(lines: string[]): string {
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0]);
+  if (indents.length === 0) {
+    return '';
+  }
+  return indents.reduce((shortest, indent) => (indent.length < shortest.length ? indent : shortest));
+}
+
+function sameCode(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line.trimEnd() === b[index]!.trimEnd());
+}
+
+function newSideLines(file: FileDiff): Map<number, string> {
+  const lines = new Map<number, string>();
+  for (const hunk of file.hunks) {
+    let line = hunk.newLineStart;
+    for (const raw of hunk.content.split('\n')) {
+      if (raw.startsWith('+') || raw.startsWith(' ')) {
+        lines.set(line, raw.substring(1));
+        line++;
+      }
+    }
+  }
+  return lines;
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
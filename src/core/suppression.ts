@@ -0,0 +1,140 @@
+import { Logger } from './logger';
+import { JsonStateFile } from './jsonStateFile';
+import { CommentThread } from './adoClient';
+import { ReviewFinding } from './llm/types';
+import { getThreadProperty } from './threadResolution';
+import { FINGERPRINTS_PROPERTY, parseFingerprints } from './fingerprint';
+
+/**
+ * Findings reviewers dismissed by setting an ado-review thread to "won't fix", "closed" or
+ * "by design". They are keyed by fingerprint so the same finding is not posted again.
+ */
+
+/** Thread statuses that mean a reviewer rejected the finding */
+export const SUPPRESSING_STATUSES: ReadonlySet<string> = new Set(['wontFix', 'closed', 'byDesign']);
+
+export interface Suppression {
+  fingerprint: string;
+  filePath?: string;
+  /** Thread status the reviewer chose */
+  status: string;
+  pullRequestId: number;
+  threadId: number;
+}
+
+export interface SuppressedFinding {
+  filePath?: string;
+  status: string;
+  pullRequestId: number;
+  threadId: number;
+  recordedAt: string;
+}
+
+interface SuppressionFile {
+  version: 1;
+  /** Suppressed findings per "project/repository", keyed by fingerprint */
+  repositories: Record<string, Record<string, SuppressedFinding>>;
+}
+
+/**
+ * Fingerprints of the findings in dismissed ado-review threads of a pull request
+ */
+export function findSuppressions(threads: CommentThread[], pullRequestId: number): Suppression[] {
+  const suppressions: Suppression[] = [];
+
+  for (const thread of threads) {
+    const type = getThreadProperty(thread.properties, 'ado-review.type');
+    if (thread.isDeleted || !SUPPRESSING_STATUSES.has(thread.status) || (type !== 'line-group' && type !== 'severity-group')) {
+      continue;
+    }
+
+    const context = thread.threadContext ?? thread.context;
+    const filePath = context?.filePath || getThreadProperty(thread.properties, 'ado-review.file');
+    for (const fingerprint of parseFingerprints(getThreadProperty(thread.properties, FINGERPRINTS_PROPERTY))) {
+      suppressions.push({
+        fingerprint,
+        ...(filePath && { filePath }),
+        status: thread.status,
+        pullRequestId,
+        threadId: thread.id
+      });
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * Split findings into the ones to report and the ones a reviewer already dismissed
+ */
+export function partitionSuppressed(
+  findings: ReviewFinding[],
+  fingerprints: ReadonlySet<string>
+): { kept: ReviewFinding[]; suppressed: ReviewFinding[] } {
+  const kept: ReviewFinding[] = [];
+  const suppressed: ReviewFinding[] = [];
+  for (const finding of findings) {
+    (finding.fingerprint && fingerprints.has(finding.fingerprint) ? suppressed : kept).push(finding);
+  }
+  return { kept, suppressed };
+}
+
+/**
+ * Dismissed findings per repository, persisted to a local JSON file so that they stay
+ * suppressed on later pull requests touching the same code
+ */
+export class SuppressionStore {
+  private logger: Logger;
+  private file: JsonStateFile<SuppressionFile>;
+  private repositories: Map<string, Map<string, SuppressedFinding>> = new Map();
+
+  constructor(logger: Logger, filePath: string) {
+    this.logger = logger;
+    this.file = new JsonStateFile(logger, filePath, 'suppression file');
+  }
+
+  /**
+   * Read the suppression file; a missing or unreadable file starts empty
+   */
+  public load(): void {
+    this.repositories.clear();
+    const parsed = this.file.read();
+    for (const [repository, entries] of Object.entries(parsed?.repositories ?? {})) {
+      const valid = Object.entries(entries ?? {}).filter(([, entry]) => entry && typeof entry.status === 'string');
+      this.repositories.set(repository, new Map(valid));
+    }
+  }
+
+  public getFingerprints(repository: string): Set<string> {
+    return new Set(this.repositories.get(repository)?.keys());
+  }
+
+  /**
+   * Remember newly dismissed findings and persist them; returns how many were new
+   */
+  public record(repository: string, suppressions: Suppression[]): number {
+    const entries = this.repositories.get(repository) ?? new Map<string, SuppressedFinding>();
+    let added = 0;
+    for (const { fingerprint, ...suppression } of suppressions) {
+      if (!entries.has(fingerprint)) {
+        entries.set(fingerprint, { ...suppression, recordedAt: new Date().toISOString() });
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      this.repositories.set(repository, entries);
+      this.save();
+      this.logger.debug(`Recorded ${added} suppressed finding(s) for ${repository} in ${this.file.path}`);
+    }
+    return added;
+  }
+
+  private save(): void {
+    const repositories: SuppressionFile['repositories'] = {};
+    for (const [repository, entries] of this.repositories) {
+      repositories[repository] = Object.fromEntries(entries);
+    }
+    this.file.write({ version: 1, repositories });
+  }
+}
@@ -0,0 +1,181 @@
+import { CommentThread } from './adoClient';
+import { FileDiff } from './diffFetcher';
+import { ReviewFinding } from './llm/types';
+import { FINGERPRINTS_PROPERTY, parseFingerprints } from './fingerprint';
+import { normalizePath } from './filePath';
+
+/**
+ * Decides which previously posted ado-review threads no longer apply to the latest iteration.
+ * A thread is only judged when the current review actually looked at its lines; everything
+ * else is left alone because the absence of a finding there proves nothing.
+ */
+
+export type ThreadResolutionReason = 'fixed' | 'linesDeleted' | 'fileDeleted';
+
+export interface TrackedThread {
+  id: number;
+  type: 'line-group' | 'severity-group';
+  filePath: string;
+  /** Right-side position in the reviewed iteration; undefined once the lines were deleted */
+  startLine?: number;
+  endLine?: number;
+  ruleIds: string[];
+  fingerprints: string[];
+  /** Finding messages parsed from the thread's comments */
+  messages: string[];
+}
+
+export interface ThreadResolution {
+  thread: TrackedThread;
+  reason: ThreadResolutionReason;
+}
+
+// New findings this many lines away from a tracked thread still count as the same issue
+const LINE_TOLERANCE = 3;
+// Minimum word overlap for two finding messages to describe the same issue
+const MIN_MESSAGE_SIMILARITY = 0.5;
+
+const FINDING_HEADER = /^(?:🚨|⚠️|ℹ️) \*\*(?:Error|Warning|Info)\*\*$/;
+const RULE_ID_PATTERN = /Rule: `([^`]+)`/;
+
+/**
+ * Read a thread property; the REST API wraps values as { $type, $value }
+ */
+export function getThreadProperty(properties: Record<string, any> | undefined, key: string): string | undefined {
+  const entry = properties?.[key];
+  const value = entry !== null && typeof entry === 'object' ? entry.$value : entry;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Active finding thread posted by ado-review, or undefined for any other thread
+ */
+export function toTrackedThread(thread: CommentThread): TrackedThread | undefined {
+  const type = getThreadProperty(thread.properties, 'ado-review.type');
+  if (thread.isDeleted || thread.status !== 'active' || (type !== 'line-group' && type !== 'severity-group')) {
+    return undefined;
+  }
+
+  const context = thread.threadContext ?? thread.context;
+  const filePath = context?.filePath || getThreadProperty(thread.properties, 'ado-review.file');
+  if (!filePath) {
+    return undefined;
+  }
+
+  const ruleIds = new Set((getThreadProperty(thread.properties, 'ado-review.ruleIds') ?? '').split(',').filter(Boolean));
+  const messages: string[] = [];
+  for (const comment of thread.comments ?? []) {
+    const lines = (comment.content ?? '').split('\n');
+    if (!FINDING_HEADER.test(lines[0]?.trim() ?? '')) {
+      continue;
+    }
+    if (lines[1]?.trim()) {
+      messages.push(lines[1].trim());
+    }
+    const ruleId = comment.content.match(RULE_ID_PATTERN)?.[1];
+    if (ruleId) {
+      ruleIds.add(ruleId);
+    }
+  }
+
+  const startLine = context?.rightFileStart?.line;
+  return {
+    id: thread.id,
+    type,
+    filePath,
+    ...(startLine !== undefined && { startLine, endLine: context?.rightFileEnd?.line ?? startLine }),
+    ruleIds: [...ruleIds],
+    fingerprints: parseFingerprints(getThreadProperty(thread.properties, FINGERPRINTS_PROPERTY)),
+    messages
+  };
+}
+
+/**
+ * Threads whose finding no longer reproduces, or whose code is gone, in the reviewed diff
+ */
+export function findResolvedThreads(threads: TrackedThread[], findings: ReviewFinding[], files: FileDiff[]): ThreadResolution[] {
+  const filesByPath = new Map(files.map(file => [normalizePath(file.filePath), file]));
+  const resolutions: ThreadResolution[] = [];
+
+  for (const thread of threads) {
+    const file = filesByPath.get(normalizePath(thread.filePath));
+    if (file?.changeType === 'delete') {
+      resolutions.push({ thread, reason: 'fileDeleted' });
+      continue;
+    }
+    if (thread.startLine === undefined) {
+      resolutions.push({ thread, reason: 'linesDeleted' });
+      continue;
+    }
+    if (!file || !wasReviewed(thread, file)) {
+      continue;
+    }
+    if (!findings.some(finding => reproduces(thread, finding))) {
+      resolutions.push({ thread, reason: 'fixed' });
+    }
+  }
+
+  return resolutions;
+}
+
+/**
+ * Short reply posted before a thread is marked fixed
+ */
+export function createResolutionReply(reason: ThreadResolutionReason, iterationId?: number): string {
+  const iteration = iterationId !== undefined ? `iteration ${iterationId}` : 'the latest iteration';
+  switch (reason) {
+    case 'fileDeleted':
+      return `✅ The file was deleted in ${iteration}. Resolving this thread.`;
+    case 'linesDeleted':
+      return `✅ The flagged lines were removed in ${iteration}. Resolving this thread.`;
+    default:
+      return `✅ This issue no longer reproduces in ${iteration}. Resolving this thread.`;
+  }
+}
+
+/**
+ * The reviewer only saw the diff hunks, so only threads inside them were re-checked
+ */
+function wasReviewed(thread: TrackedThread, file: FileDiff): boolean {
+  const start = thread.startLine ?? 0;
+  const end = thread.endLine ?? start;
+  return file.hunks.some(hunk =>
+    hunk.newLineCount > 0 && start <= hunk.newLineStart + hunk.newLineCount - 1 && end >= hunk.newLineStart
+  );
+}
+
+function reproduces(thread: TrackedThread, finding: ReviewFinding): boolean {
+  if (normalizePath(finding.file) !== normalizePath(thread.filePath)) {
+    return false;
+  }
+  if (finding.fingerprint && thread.fingerprints.includes(finding.fingerprint)) {
+    return true;
+  }
+
+  // Severity groups collect findings from the whole file, so their position says little
+  if (thread.type === 'line-group') {
+    const start = (thread.startLine ?? 0) - LINE_TOLERANCE;
+    const end = (thread.endLine ?? thread.startLine ?? 0) + LINE_TOLERANCE;
+    if (finding.line > end || (finding.endLine ?? finding.line) < start) {
+      return false;
+    }
+  }
+
+  if (thread.ruleIds.length > 0 && finding.ruleId) {
+    return thread.ruleIds.includes(finding.ruleId);
+  }
+  if (thread.messages.length > 0) {
+    return thread.messages.some(message => similarity(message, finding.message) >= MIN_MESSAGE_SIMILARITY);
+  }
+  // Nothing to compare against: any finding nearby keeps the thread open
+  return true;
+}
+
+function similarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const intersection = [...wordsA].filter(word => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union === 0 ? 1 : intersection / union;
+}
@@ -0,0 +1,86 @@
+import { Logger } from './logger';
+import { JsonStateFile } from './jsonStateFile';
+
+export interface WatchedPullRequest {
+  /** Last iteration ado-review reviewed or found already reviewed */
+  iteration: number;
+  /** Source commit of that iteration; lets polls skip unchanged PRs without extra requests */
+  sourceCommit?: string;
+  updatedAt: string;
+}
+
+interface WatchStateFile {
+  version: 1;
+  pullRequests: Record<string, WatchedPullRequest>;
+}
+
+/**
+ * Reviewed iterations per pull request, persisted to a local JSON file so that
+ * a restarted watcher does not review unchanged pull requests again
+ */
+export class WatchStateStore {
+  private logger: Logger;
+  private file: JsonStateFile<WatchStateFile>;
+  private pullRequests: Map<string, WatchedPullRequest> = new Map();
+
+  constructor(logger: Logger, filePath: string) {
+    this.logger = logger;
+    this.file = new JsonStateFile(logger, filePath, 'watch state');
+  }
+
+  /**
+   * Read the state file; a missing or unreadable file starts with an empty state
+   */
+  public load(): void {
+    this.pullRequests.clear();
+    const parsed = this.file.read();
+    if (!parsed) {
+      return;
+    }
+
+    for (const [key, entry] of Object.entries(parsed.pullRequests ?? {})) {
+      if (entry && Number.isInteger(entry.iteration)) {
+        this.pullRequests.set(key, entry);
+      }
+    }
+    this.logger.info(`Loaded watch state for ${this.pullRequests.size} pull request(s) from ${this.file.path}`);
+  }
+
+  public get(key: string): WatchedPullRequest | undefined {
+    return this.pullRequests.get(key);
+  }
+
+  /**
+   * Remember the reviewed iteration and persist the state immediately
+   */
+  public record(key: string, iteration: number, sourceCommit?: string): void {
+    this.pullRequests.set(key, {
+      iteration,
+      ...(sourceCommit && { sourceCommit }),
+      updatedAt: new Date().toISOString()
+    });
+    this.save();
+  }
+
+  /**
+   * Forget pull requests that are no longer active
+   */
+  public retain(activeKeys: Iterable<string>): void {
+    const active = new Set(activeKeys);
+    let removed = 0;
+    for (const key of [...this.pullRequests.keys()]) {
+      if (!active.has(key)) {
+        this.pullRequests.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.logger.debug(`Dropped ${removed} inactive pull request(s) from watch state`);
+      this.save();
+    }
+  }
+
+  private save(): void {
+    this.file.write({ version: 1, pullRequests: Object.fromEntries(this.pullRequests) });
+  }
+}
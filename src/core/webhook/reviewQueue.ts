@@ -0,0 +1,149 @@
+import { Logger } from '../logger';
+
+export interface QueuedReview {
+  /** Identifies the pull request; events with the same key are coalesced */
+  key: string;
+  /** Head commit of the source branch, when known */
+  sourceCommit?: string;
+}
+
+export type EnqueueResult = 'queued' | 'updated' | 'skipped';
+
+export interface ReviewQueueOptions {
+  /** Wait this long after the last event for a PR before reviewing it */
+  debounceMs: number;
+  maxConcurrent: number;
+}
+
+interface PendingReview<T> {
+  job: T;
+  timer: NodeJS.Timeout | undefined;
+  due: boolean;
+}
+
+/**
+ * Debounced review queue: rapid successive pushes to the same PR collapse into one review
+ * of the latest event, and a PR is never reviewed twice at the same time.
+ */
+export class ReviewQueue<T extends QueuedReview> {
+  private logger: Logger;
+  private runner: (job: T) => Promise<void>;
+  private options: ReviewQueueOptions;
+  private pending: Map<string, PendingReview<T>> = new Map();
+  private running: Map<string, T> = new Map();
+  // Source commit last reviewed (or being reviewed) per PR
+  private reviewedCommits: Map<string, string> = new Map();
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(logger: Logger, runner: (job: T) => Promise<void>, options: ReviewQueueOptions) {
+    this.logger = logger;
+    this.runner = runner;
+    this.options = options;
+  }
+
+  /**
+   * Queue a review, replacing a review of the same PR that has not started yet
+   */
+  public enqueue(job: T): EnqueueResult {
+    const existing = this.pending.get(job.key);
+    if (existing) {
+      clearTimeout(existing.timer);
+      this.pending.set(job.key, this.schedule(job));
+      this.logger.debug(`Review of ${job.key} postponed by a newer event`);
+      return 'updated';
+    }
+
+    if (job.sourceCommit && this.reviewedCommits.get(job.key) === job.sourceCommit) {
+      this.logger.debug(`Commit ${job.sourceCommit} of ${job.key} already reviewed, skipping`);
+      return 'skipped';
+    }
+
+    this.pending.set(job.key, this.schedule(job));
+    return 'queued';
+  }
+
+  public get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  public get runningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Resolves once nothing is pending or running
+   */
+  public onIdle(): Promise<void> {
+    if (this.pending.size === 0 && this.running.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Drop reviews that have not started yet
+   */
+  public clear(): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.pending.clear();
+    this.notifyIdle();
+  }
+
+  private schedule(job: T): PendingReview<T> {
+    const entry: PendingReview<T> = { job, timer: undefined, due: false };
+    entry.timer = setTimeout(() => {
+      entry.due = true;
+      this.pump();
+    }, this.options.debounceMs);
+    return entry;
+  }
+
+  private pump(): void {
+    for (const [key, entry] of this.pending) {
+      if (this.running.size >= this.options.maxConcurrent) {
+        return;
+      }
+      if (!entry.due || this.running.has(key)) {
+        continue;
+      }
+
+      this.pending.delete(key);
+      void this.start(entry.job);
+    }
+  }
+
+  private async start(job: T): Promise<void> {
+    this.running.set(job.key, job);
+    const previousCommit = this.reviewedCommits.get(job.key);
+    if (job.sourceCommit) {
+      this.reviewedCommits.set(job.key, job.sourceCommit);
+    }
+
+    try {
+      await this.runner(job);
+    } catch (error) {
+      // Let the next event for this commit trigger another attempt
+      if (previousCommit !== undefined) {
+        this.reviewedCommits.set(job.key, previousCommit);
+      } else {
+        this.reviewedCommits.delete(job.key);
+      }
+      this.logger.error(`Review of ${job.key} failed: ${(error as Error).message}`);
+    } finally {
+      this.running.delete(job.key);
+      this.pump();
+      this.notifyIdle();
+    }
+  }
+
+  private notifyIdle(): void {
+    if (this.pending.size > 0 || this.running.size > 0) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,145 @@
+import { timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { parseAzureDevOpsUrl } from '../adoUrl';
+import { WebhookRepositoryConfig } from '../configLoader';
+
+/**
+ * Azure DevOps service hook payloads ("Web Hooks" consumer) for pull request events
+ */
+
+export const PULL_REQUEST_EVENTS = ['git.pullrequest.created', 'git.pullrequest.updated'];
+/** Someone commented on a pull request; used to answer replies in review threads */
+export const PULL_REQUEST_COMMENT_EVENT = 'ms.vss-code.git-pullrequest-comment-event';
+
+export interface PullRequestEvent {
+  eventType: string;
+  /** Pull request web URL understood by `review --pr-url` */
+  prUrl: string;
+  collectionUrl: string;
+  project: string;
+  repo: string;
+  pullRequestId: number;
+  /** Head commit of the source branch; used to skip updates that did not push code */
+  sourceCommit?: string;
+}
+
+export type ParsedServiceHook =
+  | { kind: 'pullRequest'; event: PullRequestEvent }
+  | { kind: 'ignored'; reason: string };
+
+export interface WebhookCredentials {
+  /** Shared secret expected in `secretHeader` */
+  secret?: string;
+  /** Header carrying the shared secret (service hooks send it as a custom HTTP header) */
+  secretHeader: string;
+  /** Basic authentication configured on the service hook subscription */
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Parse a service hook payload; anything other than an active pull request event is ignored
+ */
+export function parseServiceHookPayload(payload: unknown): ParsedServiceHook {
+  type PullRequestResource = {
+    pullRequestId?: unknown;
+    status?: unknown;
+    repository?: { name?: unknown; remoteUrl?: unknown; project?: { name?: unknown } };
+    lastMergeSourceCommit?: { commitId?: unknown };
+  };
+  const body = payload as {
+    eventType?: unknown;
+    resource?: PullRequestResource & { pullRequest?: PullRequestResource };
+  } | null;
+
+  const eventType = typeof body?.eventType === 'string' ? body.eventType : undefined;
+  if (!eventType || !(PULL_REQUEST_EVENTS.includes(eventType) || eventType === PULL_REQUEST_COMMENT_EVENT)) {
+    return { kind: 'ignored', reason: `Unsupported event type: ${eventType ?? 'none'}` };
+  }
+
+  // Comment events carry the pull request next to the comment
+  const resource = eventType === PULL_REQUEST_COMMENT_EVENT ? body?.resource?.pullRequest : body?.resource;
+  const pullRequestId = Number(resource?.pullRequestId);
+  const remoteUrl = resource?.repository?.remoteUrl;
+  if (!Number.isInteger(pullRequestId) || pullRequestId <= 0 || typeof remoteUrl !== 'string') {
+    return { kind: 'ignored', reason: 'Payload does not contain a pull request and repository' };
+  }
+  if (resource?.status !== undefined && resource.status !== 'active') {
+    return { kind: 'ignored', reason: `Pull request ${pullRequestId} is ${String(resource.status)}` };
+  }
+
+  const repoInfo = parseAzureDevOpsUrl(remoteUrl);
+  if (!repoInfo) {
+    return { kind: 'ignored', reason: `Unrecognized repository URL: ${remoteUrl}` };
+  }
+
+  const sourceCommit = resource?.lastMergeSourceCommit?.commitId;
+  const prUrl = [
+    repoInfo.collectionUrl,
+    encodeURIComponent(repoInfo.project),
+    '_git',
+    encodeURIComponent(repoInfo.repo),
+    'pullrequest',
+    String(pullRequestId)
+  ].join('/');
+
+  return {
+    kind: 'pullRequest',
+    event: {
+      eventType,
+      prUrl,
+      collectionUrl: repoInfo.collectionUrl,
+      project: repoInfo.project,
+      repo: repoInfo.repo,
+      pullRequestId,
+      ...(typeof sourceCommit === 'string' && sourceCommit && { sourceCommit })
+    }
+  };
+}
+
+/**
+ * Check the shared secret header or basic authentication of a webhook request
+ */
+export function verifyWebhookRequest(headers: IncomingHttpHeaders, credentials: WebhookCredentials): boolean {
+  if (credentials.secret) {
+    const provided = headers[credentials.secretHeader.toLowerCase()];
+    if (typeof provided === 'string' && safeEqual(provided, credentials.secret)) {
+      return true;
+    }
+  }
+
+  if (credentials.username && credentials.password) {
+    const authorization = headers.authorization;
+    const match = authorization?.match(/^Basic\s+(.+)$/i);
+    if (match?.[1]) {
+      const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+      return safeEqual(decoded, `${credentials.username}:${credentials.password}`);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Look up repository options by "project/repo", then "repo", then "*"; names compare case-insensitively like Azure DevOps
+ */
+export function resolveRepositoryConfig(
+  repositories: Record<string, WebhookRepositoryConfig> | undefined,
+  project: string,
+  repo: string
+): WebhookRepositoryConfig {
+  const entries = Object.entries(repositories ?? {});
+  for (const key of [`${project}/${repo}`, repo, '*']) {
+    const match = entries.find(([name]) => name.toLowerCase() === key.toLowerCase());
+    if (match) {
+      return match[1] ?? {};
+    }
+  }
+  return {};
+}
+
+function safeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
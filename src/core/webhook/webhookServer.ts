@@ -0,0 +1,175 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '../logger';
+import { ErrorHandler } from '../errorHandler';
+import { ReviewQueue, QueuedReview } from './reviewQueue';
+import {
+  PULL_REQUEST_COMMENT_EVENT,
+  PullRequestEvent,
+  WebhookCredentials,
+  parseServiceHookPayload,
+  verifyWebhookRequest
+} from './serviceHook';
+
+export interface WebhookReview extends QueuedReview {
+  event: PullRequestEvent;
+}
+
+export interface WebhookServerOptions {
+  port: number;
+  host: string;
+  path: string;
+  maxBodyBytes: number;
+  credentials: WebhookCredentials;
+}
+
+class HttpError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Receives Azure DevOps service hook events and queues pull request reviews
+ */
+export class WebhookServer {
+  private logger: Logger;
+  private errorHandler: ErrorHandler;
+  private options: WebhookServerOptions;
+  private queue: ReviewQueue<WebhookReview>;
+  private server: http.Server | undefined;
+
+  constructor(logger: Logger, errorHandler: ErrorHandler, options: WebhookServerOptions, queue: ReviewQueue<WebhookReview>) {
+    this.logger = logger;
+    this.errorHandler = errorHandler;
+    this.options = options;
+    this.queue = queue;
+  }
+
+  /**
+   * Start listening; resolves with the bound port
+   */
+  public async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.logger.error(`Webhook request failed: ${(error as Error).message}`);
+        this.sendJson(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.options.port, this.options.host, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      throw this.errorHandler.createUserError(
+        `Cannot listen on ${this.options.host}:${this.options.port}: ${(error as Error).message}`,
+        {
+          operation: 'start',
+          component: 'WebhookServer',
+          metadata: { port: this.options.port, host: this.options.host }
+        }
+      );
+    }
+
+    this.server = server;
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.options.port;
+    this.logger.info(`Listening for Azure DevOps service hooks on http://${this.options.host}:${port}${this.options.path}`);
+    return port;
+  }
+
+  /**
+   * Stop accepting requests; queued reviews are left to the caller
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'GET' && pathname === '/health') {
+      this.sendJson(res, 200, { status: 'ok', pending: this.queue.pendingCount, running: this.queue.runningCount });
+      return;
+    }
+    if (pathname !== this.options.path) {
+      this.sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    if (!verifyWebhookRequest(req.headers, this.options.credentials)) {
+      this.logger.warn(`Rejected unauthenticated webhook request from ${req.socket.remoteAddress}`);
+      this.sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 400;
+      this.sendJson(res, status, { error: error instanceof HttpError ? error.message : 'Invalid JSON payload' });
+      return;
+    }
+
+    const parsed = parseServiceHookPayload(payload);
+    if (parsed.kind === 'ignored') {
+      this.logger.debug(`Ignoring service hook event: ${parsed.reason}`);
+      this.sendJson(res, 202, { status: 'ignored', reason: parsed.reason });
+      return;
+    }
+
+    const { event } = parsed;
+    const key = `${event.collectionUrl}/${event.project}/${event.repo}#${event.pullRequestId}`.toLowerCase();
+    // Replies are answered separately from reviews so neither replaces the other in the queue,
+    // and they are not tied to a source commit
+    const result = event.eventType === PULL_REQUEST_COMMENT_EVENT
+      ? this.queue.enqueue({ key: `${key}#comments`, event })
+      : this.queue.enqueue({ key, ...(event.sourceCommit && { sourceCommit: event.sourceCommit }), event });
+    this.logger.info(`${event.eventType} for PR ${event.pullRequestId} in ${event.project}/${event.repo}: ${result}`);
+    this.sendJson(res, 202, { status: result, pullRequestId: event.pullRequestId });
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.options.maxBodyBytes) {
+          reject(new HttpError(413, 'Payload too large'));
+          // Discard the rest of the body so the response can still be sent
+          req.removeAllListeners('data');
+          req.resume();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -13,6 +13,8 @@ export interface WorkspaceOptions {
   includePatterns: string[];
   cleanupOnError: boolean;
   createSubdirs: boolean;
+  /** Remove the workspace on exit, signals and uncaught errors; only for processes that run a single review */
+  handleProcessExit: boolean;
 }
 
 export interface WorkspaceInfo {
@@ -47,6 +49,7 @@ export class Workspace {
   private createdFiles: Set<string> = new Set();
   private createdDirs: Set<string> = new Set();
   private cleanupHandlers: Array<() => Promise<void>> = [];
+  private processListeners: Array<[string, (...args: any[]) => void]> = [];
 
   constructor(logger: Logger, errorHandler: ErrorHandler, options: Partial<WorkspaceOptions> = {}) {
     this.logger = logger;
@@ -71,11 +74,12 @@ export class Workspace {
       includePatterns: ['**/*'],
       cleanupOnError: true,
       createSubdirs: true,
+      handleProcessExit: false,
       ...options
     };
 
-    // Register cleanup on process exit
-    if (!this.options.keepOnExit) {
+    // Register cleanup on process exit; the handlers exit the process, so long-running commands leave them out
+    if (this.options.handleProcessExit && !this.options.keepOnExit) {
       this.registerCleanupHandlers();
     }
   }
@@ -338,6 +342,7 @@ export class Workspace {
       this.createdFiles.clear();
       this.createdDirs.clear();
       this.workspacePath = null;
+      this.unregisterCleanupHandlers();
 
       if (result.errors.length === 0) {
         this.logger.info(`Workspace cleanup completed: ${result.deletedFiles} files, ${result.deletedDirs} directories deleted`);
@@ -545,7 +550,7 @@ export class Workspace {
     };
 
     // Handle different exit scenarios
-    process.on('exit', () => {
+    this.addProcessListener('exit', () => {
       // Synchronous cleanup only
       if (this.workspacePath && !this.options.keepOnExit) {
         try {
@@ -558,17 +563,17 @@ export class Workspace {
       }
     });
 
-    process.on('SIGINT', async () => {
+    this.addProcessListener('SIGINT', async () => {
       await cleanup();
       process.exit(0);
     });
 
-    process.on('SIGTERM', async () => {
+    this.addProcessListener('SIGTERM', async () => {
       await cleanup();
       process.exit(0);
     });
 
-    process.on('uncaughtException', async (error) => {
+    this.addProcessListener('uncaughtException', async (error) => {
       console.error('Uncaught exception:', error);
       if (this.options.cleanupOnError) {
         await cleanup();
@@ -576,7 +581,7 @@ export class Workspace {
       process.exit(1);
     });
 
-    process.on('unhandledRejection', async (reason) => {
+    this.addProcessListener('unhandledRejection', async (reason) => {
       console.error('Unhandled rejection:', reason);
       if (this.options.cleanupOnError) {
         await cleanup();
@@ -585,6 +590,21 @@ export class Workspace {
     });
   }
 
+  private addProcessListener(event: string, listener: (...args: any[]) => void): void {
+    process.on(event, listener);
+    this.processListeners.push([event, listener]);
+  }
+
+  /**
+   * Remove process exit handlers once the workspace is gone, so long-running processes do not accumulate them
+   */
+  private unregisterCleanupHandlers(): void {
+    for (const [event, listener] of this.processListeners) {
+      process.removeListener(event, listener);
+    }
+    this.processListeners = [];
+  }
+
   /**
    * Get workspace summary
    */
@@ -0,0 +1,118 @@
+import axios from 'axios';
+import { ADOClient } from '../src/core/adoClient';
+
+jest.mock('axios');
+
+describe('ADOClient', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  const errorHandler = {
+    createFromHttpResponse: jest.fn((response: { status: number }) => Object.assign(new Error('HTTP error'), { statusCode: response.status }))
+  } as any;
+  const credential = { getAuthorizationHeader: async () => 'Basic cGF0' } as any;
+  const http = {
+    get: jest.fn(),
+    patch: jest.fn(),
+    interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } }
+  };
+
+  const page = (count: number, start = 1) => ({
+    data: { value: Array.from({ length: count }, (_, index) => ({ pullRequestId: start + index })) }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.create as jest.Mock).mockReturnValue(http);
+  });
+
+  describe('listPullRequests', () => {
+    it('should page through active pull requests of the project', async () => {
+      http.get.mockResolvedValueOnce(page(100)).mockResolvedValueOnce(page(1, 101));
+      const client = new ADOClient('myorg', 'Shop', '', credential, logger, errorHandler);
+
+      const pullRequests = await client.listPullRequests();
+
+      expect(pullRequests).toHaveLength(101);
+      expect(http.get.mock.calls.map(([url, config]) => [url, config.params['$skip']])).toEqual([
+        ['/git/pullrequests', 0],
+        ['/git/pullrequests', 100]
+      ]);
+      expect(http.get.mock.calls[0]![1].params).toMatchObject({ 'searchCriteria.status': 'active', '$top': 100 });
+      expect(http.get.mock.calls[0]![1].params).not.toHaveProperty('searchCriteria.targetRefName');
+    });
+
+    it('should filter by repository and target branch', async () => {
+      http.get.mockResolvedValueOnce(page(2));
+      const client = new ADOClient('myorg', 'Shop', '', credential, logger, errorHandler);
+
+      await client.listPullRequests({ repository: 'web app', targetRefName: 'refs/heads/main', status: 'completed' });
+
+      expect(http.get).toHaveBeenCalledWith('/git/repositories/web%20app/pullrequests', {
+        params: expect.objectContaining({
+          'searchCriteria.status': 'completed',
+          'searchCriteria.targetRefName': 'refs/heads/main'
+        })
+      });
+    });
+
+    it('should report failed requests with the HTTP status', async () => {
+      http.get.mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { response: { status: 403, statusText: 'Forbidden', data: {} } }));
+      const client = new ADOClient('myorg', 'Shop', '', credential, logger, errorHandler);
+
+      await expect(client.listPullRequests({ repository: 'web' })).rejects.toMatchObject({ statusCode: 403 });
+      expect(errorHandler.createFromHttpResponse).toHaveBeenCalledWith(
+        { status: 403, statusText: 'Forbidden', data: {} },
+        expect.objectContaining({ operation: 'listPullRequests', metadata: { repository: 'web' } })
+      );
+    });
+  });
+
+  describe('getIterationChanges', () => {
+    it('should compare against the base iteration', async () => {
+      http.get.mockResolvedValueOnce({ data: { changeEntries: [{ changeType: 'edit', item: { path: '/src/a.ts' } }] } });
+      const client = new ADOClient('myorg', 'Shop', 'web', credential, logger, errorHandler);
+
+      const changes = await client.getIterationChanges(42, 3, 2);
+
+      expect(changes).toHaveLength(1);
+      expect(http.get).toHaveBeenCalledWith('/git/repositories/web/pullrequests/42/iterations/3/changes', {
+        params: { 'api-version': '7.0', '$compareTo': 2 }
+      });
+    });
+
+    it('should list every change without a base iteration', async () => {
+      http.get.mockResolvedValueOnce({ data: { changeEntries: [] } });
+      const client = new ADOClient('myorg', 'Shop', 'web', credential, logger, errorHandler);
+
+      await client.getIterationChanges(42, 3);
+
+      expect(http.get.mock.calls[0]![1].params).not.toHaveProperty('$compareTo');
+    });
+  });
+
+  describe('pull request properties', () => {
+    it('should read properties with the preview api-version', async () => {
+      http.get.mockResolvedValueOnce({
+        data: { value: { 'ado-review.lastReviewedIteration': { $type: 'System.Int32', $value: 3 } } }
+      });
+      const client = new ADOClient('myorg', 'Shop', 'web', credential, logger, errorHandler);
+
+      const properties = await client.getPullRequestProperties(42);
+
+      expect(properties).toEqual({ 'ado-review.lastReviewedIteration': '3' });
+      expect(http.get.mock.calls[0]![1].params).toEqual({ 'api-version': '7.1-preview.1' });
+    });
+
+    it('should write properties as a JSON patch with the preview api-version', async () => {
+      http.patch.mockResolvedValueOnce({ data: {} });
+      const client = new ADOClient('myorg', 'Shop', 'web', credential, logger, errorHandler);
+
+      await client.updatePullRequestProperties(42, { 'ado-review.lastReviewedIteration': '3' });
+
+      expect(http.patch).toHaveBeenCalledWith(
+        '/git/repositories/web/pullrequests/42/properties',
+        [{ op: 'add', path: '/ado-review.lastReviewedIteration', value: '3' }],
+        expect.objectContaining({ params: { 'api-version': '7.1-preview.1' } })
+      );
+    });
+  });
+});
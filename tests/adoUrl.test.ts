@@ -0,0 +1,61 @@
+import { buildCollectionUrl, isAzureDevOpsServices, parseAzureDevOpsUrl, parseSupportedApiVersion } from '../src/core/adoUrl';
+
+describe('parseAzureDevOpsUrl', () => {
+  it('should parse dev.azure.com pull request URLs', () => {
+    expect(parseAzureDevOpsUrl('https://dev.azure.com/myorg/my%20project/_git/myrepo/pullrequest/123')).toEqual({
+      collectionUrl: 'https://dev.azure.com/myorg',
+      org: 'myorg',
+      project: 'my project',
+      repo: 'myrepo',
+      pullRequestId: '123'
+    });
+  });
+
+  it('should take the organization from visualstudio.com hosts', () => {
+    const info = parseAzureDevOpsUrl('https://myorg.visualstudio.com/DefaultCollection/proj/_git/repo');
+
+    expect(info?.org).toBe('myorg');
+    expect(info?.collectionUrl).toBe('https://myorg.visualstudio.com/DefaultCollection');
+    expect(info?.pullRequestId).toBeUndefined();
+  });
+
+  it('should parse Azure DevOps Server collections, including a virtual directory', () => {
+    expect(parseAzureDevOpsUrl('https://tfs.company.local/Main/proj/_git/repo/pullrequest/7')).toEqual({
+      collectionUrl: 'https://tfs.company.local/Main',
+      org: 'Main',
+      project: 'proj',
+      repo: 'repo',
+      pullRequestId: '7'
+    });
+    expect(parseAzureDevOpsUrl('http://server:8080/tfs/DefaultCollection/proj/_git/repo')?.collectionUrl)
+      .toBe('http://server:8080/tfs/DefaultCollection');
+  });
+
+  it('should reject URLs without a repository', () => {
+    expect(parseAzureDevOpsUrl('https://tfs.company.local/Main/proj')).toBeNull();
+    expect(parseAzureDevOpsUrl('https://tfs.company.local/proj/_git/repo')).toBeNull();
+    expect(parseAzureDevOpsUrl('not a url')).toBeNull();
+  });
+});
+
+describe('Azure DevOps URL helpers', () => {
+  it('should distinguish Services from Server hosts', () => {
+    expect(isAzureDevOpsServices('https://dev.azure.com/org')).toBe(true);
+    expect(isAzureDevOpsServices('https://org.visualstudio.com')).toBe(true);
+    expect(isAzureDevOpsServices('https://tfs.company.local/Main')).toBe(false);
+  });
+
+  it('should build collection URLs on the configured server', () => {
+    expect(buildCollectionUrl('org')).toBe('https://dev.azure.com/org');
+    expect(buildCollectionUrl('Main', 'https://server/tfs/')).toBe('https://server/tfs/Main');
+  });
+
+  it('should read the latest supported api-version from server errors', () => {
+    const data = {
+      message: 'The requested REST API version of 7.0 is out of range for this server. The latest REST API version for this server is 5.0.'
+    };
+
+    expect(parseSupportedApiVersion(data)).toBe('5.0');
+    expect(parseSupportedApiVersion({ message: 'TF401019: repository not found' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { AnthropicAdapter } from '../src/core/llm/anthropicAdapter';
+import { ReviewContext } from '../src/core/contextBuilder';
+
+jest.mock('axios');
+// The real module loads chalk, which jest cannot import
+jest.mock('../src/core/errorHandler', () => ({ UserError: class UserError extends Error {} }));
+
+describe('AnthropicAdapter', () => {
+  const post = axios.post as jest.MockedFunction<typeof axios.post>;
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), logPrompt: jest.fn(), logGeminiResponse: jest.fn() } as any;
+  const errorHandler = { createUserError: jest.fn((message: string) => new Error(message)) } as any;
+  const context: ReviewContext = {
+    projectGuidelines: '',
+    reviewRules: '',
+    diffs: 'diff --git a/src/app.ts b/src/app.ts',
+    metadata: { totalFiles: 1, totalHunks: 1, totalLines: 1, ruleCount: 0, guidelineCount: 0 }
+  };
+  const reviewJson = JSON.stringify({
+    findings: [{ file: 'src/app.ts', line: 3, severity: 'warning', message: 'Unchecked result' }],
+    summary: 'One issue'
+  });
+
+  const originalKey = process.env['ANTHROPIC_API_KEY'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-test';
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env['ANTHROPIC_API_KEY'];
+    } else {
+      process.env['ANTHROPIC_API_KEY'] = originalKey;
+    }
+  });
+
+  it('should send a Messages API request with the API key and version headers', async () => {
+    post.mockResolvedValue({ data: { content: [{ type: 'text', text: reviewJson }], stop_reason: 'end_turn' } });
+    const adapter = new AnthropicAdapter(logger, errorHandler, 120000, 'https://proxy.local/v1/');
+
+    await adapter.reviewCode(context, { model: 'claude-test', maxTokens: 64000, temperature: 0.3 });
+
+    expect(post).toHaveBeenCalledWith(
+      'https://proxy.local/v1/messages',
+      expect.objectContaining({
+        model: 'claude-test',
+        system: expect.any(String),
+        messages: [{ role: 'user', content: expect.stringContaining('diff --git a/src/app.ts') }],
+        temperature: 0.3,
+        max_tokens: 8192
+      }),
+      expect.objectContaining({
+        headers: { 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01', 'Content-Type': 'application/json' },
+        timeout: 120000
+      })
+    );
+  });
+
+  it('should send a whole, positive max_tokens', async () => {
+    post.mockResolvedValue({ data: { content: [{ type: 'text', text: reviewJson }], stop_reason: 'end_turn' } });
+    const adapter = new AnthropicAdapter(logger, errorHandler);
+
+    await adapter.reviewCode(context, { model: 'claude-test', maxTokens: 1234.8 });
+    await adapter.reviewCode(context, { model: 'claude-test', maxTokens: 0.6 });
+
+    expect(post.mock.calls.map(([, body]) => (body as { max_tokens: number }).max_tokens)).toEqual([1234, 1]);
+  });
+
+  it('should join text blocks and map token usage', async () => {
+    post.mockResolvedValue({
+      data: {
+        content: [
+          { type: 'thinking', thinking: 'Looking at the diff' },
+          { type: 'text', text: reviewJson.slice(0, 20) },
+          { type: 'text', text: reviewJson.slice(20) }
+        ],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 1200, output_tokens: 300 }
+      }
+    });
+    const adapter = new AnthropicAdapter(logger, errorHandler);
+
+    const result = await adapter.reviewCode(context, { model: 'claude-test' });
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.usage).toEqual({ promptTokens: 1200, completionTokens: 300, totalTokens: 1500 });
+  });
+
+  it('should warn when the response stopped at the output token limit', async () => {
+    post.mockResolvedValue({ data: { content: [{ type: 'text', text: reviewJson }], stop_reason: 'max_tokens' } });
+    const adapter = new AnthropicAdapter(logger, errorHandler);
+
+    await adapter.reviewCode(context, { model: 'claude-test' });
+
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('truncated at the output token limit'));
+  });
+
+  it('should require ANTHROPIC_API_KEY before sending anything', async () => {
+    delete process.env['ANTHROPIC_API_KEY'];
+    const adapter = new AnthropicAdapter(logger, errorHandler);
+
+    await expect(adapter.reviewCode(context, { model: 'claude-test' })).rejects.toThrow('Missing ANTHROPIC_API_KEY');
+    expect(post).not.toHaveBeenCalled();
+  });
+});
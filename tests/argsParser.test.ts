@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArgsParser } from '../src/cli/argsParser';
+
+describe('ArgsParser local reviews', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  const parser = new ArgsParser(logger);
+  const local = (overrides: Record<string, unknown> = {}) => ({
+    provider: 'openai-compatible',
+    model: 'local-model',
+    base: 'main',
+    head: 'HEAD',
+    ...overrides
+  });
+
+  it('should accept git refs without pull request options', async () => {
+    const options = await parser.parseOptions(local());
+
+    expect(options).toMatchObject({ base: 'main', head: 'HEAD' });
+    expect(parser.isOfflineReview(options)).toBe(true);
+  });
+
+  it('should accept a diff file instead of git refs', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ado-review-args-'));
+    const diffFile = path.join(dir, 'changes.patch');
+    fs.writeFileSync(diffFile, '');
+    try {
+      const options = await parser.parseOptions(local({ base: undefined, head: undefined, diffFile }));
+      expect(parser.isOfflineReview(options)).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject incomplete local options', async () => {
+    await expect(parser.parseOptions(local({ head: '' }))).rejects.toThrow('Both --base and --head must be provided');
+    await expect(parser.parseOptions(local({ diffFile: '/missing.patch' }))).rejects.toThrow('Diff file not found');
+  });
+
+  it('should still require a pull request outside local reviews', async () => {
+    const options = local({ base: undefined, head: undefined });
+    await expect(parser.parseOptions(options)).rejects.toThrow('Either --pr-url or --pr must be provided');
+    expect(parser.isOfflineReview({ prUrl: 'https://dev.azure.com/o/p/_git/r/pullrequest/1' } as any)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import axios from 'axios';
+import { AzureOpenAIAdapter } from '../src/core/llm/azureOpenaiAdapter';
+import { getAzureCliToken } from '../src/core/auth/azureCli';
+import { ReviewContext } from '../src/core/contextBuilder';
+import { UserError } from '../src/core/errorHandler';
+
+jest.mock('axios');
+jest.mock('../src/core/auth/azureCli');
+// The real module loads chalk, which jest cannot import
+jest.mock('../src/core/errorHandler', () => ({ UserError: class UserError extends Error {} }));
+
+describe('AzureOpenAIAdapter', () => {
+  const post = axios.post as jest.MockedFunction<typeof axios.post>;
+  const azureCliToken = getAzureCliToken as jest.MockedFunction<typeof getAzureCliToken>;
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), logPrompt: jest.fn(), logGeminiResponse: jest.fn() } as any;
+  const errorHandler = { createUserError: jest.fn((message: string) => new UserError(message)) } as any;
+  const context: ReviewContext = {
+    projectGuidelines: '',
+    reviewRules: '',
+    diffs: 'diff --git a/src/app.ts b/src/app.ts',
+    metadata: { totalFiles: 1, totalHunks: 1, totalLines: 1, ruleCount: 0, guidelineCount: 0 }
+  };
+  const reviewJson = JSON.stringify({
+    findings: [{ file: 'src/app.ts', line: 3, severity: 'warning', message: 'Unchecked result' }],
+    summary: 'One issue'
+  });
+  const completion = (finishReason = 'stop') => ({
+    data: {
+      choices: [{ message: { content: reviewJson }, finish_reason: finishReason }],
+      usage: { prompt_tokens: 900, completion_tokens: 100, total_tokens: 1000 }
+    }
+  });
+
+  const envKeys = ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_AD_TOKEN', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_RESOURCE'];
+  const originalEnv = Object.fromEntries(envKeys.map(key => [key, process.env[key]]));
+
+  const createAdapter = (authMode: 'auto' | 'api-key' | 'entra' = 'auto') =>
+    new AzureOpenAIAdapter(logger, errorHandler, 120000, { endpoint: 'https://contoso.openai.azure.com/', authMode });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    envKeys.forEach(key => delete process.env[key]);
+    post.mockResolvedValue(completion());
+    azureCliToken.mockResolvedValue({ token: 'entra-token', expiresAt: Date.now() + 60 * 60 * 1000 });
+  });
+
+  afterAll(() => {
+    for (const [key, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it('should call the deployment with the api-key header and a JSON schema response format', async () => {
+    process.env['AZURE_OPENAI_API_KEY'] = 'aoai-key';
+
+    await createAdapter().reviewCode(context, { model: 'gpt-4o-review', maxTokens: 4000 });
+
+    expect(post).toHaveBeenCalledWith(
+      'https://contoso.openai.azure.com/openai/deployments/gpt-4o-review/chat/completions',
+      expect.objectContaining({
+        max_tokens: 4000,
+        response_format: expect.objectContaining({ type: 'json_schema' })
+      }),
+      expect.objectContaining({
+        params: { 'api-version': '2024-10-21' },
+        headers: { 'api-key': 'aoai-key', 'Content-Type': 'application/json' }
+      })
+    );
+    expect(azureCliToken).not.toHaveBeenCalled();
+  });
+
+  it('should map token usage and report truncated output', async () => {
+    process.env['AZURE_OPENAI_API_KEY'] = 'aoai-key';
+    post.mockResolvedValue(completion('length'));
+
+    const result = await createAdapter().reviewCode(context, { model: 'gpt-4o-review' });
+
+    expect(result.usage).toEqual({ promptTokens: 900, completionTokens: 100, totalTokens: 1000 });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('truncated at the output token limit'));
+  });
+
+  it('should use an Azure CLI token without an API key and reuse it until it expires', async () => {
+    const adapter = createAdapter();
+
+    await adapter.reviewCode(context, { model: 'gpt-4o-review' });
+    await adapter.generateText('Why?', { model: 'gpt-4o-review' });
+
+    expect(azureCliToken).toHaveBeenCalledTimes(1);
+    expect(azureCliToken).toHaveBeenCalledWith('https://cognitiveservices.azure.com');
+    expect(post.mock.calls[1]![2]).toMatchObject({ headers: { 'Authorization': 'Bearer entra-token' } });
+  });
+
+  it('should prefer AZURE_OPENAI_AD_TOKEN in Entra ID mode', async () => {
+    process.env['AZURE_OPENAI_API_KEY'] = 'aoai-key';
+    process.env['AZURE_OPENAI_AD_TOKEN'] = 'env-token';
+
+    await createAdapter('entra').reviewCode(context, { model: 'gpt-4o-review' });
+
+    expect(post.mock.calls[0]![2]).toMatchObject({ headers: { 'Authorization': 'Bearer env-token' } });
+    expect(azureCliToken).not.toHaveBeenCalled();
+  });
+
+  it('should explain how to authenticate when the Azure CLI cannot provide a token', async () => {
+    azureCliToken.mockRejectedValue(new Error('Please run \'az login\' to setup account.'));
+
+    await expect(createAdapter().reviewCode(context, { model: 'gpt-4o-review' }))
+      .rejects.toThrow('Unable to get an Entra ID token for Azure OpenAI');
+    expect(post).not.toHaveBeenCalled();
+  });
+});
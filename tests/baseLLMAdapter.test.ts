@@ -0,0 +1,182 @@
+import { BaseLLMAdapter, LLMRequest, LLMResponse } from '../src/core/llm/baseLLMAdapter';
+import { ReviewContext } from '../src/core/contextBuilder';
+import { LLMConfig } from '../src/core/llm/types';
+import { UserError } from '../src/core/errorHandler';
+
+// The real module loads chalk, which jest cannot import
+jest.mock('../src/core/errorHandler', () => ({ UserError: class UserError extends Error {} }));
+
+class StubAdapter extends BaseLLMAdapter {
+  protected readonly providerId = 'stub';
+  protected readonly providerName = 'Stub';
+  public readonly send = jest.fn<Promise<LLMResponse>, [LLMRequest]>();
+  public readonly delays: number[] = [];
+
+  constructor(logger: any, errorHandler: any, structuredOutput = false) {
+    super(logger, errorHandler);
+    this.structuredOutput = structuredOutput;
+  }
+
+  protected sendRequest(request: LLMRequest): Promise<LLMResponse> {
+    return this.send(request);
+  }
+
+  protected override sleep(ms: number): Promise<void> {
+    this.delays.push(ms);
+    return Promise.resolve();
+  }
+}
+
+describe('BaseLLMAdapter', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    logPrompt: jest.fn(),
+    logGeminiResponse: jest.fn()
+  } as any;
+  const errorHandler = {
+    createAPIError: jest.fn((message: string, statusCode?: number) => Object.assign(new Error(message), { statusCode })),
+    createInternalError: jest.fn((message: string) => new Error(message))
+  } as any;
+
+  const config: LLMConfig = { model: 'stub-model', retryAttempts: 3, retryDelay: 100 };
+  const context: ReviewContext = {
+    projectGuidelines: '',
+    reviewRules: '',
+    diffs: 'diff --git a/src/app.ts b/src/app.ts',
+    metadata: { totalFiles: 1, totalHunks: 1, totalLines: 1, ruleCount: 0, guidelineCount: 0 }
+  };
+  const reviewJson = JSON.stringify({
+    findings: [{ file: 'src/app.ts', line: 3, severity: 'warning', message: 'Unchecked result' }],
+    summary: 'One issue'
+  });
+
+  const httpError = (status: number, headers: Record<string, string> = {}, data: unknown = { error: 'failed' }) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers, data } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should retry failed requests with backoff until one succeeds', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      adapter.send
+        .mockRejectedValueOnce(httpError(500))
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce({ content: reviewJson, raw: {} });
+
+      const result = await adapter.reviewCode(context, config);
+
+      expect(result.findings).toHaveLength(1);
+      expect(adapter.send).toHaveBeenCalledTimes(3);
+      expect(adapter.delays).toHaveLength(2);
+      adapter.delays.forEach(delay => expect(delay).toBeGreaterThanOrEqual(100));
+    });
+
+    it('should wait for the server-provided Retry-After, capped at five minutes', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      adapter.send
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '7' }))
+        .mockRejectedValueOnce(httpError(503, { 'retry-after': '3600' }))
+        .mockResolvedValueOnce({ content: reviewJson, raw: {} });
+
+      await adapter.reviewCode(context, config);
+
+      expect(adapter.delays).toEqual([7000, 5 * 60 * 1000]);
+    });
+
+    it('should fail immediately on client errors that will not succeed on retry', async () => {
+      for (const status of [400, 401, 403, 404]) {
+        const adapter = new StubAdapter(logger, errorHandler);
+        adapter.send.mockRejectedValue(httpError(status));
+
+        await expect(adapter.reviewCode(context, config)).rejects.toMatchObject({ statusCode: status });
+        expect(adapter.send).toHaveBeenCalledTimes(1);
+        expect(adapter.delays).toEqual([]);
+      }
+    });
+
+    it('should report a retryable API error once attempts are exhausted', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      adapter.send.mockRejectedValue(httpError(429));
+
+      await expect(adapter.reviewCode(context, config)).rejects.toThrow('Stub request failed (rate limit)');
+      expect(adapter.send).toHaveBeenCalledTimes(3);
+      expect(errorHandler.createAPIError).toHaveBeenCalledWith(
+        'Stub request failed (rate limit)',
+        429,
+        { error: 'failed' },
+        { metadata: { message: '{"error":"failed"}' } },
+        true
+      );
+    });
+
+    it('should pass user errors through without retrying', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      const userError = new UserError('Missing API key');
+      adapter.send.mockRejectedValue(userError);
+
+      await expect(adapter.reviewCode(context, config)).rejects.toBe(userError);
+      expect(adapter.send).toHaveBeenCalledTimes(1);
+      expect(errorHandler.createAPIError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('output repair', () => {
+    it('should ask the model once to repair malformed output', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      adapter.send
+        .mockResolvedValueOnce({ content: 'Looks fine to me!', raw: {}, usage: { promptTokens: 100, completionTokens: 5, totalTokens: 105 } })
+        .mockResolvedValueOnce({ content: reviewJson, raw: {}, usage: { promptTokens: 150, completionTokens: 40, totalTokens: 190 } });
+
+      const result = await adapter.reviewCode(context, config);
+
+      expect(result.findings).toHaveLength(1);
+      expect(result.usage).toEqual({ promptTokens: 250, completionTokens: 45, totalTokens: 295 });
+      expect(adapter.send).toHaveBeenCalledTimes(2);
+      const repairPrompt = adapter.send.mock.calls[1]![0].prompt;
+      expect(repairPrompt).toContain('Problem: Stub returned non-JSON response');
+      expect(repairPrompt).toContain('## Previous Response\nLooks fine to me!');
+      expect(adapter.delays).toEqual([]);
+    });
+
+    it('should spend a retry when the repaired output is still malformed', async () => {
+      const adapter = new StubAdapter(logger, errorHandler);
+      adapter.send
+        .mockResolvedValueOnce({ content: '{"findings": "none"}', raw: {} })
+        .mockResolvedValueOnce({ content: 'still not JSON', raw: {} })
+        .mockResolvedValueOnce({ content: reviewJson, raw: {} });
+
+      const result = await adapter.reviewCode(context, config);
+
+      expect(result.findings).toHaveLength(1);
+      expect(adapter.send).toHaveBeenCalledTimes(3);
+      expect(adapter.delays).toHaveLength(1);
+    });
+  });
+
+  describe('structured output', () => {
+    it('should fall back to a plain JSON prompt when the provider rejects the schema', async () => {
+      const adapter = new StubAdapter(logger, errorHandler, true);
+      adapter.send
+        .mockRejectedValueOnce(httpError(400, {}, { error: { message: "Invalid parameter: 'response_format' of type 'json_schema'" } }))
+        .mockResolvedValue({ content: reviewJson, raw: {} });
+
+      await adapter.reviewCode(context, config);
+      await adapter.reviewCode(context, config);
+
+      expect(adapter.send.mock.calls.map(([request]) => request.structuredOutput)).toEqual([true, false, false]);
+      expect(adapter.delays).toEqual([]);
+    });
+
+    it('should not retry other bad requests without structured output', async () => {
+      const adapter = new StubAdapter(logger, errorHandler, true);
+      adapter.send.mockRejectedValue(httpError(400, {}, { error: { message: 'context length exceeded' } }));
+
+      await expect(adapter.reviewCode(context, config)).rejects.toMatchObject({ statusCode: 400 });
+      expect(adapter.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
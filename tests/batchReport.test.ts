@@ -0,0 +1,59 @@
+import { BatchReviewEntry, createBatchReport, renderBatchReport } from '../src/core/batchReport';
+
+describe('batch review report', () => {
+  const entry = (pullRequestId: number, status: BatchReviewEntry['status'], details: Partial<BatchReviewEntry> = {}): BatchReviewEntry => ({
+    pullRequestId,
+    repository: 'api',
+    title: `Change ${pullRequestId}`,
+    url: `https://dev.azure.com/org/Shop/_git/api/pullrequest/${pullRequestId}`,
+    status,
+    findingsCount: 0,
+    commentsPosted: 0,
+    durationMs: 1000,
+    ...details
+  });
+
+  const report = createBatchReport(
+    { organization: 'org', project: 'Shop' },
+    [
+      entry(1, 'reviewed', { findingsCount: 3, commentsPosted: 2 }),
+      entry(2, 'skipped', { reason: 'Latest iteration already reviewed' }),
+      entry(3, 'failed', { reason: 'LLM timeout', title: 'Fix | pipe' })
+    ],
+    new Date('2026-01-01T02:00:00Z'),
+    65000
+  );
+
+  it('should aggregate outcomes', () => {
+    expect(report.totals).toEqual({
+      pullRequests: 3,
+      reviewed: 1,
+      skipped: 1,
+      failed: 1,
+      findings: 3,
+      commentsPosted: 2
+    });
+    expect(report.startedAt).toBe('2026-01-01T02:00:00.000Z');
+    expect(report).not.toHaveProperty('repository');
+  });
+
+  it('should render an aligned console table with a summary line', () => {
+    const lines = renderBatchReport(report, 'table').split('\n');
+
+    expect(lines[0]).toMatch(/^PR\s+Repository\s+Result\s+Findings\s+Comments\s+Title \/ Reason$/);
+    expect(lines[2]).toMatch(/^#1\s+api\s+reviewed\s+3\s+2\s+Change 1$/);
+    expect(lines[3]).toContain('Latest iteration already reviewed');
+    expect(lines[lines.length - 1]).toBe('3 pull request(s): 1 reviewed, 1 skipped, 1 failed · 3 finding(s), 2 comment(s) posted in 65s');
+  });
+
+  it('should render Markdown rows with escaped cells', () => {
+    const markdown = renderBatchReport(report, 'markdown');
+
+    expect(markdown).toContain('# 🤖 AI Code Review Sweep: Shop');
+    expect(markdown).toContain('| [#3 Fix \\| pipe](https://dev.azure.com/org/Shop/_git/api/pullrequest/3) | api | ❌ Failed | 0 | 0 | LLM timeout |');
+  });
+
+  it('should render JSON', () => {
+    expect(JSON.parse(renderBatchReport(report, 'json')).totals.reviewed).toBe(1);
+  });
+});
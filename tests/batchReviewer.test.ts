@@ -0,0 +1,147 @@
+import { BatchReviewer } from '../src/core/batchReviewer';
+import { ADOClient, PullRequestInfo } from '../src/core/adoClient';
+import { ReviewOrchestrator } from '../src/core/reviewOrchestrator';
+
+jest.mock('../src/core/configLoader', () => ({
+  ConfigLoader: jest.fn().mockImplementation(() => ({ getConfig: async () => ({}) }))
+}));
+jest.mock('../src/core/auth/credentialResolver', () => ({
+  CredentialResolver: jest.fn().mockImplementation(() => ({ resolve: async () => ({ method: 'pat' }) }))
+}));
+jest.mock('../src/core/adoClient', () => ({ ADOClient: jest.fn() }));
+jest.mock('../src/core/reviewOrchestrator', () => ({
+  LAST_REVIEWED_ITERATION_PROPERTY: 'ado-review.lastReviewedIteration',
+  ReviewOrchestrator: jest.fn()
+}));
+
+describe('BatchReviewer', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  const errorHandler = {} as any;
+  const client = {
+    listPullRequests: jest.fn(),
+    getPullRequestIterations: jest.fn(),
+    getPullRequestProperties: jest.fn()
+  };
+  const run = jest.fn();
+
+  const pullRequest = (id: number, overrides: Partial<PullRequestInfo> = {}): PullRequestInfo => ({
+    pullRequestId: id,
+    title: `PR ${id}`,
+    description: '',
+    sourceRefName: 'refs/heads/feature',
+    targetRefName: 'refs/heads/main',
+    repository: { id: 'repo-id', name: 'web', remoteUrl: '', project: { id: 'project-id', name: 'Shop' } },
+    createdBy: { displayName: 'Dev', uniqueName: 'dev@example.com' },
+    status: 'active',
+    isDraft: false,
+    creationDate: '2026-10-01T12:00:00Z',
+    lastMergeSourceCommit: { commitId: `commit-${id}` },
+    ...overrides
+  });
+
+  const options = (overrides: Record<string, unknown> = {}) => ({
+    org: 'myorg',
+    project: 'Shop',
+    concurrency: 2,
+    reviewOptions: { dryRun: false },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ADOClient as unknown as jest.Mock).mockImplementation(() => client);
+    (ReviewOrchestrator as unknown as jest.Mock).mockImplementation(() => ({ run }));
+    client.listPullRequests.mockResolvedValue([pullRequest(1)]);
+    client.getPullRequestIterations.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+    client.getPullRequestProperties.mockResolvedValue({});
+    run.mockResolvedValue({ hasErrors: false, findingsCount: 3, commentsPosted: 2, reviewDelivered: true });
+  });
+
+  it('should normalise the target branch to a full ref', async () => {
+    const reviewer = new BatchReviewer(logger, errorHandler);
+
+    await reviewer.run(options({ repo: 'web', targetBranch: 'main' }));
+    await reviewer.run(options({ targetBranch: 'refs/heads/release/1.0' }));
+
+    expect(client.listPullRequests.mock.calls).toEqual([
+      [{ repository: 'web', targetRefName: 'refs/heads/main' }],
+      [{ targetRefName: 'refs/heads/release/1.0' }]
+    ]);
+  });
+
+  it('should only review pull requests created after the given time', async () => {
+    const undated = pullRequest(3);
+    delete undated.creationDate;
+    client.listPullRequests.mockResolvedValue([
+      pullRequest(1, { creationDate: '2026-09-01T00:00:00Z' }),
+      pullRequest(2, { creationDate: '2026-10-15T00:00:00Z' }),
+      undated
+    ]);
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options({ createdAfter: new Date('2026-10-01T00:00:00Z') }));
+
+    expect(report.pullRequests.map(entry => entry.pullRequestId)).toEqual([2, 3]);
+  });
+
+  it('should review unreviewed iterations with auto-approved comments and record them', async () => {
+    const state = { get: jest.fn(), record: jest.fn(), retain: jest.fn() };
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options({ state }));
+
+    expect(ReviewOrchestrator).toHaveBeenCalledWith(logger, {
+      dryRun: false,
+      prUrl: 'https://dev.azure.com/myorg/Shop/_git/web/pullrequest/1',
+      autoApprove: true
+    });
+    expect(report.pullRequests[0]).toMatchObject({ status: 'reviewed', findingsCount: 3, commentsPosted: 2 });
+    expect(state.record).toHaveBeenCalledWith('repo-id#1', 2, 'commit-1');
+    expect(state.retain).toHaveBeenCalledWith(['repo-id#1']);
+  });
+
+  it('should skip a pull request whose latest iteration is recorded on the pull request', async () => {
+    client.getPullRequestProperties.mockResolvedValue({ 'ado-review.lastReviewedIteration': '2' });
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options());
+
+    expect(report.pullRequests[0]).toMatchObject({ status: 'skipped', reason: 'Latest iteration already reviewed' });
+    expect(ReviewOrchestrator).not.toHaveBeenCalled();
+  });
+
+  it('should skip pull requests the watch state has already seen', async () => {
+    client.listPullRequests.mockResolvedValue([pullRequest(1), pullRequest(2)]);
+    const state = {
+      get: jest.fn((key: string) => (key === 'repo-id#1' ? { iteration: 1, sourceCommit: 'commit-1' } : { iteration: 2 })),
+      record: jest.fn(),
+      retain: jest.fn()
+    };
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options({ state }));
+
+    expect(report.pullRequests.map(entry => [entry.pullRequestId, entry.status, entry.reason])).toEqual([
+      [1, 'skipped', 'No new iteration'],
+      [2, 'skipped', 'Latest iteration already reviewed']
+    ]);
+    expect(client.getPullRequestIterations).toHaveBeenCalledTimes(1);
+    expect(ReviewOrchestrator).not.toHaveBeenCalled();
+  });
+
+  it('should not record iterations whose findings were not posted', async () => {
+    run.mockResolvedValue({ hasErrors: false, findingsCount: 3, commentsPosted: 0, reviewDelivered: false });
+    const state = { get: jest.fn(), record: jest.fn(), retain: jest.fn() };
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options({ state }));
+
+    expect(report.pullRequests[0]).toMatchObject({ status: 'reviewed', findingsCount: 3, commentsPosted: 0 });
+    expect(state.record).not.toHaveBeenCalled();
+  });
+
+  it('should not record iterations whose review failed', async () => {
+    run.mockResolvedValue({ hasErrors: true, errorMessage: 'LLM request failed' });
+    const state = { get: jest.fn(), record: jest.fn(), retain: jest.fn() };
+
+    const report = await new BatchReviewer(logger, errorHandler).run(options({ state }));
+
+    expect(report.pullRequests[0]).toMatchObject({ status: 'failed', reason: 'LLM request failed' });
+    expect(state.record).not.toHaveBeenCalled();
+  });
+});
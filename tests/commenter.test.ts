@@ -0,0 +1,132 @@
+import { Commenter } from '../src/core/commenter';
+import { FileDiff } from '../src/core/diffFetcher';
+import { MappingResult } from '../src/core/resultMapper';
+import { CommentThreadStatus } from '../src/core/adoClient';
+import { apiThread, threadPosition } from './fixtures/commentThreads';
+
+describe('Commenter', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  const errorHandler = {} as any;
+  const adoClient = {
+    getCommentThreads: jest.fn(),
+    addCommentToThread: jest.fn(),
+    updateCommentThread: jest.fn(),
+    createCommentThread: jest.fn()
+  };
+
+  // Lines 10-19 of src/service.ts were reviewed
+  const files: FileDiff[] = [{
+    filePath: '/src/service.ts',
+    changeType: 'edit',
+    isText: true,
+    isBinary: false,
+    hunks: [{
+      filePath: '/src/service.ts',
+      changeType: 'edit',
+      oldLineStart: 10,
+      oldLineCount: 10,
+      newLineStart: 10,
+      newLineCount: 10,
+      content: '',
+      context: ''
+    }]
+  }];
+
+  const commenter = new Commenter(logger, errorHandler, adoClient as any);
+  const options = { retryAttempts: 1, retryDelay: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adoClient.getCommentThreads.mockResolvedValue([apiThread({ id: 7, threadContext: threadPosition(12) }), apiThread({ id: 8, threadContext: threadPosition(40) })]);
+    adoClient.addCommentToThread.mockResolvedValue({});
+    adoClient.updateCommentThread.mockResolvedValue({});
+    adoClient.createCommentThread.mockResolvedValue({});
+  });
+
+  describe('postComments', () => {
+    const fingerprinted = (status: CommentThreadStatus) => apiThread({
+      status,
+      properties: {
+        'ado-review.type': { $type: 'System.String', $value: 'line-group' },
+        'ado-review.fingerprints': { $type: 'System.String', $value: 'aaaa' }
+      }
+    });
+
+    const mapping: MappingResult = {
+      threads: [{
+        threadContext: { filePath: '/src/service.ts', rightFileStart: { line: 12, offset: 1 }, rightFileEnd: { line: 12, offset: 1 } },
+        comments: [{
+          content: '⚠️ **Warning**\nMissing await on fetch call',
+          commentType: 'text',
+          status: 'active',
+          properties: { 'ado-review.type': 'finding', 'ado-review.fingerprint': 'aaaa' }
+        }],
+        status: 'active'
+      }],
+      stats: { totalFindings: 1, mappedFindings: 1, skippedFindings: 0, threadsCreated: 1, commentsCreated: 1 }
+    };
+
+    it('should skip findings already open in a thread', async () => {
+      adoClient.getCommentThreads.mockResolvedValue([fingerprinted('active')]);
+
+      const result = await commenter.postComments(42, mapping, options);
+
+      expect(result).toMatchObject({ threadsCreated: 0, threadsSkipped: 1 });
+      expect(adoClient.createCommentThread).not.toHaveBeenCalled();
+    });
+
+    it('should post findings again when their thread was fixed or deleted', async () => {
+      adoClient.getCommentThreads.mockResolvedValue([fingerprinted('fixed'), { ...fingerprinted('active'), isDeleted: true }]);
+
+      const result = await commenter.postComments(42, mapping, options);
+
+      expect(result).toMatchObject({ threadsCreated: 1, threadsSkipped: 0 });
+      expect(adoClient.createCommentThread).toHaveBeenCalledWith(42, mapping.threads[0]);
+    });
+  });
+
+  describe('resolveFixedThreads', () => {
+    it('should reply to threads whose finding no longer reproduces and then mark them fixed', async () => {
+      const result = await commenter.resolveFixedThreads(42, [], files, 3, options);
+
+      expect(result).toEqual({ threadsResolved: 1, errors: [] });
+      expect(adoClient.getCommentThreads).toHaveBeenCalledWith(42, 3);
+      expect(adoClient.addCommentToThread).toHaveBeenCalledWith(42, 7, { content: expect.stringContaining('iteration 3') });
+      expect(adoClient.updateCommentThread).toHaveBeenCalledWith(42, 7, { status: 'fixed' });
+      expect(adoClient.addCommentToThread.mock.invocationCallOrder[0])
+        .toBeLessThan(adoClient.updateCommentThread.mock.invocationCallOrder[0]!);
+    });
+
+    it('should only count the threads it would resolve in a dry run', async () => {
+      const result = await commenter.resolveFixedThreads(42, [], files, 3, { ...options, dryRun: true });
+
+      expect(result).toEqual({ threadsResolved: 1, errors: [] });
+      expect(adoClient.addCommentToThread).not.toHaveBeenCalled();
+      expect(adoClient.updateCommentThread).not.toHaveBeenCalled();
+    });
+
+    it('should collect errors and keep resolving the remaining threads', async () => {
+      adoClient.getCommentThreads.mockResolvedValue([apiThread({ id: 7, threadContext: threadPosition(12) }), apiThread({ id: 9, threadContext: threadPosition(15) })]);
+      adoClient.updateCommentThread
+        .mockRejectedValueOnce(new Error('Request failed with status code 403'))
+        .mockResolvedValueOnce({});
+
+      const result = await commenter.resolveFixedThreads(42, [], files, 3, options);
+
+      expect(result).toEqual({
+        threadsResolved: 1,
+        errors: ['Failed to resolve thread 7: Request failed with status code 403']
+      });
+      expect(adoClient.updateCommentThread).toHaveBeenCalledWith(42, 9, { status: 'fixed' });
+    });
+
+    it('should leave threads alone when they cannot be listed', async () => {
+      adoClient.getCommentThreads.mockRejectedValue(new Error('Service unavailable'));
+
+      const result = await commenter.resolveFixedThreads(42, [], files, 3, options);
+
+      expect(result).toEqual({ threadsResolved: 0, errors: [] });
+      expect(adoClient.addCommentToThread).not.toHaveBeenCalled();
+    });
+  });
+});
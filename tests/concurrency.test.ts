@@ -0,0 +1,23 @@
+import { mapWithConcurrency } from '../src/core/concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order and never exceed the limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      active--;
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should handle empty input', async () => {
+    await expect(mapWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
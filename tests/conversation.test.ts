@@ -0,0 +1,145 @@
+import {
+  buildConversationPrompt,
+  extractCodeWindow,
+  findPendingConversations,
+  formatReply,
+  isQuestion,
+  PendingConversation
+} from '../src/core/conversation';
+import { CommentThread } from '../src/core/adoClient';
+import { apiThread, BOT_ID, threadPosition } from './fixtures/commentThreads';
+
+const FINDING = '⚠️ **Warning**\nMissing await on fetch call\n\n*Rule: `async-await`*';
+
+const conversationThread = (comments: CommentThread['comments'], overrides: Partial<CommentThread> = {}): CommentThread => apiThread({
+  comments,
+  threadContext: threadPosition(12, 13),
+  properties: {
+    'ado-review.type': { $type: 'System.String', $value: 'line-group' }
+  },
+  ...overrides
+});
+
+const bot = (id: number, content: string) => ({ id, content, author: { displayName: 'Build Service', id: BOT_ID } });
+const dev = (id: number, content: string) => ({ id, content, author: { displayName: 'Ayşe', id: 'dev-1' } });
+
+describe('isQuestion', () => {
+  it('should recognize questions and explicit mentions', () => {
+    expect(isQuestion('Is this really a problem?')).toBe(true);
+    expect(isQuestion('Bu gerçekten sorun mu?')).toBe(true);
+    expect(isQuestion('@ado-review explain the fix')).toBe(true);
+    expect(isQuestion('Thanks. @ADO-Review can you show an example')).toBe(true);
+  });
+
+  it('should ignore replies without a question mark or mention', () => {
+    expect(isQuestion('Thanks, fixed')).toBe(false);
+    expect(isQuestion('Düzelttim')).toBe(false);
+    expect(isQuestion('Will fix in the next commit')).toBe(false);
+    expect(isQuestion('Should be fine now')).toBe(false);
+    expect(isQuestion('Is fixed in abc123')).toBe(false);
+    expect(isQuestion('Neden böyle yaptığımı açıkladım')).toBe(false);
+  });
+});
+
+describe('findPendingConversations', () => {
+  it('should return threads whose latest developer message is a question', () => {
+    const pending = findPendingConversations([
+      conversationThread([bot(1, FINDING), dev(2, 'Why is await needed here?')])
+    ], BOT_ID);
+
+    expect(pending).toEqual([{
+      threadId: 7,
+      filePath: '/src/service.ts',
+      startLine: 12,
+      endLine: 13,
+      finding: FINDING,
+      history: [],
+      question: { author: 'Ayşe', content: 'Why is await needed here?', fromBot: false }
+    }]);
+  });
+
+  it('should keep earlier replies as history', () => {
+    const [pending] = findPendingConversations([
+      conversationThread([dev(4, 'What about the caller?'), bot(1, FINDING), dev(2, 'Is this needed?'), bot(3, '🤖 Yes.')])
+    ], BOT_ID);
+
+    expect(pending?.history.map(message => message.content)).toEqual(['Is this needed?', '🤖 Yes.']);
+    expect(pending?.question.content).toBe('What about the caller?');
+  });
+
+  it('should skip answered, closed, deleted and foreign threads', () => {
+    const question = dev(2, 'Why?');
+    const pending = findPendingConversations([
+      conversationThread([bot(1, FINDING), question, bot(3, '🤖 Because.')]),
+      conversationThread([bot(1, FINDING), question], { status: 'fixed' }),
+      conversationThread([bot(1, FINDING), { ...question, isDeleted: true }]),
+      conversationThread([bot(1, FINDING), question], { properties: { 'ado-review.type': 'summary' } }),
+      conversationThread([dev(1, 'Why does this exist?')], { properties: {} }),
+      conversationThread([bot(1, FINDING), dev(2, 'Thanks, fixed')])
+    ], BOT_ID);
+
+    expect(pending).toEqual([]);
+  });
+
+  it('should fall back to the file property when the thread has no position', () => {
+    const [pending] = findPendingConversations([
+      conversationThread([bot(1, FINDING), dev(2, 'Why?')], {
+        threadContext: null,
+        properties: {
+          'ado-review.type': { $value: 'severity-group' },
+          'ado-review.file': { $value: '/src/other.ts' }
+        }
+      })
+    ], BOT_ID);
+
+    expect(pending?.filePath).toBe('/src/other.ts');
+    expect(pending?.startLine).toBeUndefined();
+  });
+});
+
+describe('extractCodeWindow', () => {
+  const content = ['a', 'b', 'c', 'd', 'e', 'f'].join('\n');
+
+  it('should take lines around the range', () => {
+    expect(extractCodeWindow(content, 3, 4, 1)).toEqual({ startLine: 2, lines: ['b', 'c', 'd', 'e'] });
+  });
+
+  it('should clamp to the file', () => {
+    expect(extractCodeWindow(content, 1, 6, 10)).toEqual({ startLine: 1, lines: ['a', 'b', 'c', 'd', 'e', 'f'] });
+  });
+});
+
+describe('buildConversationPrompt', () => {
+  const conversation: PendingConversation = {
+    threadId: 7,
+    filePath: '/src/service.ts',
+    startLine: 9,
+    endLine: 10,
+    finding: FINDING,
+    history: [{ author: 'Ayşe', content: 'Is this needed?', fromBot: false }],
+    question: { author: 'Ayşe', content: 'What about the caller?', fromBot: false }
+  };
+
+  it('should include the finding, numbered code, history and question', () => {
+    const prompt = buildConversationPrompt(conversation, { startLine: 9, lines: ['const a = 1;', 'load();'] });
+
+    expect(prompt).toContain('`/src/service.ts` (line 9-10)');
+    expect(prompt).toContain(FINDING);
+    expect(prompt).toContain(' 9 | const a = 1;\n10 | load();');
+    expect(prompt).toContain('**Ayşe:** Is this needed?');
+    expect(prompt).toContain('## Latest message from Ayşe\nWhat about the caller?');
+  });
+
+  it('should omit the code section without code', () => {
+    expect(buildConversationPrompt(conversation)).not.toContain('## Current code');
+  });
+});
+
+describe('formatReply', () => {
+  it('should prefix and truncate the answer', () => {
+    expect(formatReply('  Yes.  ')).toBe('🤖 Yes.');
+    const long = formatReply('x'.repeat(9000));
+    expect(long.length).toBeLessThan(8010);
+    expect(long.endsWith('…')).toBe(true);
+  });
+});
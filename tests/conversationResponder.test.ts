@@ -0,0 +1,103 @@
+import { ConversationResponder } from '../src/core/conversationResponder';
+import { CommentThread } from '../src/core/adoClient';
+import { apiThread, BOT_ID, threadPosition } from './fixtures/commentThreads';
+
+describe('ConversationResponder', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  const errorHandler = { normalizeError: jest.fn((error: Error) => ({ message: error.message })) } as any;
+  const adoClient = {
+    getCurrentUserId: jest.fn(),
+    getCommentThreads: jest.fn(),
+    getFileContent: jest.fn(),
+    addCommentToThread: jest.fn()
+  };
+  const llmAdapter = { reviewCode: jest.fn(), generateText: jest.fn() };
+
+  const questionThread = (id: number, filePath = '/src/service.ts'): CommentThread => apiThread({
+    id,
+    threadContext: threadPosition(3, 3, filePath),
+    comments: [
+      { id: 1, content: '⚠️ **Warning**\nMissing await on fetch call', author: { displayName: 'Build Service', id: BOT_ID } },
+      { id: 2, content: `Why is await needed in thread ${id}?`, author: { displayName: 'Ayşe', id: 'dev-1' } }
+    ]
+  });
+
+  const options = { model: 'gpt-test', maxReplies: 5, contextLines: 1, dryRun: false, iterationId: 2, sourceCommit: 'abc123' };
+  let responder: ConversationResponder;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    adoClient.getCurrentUserId.mockResolvedValue(BOT_ID);
+    adoClient.getCommentThreads.mockResolvedValue([questionThread(7)]);
+    adoClient.getFileContent.mockResolvedValue(['line 1', 'line 2', 'const data = fetch(url);', 'line 4'].join('\n'));
+    adoClient.addCommentToThread.mockResolvedValue({});
+    llmAdapter.generateText.mockResolvedValue('Without await, `data` is a Promise.');
+    responder = new ConversationResponder(logger, errorHandler, adoClient as any, llmAdapter);
+  });
+
+  it('should answer pending questions with the code around the thread', async () => {
+    const result = await responder.respond(42, options);
+
+    expect(result).toEqual({ repliesPosted: 1, errors: [] });
+    expect(adoClient.getCommentThreads).toHaveBeenCalledWith(42, 2);
+    expect(adoClient.getFileContent).toHaveBeenCalledWith('/src/service.ts', 'abc123');
+    const [prompt, config] = llmAdapter.generateText.mock.calls[0]!;
+    expect(prompt).toContain('3 | const data = fetch(url);');
+    expect(prompt).toContain('Why is await needed in thread 7?');
+    expect(config).toEqual({ model: 'gpt-test', temperature: 0.2 });
+    expect(adoClient.addCommentToThread).toHaveBeenCalledWith(42, 7, { content: '🤖 Without await, `data` is a Promise.' });
+  });
+
+  it('should only log the answers in a dry run', async () => {
+    const result = await responder.respond(42, { ...options, dryRun: true });
+
+    expect(result.repliesPosted).toBe(1);
+    expect(llmAdapter.generateText).toHaveBeenCalledTimes(1);
+    expect(adoClient.addCommentToThread).not.toHaveBeenCalled();
+  });
+
+  it('should answer at most maxReplies threads', async () => {
+    adoClient.getCommentThreads.mockResolvedValue([questionThread(7), questionThread(8), questionThread(9)]);
+
+    const result = await responder.respond(42, { ...options, maxReplies: 2 });
+
+    expect(result.repliesPosted).toBe(2);
+    expect(adoClient.addCommentToThread.mock.calls.map(call => call[1])).toEqual([7, 8]);
+    expect(logger.warn).toHaveBeenCalledWith('3 threads await an answer, replying to the first 2');
+  });
+
+  it('should load each file once and answer without code it cannot load', async () => {
+    adoClient.getCommentThreads.mockResolvedValue([questionThread(7), questionThread(8), questionThread(9, '/src/missing.ts')]);
+    adoClient.getFileContent.mockImplementation(async (filePath: string) => {
+      if (filePath === '/src/missing.ts') {
+        throw new Error('File not found');
+      }
+      return 'const data = fetch(url);';
+    });
+
+    const result = await responder.respond(42, options);
+
+    expect(result.repliesPosted).toBe(3);
+    expect(adoClient.getFileContent).toHaveBeenCalledTimes(2);
+    expect(llmAdapter.generateText.mock.calls[2]![0]).not.toContain('## Current code');
+  });
+
+  it('should collect per-thread failures and keep answering the others', async () => {
+    adoClient.getCommentThreads.mockResolvedValue([questionThread(7), questionThread(8)]);
+    llmAdapter.generateText.mockResolvedValueOnce('').mockResolvedValueOnce('Yes.');
+
+    const result = await responder.respond(42, options);
+
+    expect(result).toEqual({ repliesPosted: 1, errors: ['Failed to answer thread 7: The model returned an empty answer'] });
+    expect(adoClient.addCommentToThread).toHaveBeenCalledWith(42, 8, { content: '🤖 Yes.' });
+  });
+
+  it('should report threads that cannot be read', async () => {
+    adoClient.getCommentThreads.mockRejectedValue(new Error('Request failed with status code 401'));
+
+    const result = await responder.respond(42, options);
+
+    expect(result).toEqual({ repliesPosted: 0, errors: ['Request failed with status code 401'] });
+    expect(llmAdapter.generateText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { CredentialResolver } from '../src/core/auth/credentialResolver';
+import { createCredentialProviders, PatProvider, SystemAccessTokenProvider } from '../src/core/auth/credentialProviders';
+import { AZURE_DEVOPS_RESOURCE, CredentialProvider } from '../src/core/auth/types';
+import { getAzureCliToken } from '../src/core/auth/azureCli';
+
+jest.mock('../src/core/auth/azureCli');
+
+describe('CredentialResolver', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  const errorHandler = { createUserError: (message: string) => new Error(message) } as any;
+
+  const provider = (method: CredentialProvider['method'], available: boolean, getToken: () => Promise<any>): CredentialProvider => ({
+    method,
+    name: method,
+    isAvailable: () => available,
+    getToken
+  });
+
+  it('should use the first available provider that returns a token', async () => {
+    const resolver = new CredentialResolver(logger, errorHandler, [
+      provider('system-token', false, async () => ({ authorization: 'Bearer unused' })),
+      provider('azure-cli', true, async () => { throw new Error('az: command not found'); }),
+      provider('pat', true, async () => ({ authorization: 'Basic cGF0' }))
+    ]);
+
+    const credential = await resolver.resolve('auto');
+
+    expect(credential.method).toBe('pat');
+    await expect(credential.getAuthorizationHeader()).resolves.toBe('Basic cGF0');
+  });
+
+  it('should fail with guidance when no provider works', async () => {
+    const resolver = new CredentialResolver(logger, errorHandler, [
+      provider('pat', false, async () => ({ authorization: 'Basic cGF0' }))
+    ]);
+
+    await expect(resolver.resolve()).rejects.toThrow('No Azure DevOps credentials found');
+  });
+
+  it('should skip Entra ID providers for Azure DevOps Server collections', async () => {
+    const azureCli = jest.fn(async () => ({ authorization: 'Bearer entra' }));
+    const resolver = new CredentialResolver(logger, errorHandler, [
+      provider('azure-cli', true, azureCli),
+      provider('pat', true, async () => ({ authorization: 'Basic cGF0' }))
+    ]);
+
+    const credential = await resolver.resolve('auto', 'https://tfs.company.local/DefaultCollection');
+
+    expect(credential.method).toBe('pat');
+    expect(azureCli).not.toHaveBeenCalled();
+  });
+
+  it('should report the error of an explicitly requested provider', async () => {
+    const resolver = new CredentialResolver(logger, errorHandler, [
+      provider('managed-identity', false, async () => { throw new Error('IMDS unreachable'); })
+    ]);
+
+    await expect(resolver.resolve('managed-identity')).rejects.toThrow('Azure DevOps authentication with managed-identity failed: IMDS unreachable');
+  });
+
+  it('should refresh tokens that are about to expire', async () => {
+    const getToken = jest.fn()
+      .mockResolvedValueOnce({ authorization: 'Bearer old', expiresAt: Date.now() + 60 * 1000 })
+      .mockResolvedValueOnce({ authorization: 'Bearer new', expiresAt: Date.now() + 60 * 60 * 1000 });
+    const resolver = new CredentialResolver(logger, errorHandler, [provider('azure-cli', true, getToken)]);
+
+    const credential = await resolver.resolve('azure-cli');
+
+    await expect(credential.getAuthorizationHeader()).resolves.toBe('Bearer new');
+    await expect(credential.getAuthorizationHeader()).resolves.toBe('Bearer new');
+    expect(getToken).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('credential providers', () => {
+  it('should send the pipeline token as a bearer token and the PAT with basic auth', async () => {
+    await expect(new SystemAccessTokenProvider({ SYSTEM_ACCESSTOKEN: 'job-token' }).getToken())
+      .resolves.toEqual({ authorization: 'Bearer job-token' });
+    await expect(new PatProvider({ AZURE_DEVOPS_PAT: 'pat' }).getToken())
+      .resolves.toEqual({ authorization: `Basic ${Buffer.from(':pat').toString('base64')}` });
+  });
+
+  it('should try pipeline and federated identities, then the PAT, then the Azure CLI', () => {
+    const logger = { debug: jest.fn() } as any;
+    const methods = createCredentialProviders(logger, {}).map(p => p.method);
+
+    expect(methods).toEqual(['system-token', 'workload-identity', 'managed-identity', 'pat', 'azure-cli']);
+  });
+});
+
+describe('auto detection', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  const errorHandler = { createUserError: (message: string) => new Error(message) } as any;
+  const azureCliToken = getAzureCliToken as jest.MockedFunction<typeof getAzureCliToken>;
+
+  beforeEach(() => {
+    azureCliToken.mockReset();
+    azureCliToken.mockResolvedValue({ token: 'az-token', expiresAt: Date.now() + 60 * 60 * 1000 });
+  });
+
+  const resolve = (env: NodeJS.ProcessEnv) =>
+    new CredentialResolver(logger, errorHandler, createCredentialProviders(logger, env)).resolve('auto', 'https://dev.azure.com/myorg');
+
+  it('should prefer a configured PAT over a signed-in Azure CLI', async () => {
+    const credential = await resolve({ AZURE_DEVOPS_PAT: 'pat' });
+
+    expect(credential.method).toBe('pat');
+    expect(azureCliToken).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the pipeline token over a configured PAT', async () => {
+    const credential = await resolve({ SYSTEM_ACCESSTOKEN: 'job-token', AZURE_DEVOPS_PAT: 'pat' });
+
+    expect(credential.method).toBe('system-token');
+    await expect(credential.getAuthorizationHeader()).resolves.toBe('Bearer job-token');
+  });
+
+  it('should fall back to the Azure CLI when nothing else is configured', async () => {
+    const credential = await resolve({});
+
+    expect(credential.method).toBe('azure-cli');
+    await expect(credential.getAuthorizationHeader()).resolves.toBe('Bearer az-token');
+    expect(azureCliToken).toHaveBeenCalledWith(AZURE_DEVOPS_RESOURCE, expect.any(Number));
+  });
+
+  it('should list the Azure CLI failure when no credentials work', async () => {
+    azureCliToken.mockRejectedValue(new Error('Please run \'az login\' to setup account.'));
+
+    await expect(resolve({})).rejects.toThrow('No Azure DevOps credentials found');
+  });
+});
@@ -3,6 +3,7 @@ import { ADOClient } from '../src/core/adoClient';
 import { GitManager } from '../src/core/gitManager';
 import { Logger } from '../src/core/logger';
 import { ErrorHandler } from '../src/core/errorHandler';
+import * as path from 'path';
 
 // Mock dependencies
 jest.mock('../src/core/adoClient');
@@ -44,7 +45,8 @@ describe('DiffFetcher', () => {
     } as any;
     
     mockGitManager = {
-      getDiff: jest.fn()
+      getDiff: jest.fn(),
+      getChangedFiles: jest.fn()
     } as any;
 
     diffFetcher = new DiffFetcher(mockAdoClient, mockGitManager, mockLogger, mockErrorHandler);
@@ -148,7 +150,7 @@ describe('DiffFetcher', () => {
       expect(result.files[0]?.filePath).toBe('/test/file.ts');
     });
 
-    it('should use basic diff when no working directory is provided', async () => {
+    it('should diff file contents from the Items API when no working directory is provided', async () => {
       const pullRequestId = 123;
       const mockIteration = {
         id: 1,
@@ -175,15 +177,229 @@ describe('DiffFetcher', () => {
       mockAdoClient.getPullRequestFinalDiff.mockResolvedValue(mockFinalDiff);
       mockAdoClient.getPullRequestIterations.mockResolvedValue([mockIteration]);
       mockAdoClient.getIterationChanges.mockResolvedValue(mockFinalDiff.changes);
+      mockAdoClient.getFileContent = jest.fn().mockImplementation(async (_path: string, commitId: string) =>
+        commitId === 'target456'
+          ? "function test() {\n  return 'old';\n}\n"
+          : "function test() {\n  return 'new';\n}\n"
+      );
 
       const result = await diffFetcher.fetchPullRequestDiff(pullRequestId); // No working directory
 
       // Verify git diff was NOT called
       expect(mockGitManager.getDiff).not.toHaveBeenCalled();
+      expect(mockAdoClient.getFileContent).toHaveBeenCalledWith('/test/file.ts', 'target456');
+      expect(mockAdoClient.getFileContent).toHaveBeenCalledWith('/test/file.ts', 'source123');
 
-      // Should still return a result with basic diff
+      // Should return real hunks computed from both versions
       expect(result.files).toHaveLength(1);
       expect(result.files[0]?.filePath).toBe('/test/file.ts');
+      expect(result.files[0]?.hunks).toHaveLength(1);
+      expect(result.files[0]?.hunks[0]).toMatchObject({
+        oldLineStart: 1,
+        oldLineCount: 3,
+        newLineStart: 1,
+        newLineCount: 3
+      });
+      expect(result.files[0]?.hunks[0]?.content).toBe(
+        " function test() {\n-  return 'old';\n+  return 'new';\n }"
+      );
+      expect(result.addedLines).toBe(1);
+      expect(result.deletedLines).toBe(1);
+    });
+
+    it('should fallback to basic diff when file contents cannot be fetched', async () => {
+      const mockIteration = {
+        id: 1,
+        description: 'Test iteration',
+        author: { displayName: 'Test User' },
+        createdDate: '2024-01-01T00:00:00Z',
+        updatedDate: '2024-01-01T00:00:00Z',
+        sourceRefCommit: { commitId: 'source123' },
+        targetRefCommit: { commitId: 'target456' }
+      };
+
+      mockAdoClient.getPullRequestIterations.mockResolvedValue([mockIteration]);
+      mockAdoClient.getIterationChanges.mockResolvedValue([
+        { item: { path: '/test/file.ts', isFolder: false }, changeType: 'edit' }
+      ]);
+      mockAdoClient.getFileContent = jest.fn().mockRejectedValue(new Error('Forbidden'));
+
+      const result = await diffFetcher.fetchPullRequestDiff(123);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to get file contents for /test/file.ts')
+      );
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0]?.hunks[0]?.content).toContain('not available without git');
+    });
+
+    it('should only diff changes after the base iteration for incremental reviews', async () => {
+      const pullRequestId = 123;
+      const workingDirectory = '/test/workspace';
+      const baseIteration = {
+        id: 1,
+        description: 'First push',
+        author: { displayName: 'Test User' },
+        createdDate: '2024-01-01T00:00:00Z',
+        updatedDate: '2024-01-01T00:00:00Z',
+        sourceRefCommit: { commitId: 'source111' },
+        targetRefCommit: { commitId: 'target456' }
+      };
+      const latestIteration = {
+        ...baseIteration,
+        id: 2,
+        description: 'Second push',
+        sourceRefCommit: { commitId: 'source222' }
+      };
+      const changes = [
+        {
+          item: {
+            path: '/test/file.ts',
+            isFolder: false
+          },
+          changeType: 'edit'
+        }
+      ];
+
+      mockAdoClient.getPullRequestIterations.mockResolvedValue([baseIteration, latestIteration]);
+      mockAdoClient.getIterationChanges.mockResolvedValue(changes);
+      mockGitManager.getDiff.mockResolvedValue(`@@ -1,1 +1,1 @@
+-const a = 1;
++const a = 2;`);
+
+      const result = await diffFetcher.fetchPullRequestDiff(pullRequestId, workingDirectory, 1);
+
+      expect(mockAdoClient.getIterationChanges).toHaveBeenCalledWith(pullRequestId, 2, 1);
+      expect(mockGitManager.getDiff).toHaveBeenCalledWith(
+        workingDirectory,
+        'source111', // previously reviewed source commit
+        'source222',
+        'test/file.ts'
+      );
+      expect(result.iterationId).toBe(2);
+      expect(result.baseIterationId).toBe(1);
+      expect(result.files).toHaveLength(1);
+    });
+
+    it('should return no files when the base iteration is already the latest', async () => {
+      const mockIteration = {
+        id: 3,
+        description: 'Test iteration',
+        author: { displayName: 'Test User' },
+        createdDate: '2024-01-01T00:00:00Z',
+        updatedDate: '2024-01-01T00:00:00Z',
+        sourceRefCommit: { commitId: 'source123' },
+        targetRefCommit: { commitId: 'target456' }
+      };
+
+      mockAdoClient.getPullRequestIterations.mockResolvedValue([mockIteration]);
+
+      const result = await diffFetcher.fetchPullRequestDiff(123, '/test/workspace', 3);
+
+      expect(mockAdoClient.getIterationChanges).not.toHaveBeenCalled();
+      expect(result.files).toHaveLength(0);
+      expect(result.iterationId).toBe(3);
+    });
+  });
+
+  describe('fetchLocalDiff', () => {
+    it('should diff each changed file between the two refs', async () => {
+      mockGitManager.getChangedFiles.mockResolvedValue(['src/app.ts', 'src/new.ts']);
+      mockGitManager.getDiff.mockImplementation(async (_dir, _base, _head, file) => file === 'src/app.ts'
+        ? "@@ -1,2 +1,2 @@\n const a = 1;\n-const b = 2;\n+const b = 3;"
+        : "new file mode 100644\n@@ -0,0 +1 @@\n+export const x = 1;");
+
+      const result = await diffFetcher.fetchLocalDiff('/repo', 'main', 'HEAD');
+
+      expect(mockGitManager.getChangedFiles).toHaveBeenCalledWith('/repo', 'main', 'HEAD');
+      expect(mockGitManager.getDiff).toHaveBeenCalledWith('/repo', 'main', 'HEAD', 'src/app.ts');
+      expect(mockAdoClient.getPullRequestIterations).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ pullRequestId: 0, sourceCommit: 'HEAD', targetCommit: 'main', totalChanges: 2, addedLines: 2, deletedLines: 1 });
+      expect(result.files.map(file => [file.filePath, file.changeType])).toEqual([['/src/app.ts', 'edit'], ['/src/new.ts', 'add']]);
+      expect(result.files[0]?.hunks[0]).toMatchObject({ newLineStart: 1, newLineCount: 2 });
+    });
+
+    it('should skip binary files and files whose diff fails', async () => {
+      mockGitManager.getChangedFiles.mockResolvedValue(['logo.png', 'src/broken.ts']);
+      mockGitManager.getDiff.mockRejectedValue(new Error('bad object'));
+
+      const result = await diffFetcher.fetchLocalDiff('/repo', 'main', 'HEAD');
+
+      expect(mockGitManager.getDiff).toHaveBeenCalledTimes(1);
+      expect(result.files).toEqual([{ filePath: '/logo.png', changeType: 'edit', hunks: [], isText: false, isBinary: true }]);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('/src/broken.ts'));
+    });
+
+    it('should report a failure to list changed files', async () => {
+      mockGitManager.getChangedFiles.mockRejectedValue(new Error('unknown revision main'));
+
+      await expect(diffFetcher.fetchLocalDiff('/repo', 'main', 'HEAD')).rejects.toMatchObject({
+        message: 'unknown revision main',
+        context: { operation: 'fetchLocalDiff', metadata: { baseRef: 'main', headRef: 'HEAD' } }
+      });
+    });
+  });
+
+  describe('fetchDiffFile', () => {
+    const fixturePath = path.join(__dirname, 'fixtures', 'sample.patch');
+
+    it('should split a multi-file patch into file diffs', async () => {
+      const result = await diffFetcher.fetchDiffFile(fixturePath);
+
+      expect(mockAdoClient.getPullRequestIterations).not.toHaveBeenCalled();
+      expect(mockGitManager.getDiff).not.toHaveBeenCalled();
+      expect(result.files.map(file => [file.filePath, file.changeType])).toEqual([
+        ['/src/app.ts', 'edit'],
+        ['/src/utils/format.ts', 'add'],
+        ['/db/schema.sql', 'edit'],
+        ['/src/legacy.ts', 'delete'],
+        ['/assets/logo.png', 'edit'],
+        ['/src/new-name.ts', 'rename']
+      ]);
+      expect(result.totalChanges).toBe(6);
+      expect(result.addedLines).toBe(8);
+      expect(result.deletedLines).toBe(6);
+    });
+
+    it('should keep hunk line numbers and content from the patch', async () => {
+      const result = await diffFetcher.fetchDiffFile(fixturePath);
+      const app = result.files[0];
+
+      expect(app?.hunks).toHaveLength(2);
+      expect(app?.hunks[1]).toMatchObject({
+        filePath: '/src/app.ts',
+        oldLineStart: 20,
+        oldLineCount: 3,
+        newLineStart: 20,
+        newLineCount: 5,
+        context: 'export function shutdown() {'
+      });
+      expect(app?.hunks[1]?.content).toContain("+  console.log('server stopped');");
+    });
+
+    it('should treat removed lines that look like file headers as hunk content', async () => {
+      const result = await diffFetcher.fetchDiffFile(fixturePath);
+      const schema = result.files.find(file => file.filePath === '/db/schema.sql');
+
+      expect(schema?.hunks).toHaveLength(1);
+      expect(schema?.hunks[0]?.content.split('\n')).toEqual([
+        '--- legacy users table',
+        '+++ users table',
+        ' CREATE TABLE users (id INT);',
+        '-DROP TABLE sessions;'
+      ]);
+    });
+
+    it('should mark binary files and record rename sources', async () => {
+      const result = await diffFetcher.fetchDiffFile(fixturePath);
+      const logo = result.files.find(file => file.filePath === '/assets/logo.png');
+      const renamed = result.files.find(file => file.filePath === '/src/new-name.ts');
+
+      expect(logo?.isBinary).toBe(true);
+      expect(logo?.hunks).toHaveLength(0);
+      expect(renamed?.oldPath).toBe('/src/old-name.ts');
+      // format-patch signature after the last hunk must not become a deleted line
+      expect(renamed?.hunks[0]?.content).toBe("-export const name = 'old';\n+export const name = 'new';");
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,21 @@
+import { parseDuration } from '../src/core/duration';
+
+describe('parseDuration', () => {
+  it('should parse units and combinations', () => {
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration('5m')).toBe(300000);
+    expect(parseDuration('1h30m')).toBe(5400000);
+    expect(parseDuration('1D')).toBe(86400000);
+    expect(parseDuration('250ms')).toBe(250);
+  });
+
+  it('should treat plain numbers as milliseconds', () => {
+    expect(parseDuration('60000')).toBe(60000);
+  });
+
+  it('should reject anything else', () => {
+    expect(parseDuration('5 minutes')).toBeUndefined();
+    expect(parseDuration('m5')).toBeUndefined();
+    expect(parseDuration('')).toBeUndefined();
+  });
+});
@@ -0,0 +1,10 @@
+import { normalizePath } from '../src/core/filePath';
+
+describe('normalizePath', () => {
+  it('should map ADO, git diff and model paths to the same form', () => {
+    expect(normalizePath('/src/service.ts')).toBe('src/service.ts');
+    expect(normalizePath('b/src/service.ts')).toBe('src/service.ts');
+    expect(normalizePath('./src/service.ts ')).toBe('src/service.ts');
+    expect(normalizePath('src\\service.ts')).toBe('src/service.ts');
+  });
+});
@@ -0,0 +1,126 @@
+import { anchorFindings } from '../src/core/findingAnchor';
+import { FileDiff } from '../src/core/diffFetcher';
+import { ReviewFinding } from '../src/core/llm/types';
+
+describe('anchorFindings', () => {
+  // New side: lines 10-16 for the first hunk, 40-42 for the second
+  const files: FileDiff[] = [
+    {
+      filePath: '/src/service.ts',
+      changeType: 'edit',
+      isText: true,
+      isBinary: false,
+      hunks: [
+        {
+          filePath: '/src/service.ts',
+          changeType: 'edit',
+          oldLineStart: 10,
+          oldLineCount: 6,
+          newLineStart: 10,
+          newLineCount: 7,
+          content: [
+            ' function load() {',
+            '-  const data = fetch(url);',
+            '+  const data = await fetch(url);',
+            '+  const json = JSON.parse(data);',
+            '   return data;',
+            ' }',
+            ' ',
+            ' export { load };'
+          ].join('\n'),
+          context: ''
+        },
+        {
+          filePath: '/src/service.ts',
+          changeType: 'edit',
+          oldLineStart: 39,
+          oldLineCount: 2,
+          newLineStart: 40,
+          newLineCount: 3,
+          content: [' const a = 1;', '+const retries = 3;', ' const b = 2;'].join('\n'),
+          context: ''
+        }
+      ]
+    },
+    {
+      filePath: '/src/removed.ts',
+      changeType: 'delete',
+      isText: true,
+      isBinary: false,
+      hunks: [
+        {
+          filePath: '/src/removed.ts',
+          changeType: 'delete',
+          oldLineStart: 1,
+          oldLineCount: 1,
+          newLineStart: 0,
+          newLineCount: 0,
+          content: '-export const x = 1;',
+          context: ''
+        }
+      ]
+    }
+  ];
+
+  const finding = (overrides: Partial<ReviewFinding>): ReviewFinding => ({
+    file: 'src/service.ts',
+    line: 11,
+    severity: 'warning',
+    message: 'Issue',
+    ...overrides
+  });
+
+  it('should keep findings inside a hunk', () => {
+    const result = anchorFindings([finding({ line: 12 })], files);
+
+    expect(result.anchored).toEqual([finding({ line: 12 })]);
+    expect(result.unanchored).toEqual([]);
+    expect(result.snapped).toBe(0);
+  });
+
+  it('should snap a near miss to the line matching the code snippet', () => {
+    const result = anchorFindings([
+      finding({ line: 20, endLine: 21, codeSnippet: '+  const json = JSON.parse(data);' })
+    ], files);
+
+    expect(result.anchored).toEqual([
+      finding({ line: 12, endLine: 13, codeSnippet: '+  const json = JSON.parse(data);' })
+    ]);
+    expect(result.snapped).toBe(1);
+  });
+
+  it('should move an in-range finding whose snippet belongs to another line', () => {
+    const result = anchorFindings([finding({ line: 11, codeSnippet: 'const retries = 3;' })], files);
+
+    expect(result.anchored[0]?.line).toBe(41);
+  });
+
+  it('should drop the replacement when snapping shortens the span', () => {
+    const result = anchorFindings([
+      finding({ line: 40, endLine: 42, codeSnippet: 'const json = JSON.parse(data);', replacement: 'a();\nb();\nc();' }),
+      finding({ line: 40, codeSnippet: 'const json = JSON.parse(data);', replacement: 'parse();' })
+    ], files);
+
+    expect(result.anchored[0]).toMatchObject({ line: 12, endLine: 14 });
+    expect(result.anchored[0]?.replacement).toBe('a();\nb();\nc();');
+    expect(result.anchored[1]?.replacement).toBe('parse();');
+
+    const clipped = anchorFindings([
+      finding({ line: 30, endLine: 35, codeSnippet: 'const json = JSON.parse(data);', replacement: 'a();' })
+    ], files);
+    expect(clipped.anchored[0]).toMatchObject({ line: 12, endLine: 16 });
+    expect(clipped.anchored[0]?.replacement).toBeUndefined();
+  });
+
+  it('should set aside findings outside the diff without a matching snippet', () => {
+    const outOfRange = finding({ line: 30 });
+    const unknownFile = finding({ file: 'src/other.ts', line: 1 });
+    const deletedFile = finding({ file: 'src/removed.ts', line: 1 });
+    const noMatch = finding({ line: 99, codeSnippet: 'throw new Error("nope");' });
+
+    const result = anchorFindings([outOfRange, unknownFile, deletedFile, noMatch], files);
+
+    expect(result.anchored).toEqual([]);
+    expect(result.unanchored).toEqual([outOfRange, unknownFile, deletedFile, noMatch]);
+  });
+});
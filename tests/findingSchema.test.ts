@@ -0,0 +1,60 @@
+import { REVIEW_RESULT_JSON_SCHEMA, validateReviewResult } from '../src/core/llm/findingSchema';
+
+describe('validateReviewResult', () => {
+  it('should coerce string line numbers, severity aliases and null optional fields', () => {
+    const { result, errors } = validateReviewResult({
+      findings: [
+        { file: 'src/a.ts', line: '12', endLine: 14, severity: 'HIGH', message: 'Bug', suggestion: null, ruleId: 7, category: '' }
+      ],
+      summary: 'Done'
+    });
+
+    expect(errors).toEqual([]);
+    expect(result).toEqual({
+      findings: [{ file: 'src/a.ts', line: 12, endLine: 14, severity: 'error', message: 'Bug', ruleId: '7' }],
+      summary: 'Done'
+    });
+  });
+
+  it('should drop invalid findings and keep the rest', () => {
+    const { result, errors } = validateReviewResult({
+      findings: [
+        { file: 'src/a.ts', line: 3, severity: 'warning', message: 'Valid' },
+        { file: 'src/a.ts', line: 'top', severity: 'warning', message: 'Bad line' },
+        { line: 5, severity: 'info', message: 'No file' },
+        'not an object'
+      ]
+    });
+
+    expect(result?.findings).toHaveLength(1);
+    expect(result?.summary).toBe('No summary provided');
+    expect(errors).toEqual([
+      'findings[1]: invalid line "top"',
+      'findings[2]: missing file',
+      'findings[3]: not an object'
+    ]);
+  });
+
+  it('should default unknown severities to warning and ignore backwards end lines', () => {
+    const { result, errors } = validateReviewResult([
+      { file: 'b.ts', line: 10, endLine: 4, severity: 'spicy', message: 'Hmm' }
+    ]);
+
+    expect(result?.findings).toEqual([{ file: 'b.ts', line: 10, severity: 'warning', message: 'Hmm' }]);
+    expect(errors).toEqual(['findings[0]: unknown severity "spicy", using "warning"']);
+  });
+
+  it('should reject a response without a findings array', () => {
+    expect(validateReviewResult({ summary: 'Looks good' })).toEqual({
+      result: null,
+      errors: ['Invalid response structure: missing findings array']
+    });
+  });
+});
+
+describe('REVIEW_RESULT_JSON_SCHEMA', () => {
+  it('should list every finding property as required for strict mode', () => {
+    const items = REVIEW_RESULT_JSON_SCHEMA.properties.findings.items;
+    expect(items.required).toEqual(Object.keys(items.properties));
+  });
+});
@@ -0,0 +1,122 @@
+import { computeFingerprint, findDeclaration, fingerprintFinding, parseFingerprints } from '../src/core/fingerprint';
+import { FileDiff } from '../src/core/diffFetcher';
+import { ReviewFinding } from '../src/core/llm/types';
+
+function fileWithHunk(newLineStart: number, lines: string[], context = ''): FileDiff {
+  return {
+    filePath: '/src/service.ts',
+    changeType: 'edit',
+    isText: true,
+    isBinary: false,
+    hunks: [
+      {
+        filePath: '/src/service.ts',
+        changeType: 'edit',
+        oldLineStart: newLineStart,
+        oldLineCount: lines.filter(line => !line.startsWith('+')).length,
+        newLineStart,
+        newLineCount: lines.filter(line => !line.startsWith('-')).length,
+        content: lines.join('\n'),
+        context
+      }
+    ]
+  };
+}
+
+const hunkLines = [
+  ' export async function load(url: string) {',
+  '-  const data = fetch(url);',
+  '+  const data =  fetch(url);',
+  '   return data;',
+  ' }'
+];
+
+const finding = (overrides: Partial<ReviewFinding> = {}): ReviewFinding => ({
+  file: 'src/service.ts',
+  line: 11,
+  severity: 'warning',
+  message: 'Missing await on fetch call',
+  ruleId: 'async-await',
+  ...overrides
+});
+
+describe('computeFingerprint', () => {
+  it('should ignore whitespace, path prefixes and rule ID case', () => {
+    const a = computeFingerprint({ file: '/src/a.ts', ruleId: 'No-Any', snippet: 'let x: any = 1;', symbol: 'load' });
+    const b = computeFingerprint({ file: 'src/a.ts', ruleId: 'no-any', snippet: '  let x:any=1; ', symbol: 'load' });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should change with the rule, code, file or symbol', () => {
+    const base = { file: 'src/a.ts', ruleId: 'no-any', snippet: 'let x: any;', symbol: 'load' };
+    const fingerprint = computeFingerprint(base);
+    expect(computeFingerprint({ ...base, ruleId: 'other' })).not.toBe(fingerprint);
+    expect(computeFingerprint({ ...base, snippet: 'let y: any;' })).not.toBe(fingerprint);
+    expect(computeFingerprint({ ...base, file: 'src/b.ts' })).not.toBe(fingerprint);
+    expect(computeFingerprint({ ...base, symbol: 'save' })).not.toBe(fingerprint);
+  });
+
+  it('should use the message when there is no rule ID', () => {
+    const base = { file: 'src/a.ts', snippet: 'x();' };
+    expect(computeFingerprint({ ...base, message: 'Unhandled promise!' }))
+      .toBe(computeFingerprint({ ...base, message: 'unhandled promise' }));
+    expect(computeFingerprint({ ...base, message: 'Unhandled promise' }))
+      .not.toBe(computeFingerprint({ ...base, message: 'Unused result' }));
+  });
+});
+
+describe('fingerprintFinding', () => {
+  it('should stay the same when lines are inserted above', () => {
+    const before = fingerprintFinding(finding(), [fileWithHunk(10, hunkLines)]);
+    const after = fingerprintFinding(finding({ line: 14 }), [fileWithHunk(13, hunkLines)]);
+    expect(after).toBe(before);
+  });
+
+  it('should use the code from the diff rather than the quoted snippet', () => {
+    const files = [fileWithHunk(10, hunkLines)];
+    expect(fingerprintFinding(finding({ codeSnippet: 'const data = fetch(url)' }), files))
+      .toBe(fingerprintFinding(finding({ codeSnippet: 'data = fetch(...)' }), files));
+  });
+
+  it('should fall back to the snippet for lines outside the diff', () => {
+    const outside = finding({ line: 90, codeSnippet: '+  const data = fetch(url);' });
+    expect(fingerprintFinding(outside, [])).toBe(computeFingerprint({
+      file: 'src/service.ts',
+      ruleId: 'async-await',
+      snippet: '  const data = fetch(url);'
+    }));
+  });
+
+  it('should take the enclosing symbol from the hunk header when the declaration is not in the hunk', () => {
+    const body = ['   const data = fetch(url);', '+  log(data);'];
+    const inLoad = fingerprintFinding(finding({ line: 41 }), [fileWithHunk(40, body, 'export async function load(url: string) {')]);
+    const inSave = fingerprintFinding(finding({ line: 41 }), [fileWithHunk(40, body, 'export async function save(url: string) {')]);
+    expect(inLoad).not.toBe(inSave);
+  });
+});
+
+describe('findDeclaration', () => {
+  it('should recognize common declaration styles', () => {
+    expect(findDeclaration(['export async function load(url) {'])).toBe('load');
+    expect(findDeclaration(['class ReviewQueue<T> {'])).toBe('ReviewQueue');
+    expect(findDeclaration(['    def fetch_items(self):'])).toBe('fetch_items');
+    expect(findDeclaration(['const handler = async (req, res) => {'])).toBe('handler');
+    expect(findDeclaration(['  public async run(options: Options): Promise<void> {'])).toBe('run');
+    expect(findDeclaration(['func (s *Server) Start() error {'])).toBe('Start');
+    expect(findDeclaration(['    public void Dispose()'])).toBe('Dispose');
+    expect(findDeclaration(['  render() {'])).toBe('render');
+  });
+
+  it('should skip control flow and plain statements', () => {
+    expect(findDeclaration(['  if (ready) {', '  return value;', '  const x = 1;', '    print(value)'])).toBeUndefined();
+    expect(findDeclaration(['  for (const item of items) {', '  private save(): void {'])).toBe('save');
+  });
+});
+
+describe('parseFingerprints', () => {
+  it('should split comma separated lists', () => {
+    expect(parseFingerprints('aaaa, bbbb,,')).toEqual(['aaaa', 'bbbb']);
+    expect(parseFingerprints(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { CommentThread } from '../../src/core/adoClient';
+
+/**
+ * Comment threads shaped like Azure DevOps REST API responses, shared by the thread tests
+ */
+
+export const BOT_ID = 'bot-1';
+
+export const FINDING_COMMENT = '⚠️ **Warning**\nMissing await on fetch call\n\n*Rule: `async-await` • Category: `correctness`*\n\n*Line 12*';
+
+/**
+ * Right-side position of a thread
+ */
+export function threadPosition(startLine: number, endLine: number = startLine, filePath: string = '/src/service.ts'): NonNullable<CommentThread['threadContext']> {
+  return {
+    filePath,
+    rightFileStart: { line: startLine, offset: 1 },
+    rightFileEnd: { line: endLine, offset: 1 }
+  };
+}
+
+/**
+ * Active ado-review line thread on src/service.ts line 12 with a developer reply
+ */
+export function apiThread(overrides: Partial<CommentThread> = {}): CommentThread {
+  return {
+    id: 7,
+    status: 'active',
+    threadContext: threadPosition(12),
+    comments: [
+      { id: 1, content: FINDING_COMMENT, author: { displayName: 'Build Service', id: BOT_ID } },
+      { id: 2, content: 'Good catch, will fix', author: { displayName: 'Dev', id: 'dev-1' } }
+    ],
+    properties: {
+      'ado-review.type': { $type: 'System.String', $value: 'line-group' },
+      'ado-review.file': { $type: 'System.String', $value: '/src/service.ts' }
+    },
+    ...overrides
+  };
+}
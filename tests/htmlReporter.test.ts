@@ -0,0 +1,77 @@
+import { HtmlReporter } from '../src/core/reporters/htmlReporter';
+import { ReportData } from '../src/core/reporters/types';
+
+describe('HtmlReporter', () => {
+  const data: ReportData = {
+    tool: { name: 'ado-review', version: '1.0.0' },
+    files: ['/src/app.ts'],
+    rules: [],
+    diffs: [{
+      filePath: '/src/app.ts',
+      changeType: 'edit',
+      isText: true,
+      isBinary: false,
+      hunks: [{
+        filePath: '/src/app.ts',
+        changeType: 'edit',
+        oldLineStart: 3,
+        oldLineCount: 2,
+        newLineStart: 3,
+        newLineCount: 2,
+        content: ' const a = 1;\n-run(a);\n+eval("<b>");',
+        context: ''
+      }]
+    }],
+    findings: [
+      { file: '/src/app.ts', line: 4, severity: 'error', message: 'Avoid eval', ruleId: 'no-eval', suggestion: 'run(a);' },
+      { file: '/src/app.ts', line: 40, severity: 'info', message: 'Outside the diff' },
+      { file: '/src/other.ts', line: 1, severity: 'warning', message: 'File without diff' }
+    ],
+    summary: 'One <risky> call',
+    run: {
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      durationMs: 75000,
+      strategy: 'batched',
+      batches: 3,
+      tokenUsage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+      pullRequest: { id: 42, title: 'Add feature', url: 'https://dev.azure.com/org/proj/_git/repo/pullrequest/42' }
+    }
+  };
+
+  it('should render run metadata and an escaped summary', () => {
+    const html = new HtmlReporter().render(data);
+
+    expect(html).toContain('<title>Code review of PR #42</title>');
+    expect(html).toContain('<a href="https://dev.azure.com/org/proj/_git/repo/pullrequest/42">Add feature</a>');
+    expect(html).toContain('<td>gpt-4o-mini (openai)</td>');
+    expect(html).toContain('<td>1m 15s</td>');
+    expect(html).toContain('<td>batched, 3 batch(es)</td>');
+    expect(html).toContain('<td>1500 (prompt 1200, completion 300)</td>');
+    expect(html).toContain('<div class="summary">One &lt;risky&gt; call</div>');
+  });
+
+  it('should place findings after their diff line and list the rest above the diff', () => {
+    const html = new HtmlReporter().render(data);
+
+    const addedLine = html.indexOf('<td>+eval(&quot;&lt;b&gt;&quot;);</td>');
+    const inline = html.indexOf('Avoid eval');
+    const outside = html.indexOf('Outside the diff');
+    const diffTable = html.indexOf('<table class="diff">');
+
+    expect(addedLine).toBeGreaterThan(-1);
+    expect(inline).toBeGreaterThan(addedLine);
+    expect(outside).toBeGreaterThan(-1);
+    expect(outside).toBeLessThan(diffTable);
+    expect(html).toContain('<tr class="del"><td class="num">4</td><td class="num"></td><td>-run(a);</td></tr>');
+  });
+
+  it('should render files that only have findings and severity filters with counts', () => {
+    const html = new HtmlReporter().render(data);
+
+    expect(html).toContain('<summary>src/other.ts<span class="badge warning">1 warning</span></summary>');
+    expect(html).toContain('<input type="checkbox" data-severity="error" checked> Error (1)');
+    expect(html).toContain('<input type="checkbox" data-severity="info" checked> Info (1)');
+  });
+});
@@ -0,0 +1,28 @@
+import { JUnitReporter } from '../src/core/reporters/junitReporter';
+import { ReportData } from '../src/core/reporters/types';
+
+describe('JUnitReporter', () => {
+  const data: ReportData = {
+    tool: { name: 'ado-review', version: '1.0.0' },
+    files: ['/src/app.ts', '/src/clean.ts'],
+    rules: [],
+    findings: [
+      { file: '/src/app.ts', line: 4, severity: 'error', message: 'Unsafe "eval" <call>', ruleId: 'no-eval' },
+      { file: '/src/app.ts', line: 9, severity: 'warning', message: 'Magic number', suggestion: 'Extract a constant' }
+    ]
+  };
+
+  it('should create one testcase per reviewed file', () => {
+    const xml = new JUnitReporter().render(data);
+
+    expect(xml).toContain('<testsuites name="ado-review" tests="2" failures="1" errors="0" skipped="0">');
+    expect(xml).toContain('<testcase classname="ado-review" name="src/clean.ts" file="src/clean.ts" time="0"/>');
+  });
+
+  it('should report errors as escaped failures and warnings as system-out', () => {
+    const xml = new JUnitReporter().render(data);
+
+    expect(xml).toContain('<failure message="Unsafe &quot;eval&quot; &lt;call&gt;" type="no-eval">[ERROR] /src/app.ts:4 (no-eval)');
+    expect(xml).toContain('<system-out>[WARNING] /src/app.ts:9\nMagic number\nSuggestion: Extract a constant</system-out>');
+  });
+});
@@ -0,0 +1,75 @@
+import { createUnifiedDiff } from '../src/core/lineDiff';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty diff for identical content', () => {
+    expect(createUnifiedDiff('/src/a.ts', 'a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('should emit a single hunk with three context lines', () => {
+    const oldContent = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n') + '\n';
+    const newContent = ['1', '2', '3', '4', 'five', '6', '7', '8', '9'].join('\n') + '\n';
+
+    expect(createUnifiedDiff('/src/a.ts', oldContent, newContent)).toBe([
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -2,7 +2,7 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+      ' 8',
+      ''
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines.splice(17, 0, 'inserted');
+
+    const diff = createUnifiedDiff('src/b.ts', oldLines.join('\n'), newLines.join('\n'));
+    const headers = diff.split('\n').filter(line => line.startsWith('@@'));
+
+    expect(headers).toEqual([
+      '@@ -1,5 +1,5 @@',
+      '@@ -15,6 +15,7 @@'
+    ]);
+  });
+
+  it('should describe added and deleted files against /dev/null', () => {
+    expect(createUnifiedDiff('/new.ts', '', 'a\nb\n')).toBe([
+      '--- /dev/null',
+      '+++ b/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+a',
+      '+b',
+      ''
+    ].join('\n'));
+
+    expect(createUnifiedDiff('/old.ts', 'a\n', '')).toBe([
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1,1 +0,0 @@',
+      '-a',
+      ''
+    ].join('\n'));
+  });
+
+  it('should produce a minimal edit script for interleaved changes', () => {
+    const diff = createUnifiedDiff('/c.ts', 'a\nb\nc\na\nb\nb\na\n', 'c\nb\na\nb\na\nc\n');
+    const body = diff.split('\n').filter(line => /^[-+]/.test(line) && !/^(---|\+\+\+) /.test(line));
+
+    // Myers finds an edit distance of 5 for this classic example
+    expect(body).toHaveLength(5);
+  });
+
+  it('should fall back to a full replacement when the edit distance limit is exceeded', () => {
+    const diff = createUnifiedDiff('/d.ts', 'a\nb\nc\n', 'x\ny\nz\n', { maxEditDistance: 1 });
+
+    expect(diff).toContain('@@ -1,3 +1,3 @@\n-a\n-b\n-c\n+x\n+y\n+z');
+  });
+});
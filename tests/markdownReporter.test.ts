@@ -0,0 +1,46 @@
+import { MarkdownReporter } from '../src/core/reporters/markdownReporter';
+import { ReportData } from '../src/core/reporters/types';
+
+describe('MarkdownReporter', () => {
+  const data: ReportData = {
+    tool: { name: 'ado-review', version: '1.0.0' },
+    files: ['/src/app.ts', '/src/util.ts'],
+    rules: [],
+    findings: [
+      { file: '/src/util.ts', line: 3, severity: 'info', message: 'Consider a named export', category: 'style' },
+      { file: '/src/app.ts', line: 9, severity: 'warning', message: 'Magic number', category: 'style' },
+      { file: '/src/app.ts', line: 4, endLine: 6, severity: 'error', message: 'Unsafe eval', ruleId: 'no-eval', category: 'security', suggestion: 'Use ```JSON.parse``` instead' }
+    ],
+    summary: 'Mostly fine.',
+    run: {
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      startedAt: '2026-01-01T00:00:00.000Z',
+      durationMs: 12400,
+      pullRequest: { id: 7, title: 'Add parser', url: 'https://dev.azure.com/org/proj/_git/repo/pullrequest/7' }
+    }
+  };
+
+  it('should render severity and category tables', () => {
+    const markdown = new MarkdownReporter().render(data);
+
+    expect(markdown).toContain('**Pull request:** [#7 Add parser](https://dev.azure.com/org/proj/_git/repo/pullrequest/7)');
+    expect(markdown).toContain('**Files reviewed:** 2 · **Model:** gpt-4o-mini (openai) · **Duration:** 12s');
+    expect(markdown).toContain('| 🚨 Error | 1 |\n| ⚠️ Warning | 1 |\n| ℹ️ Info | 1 |\n| **Total** | **3** |');
+    expect(markdown).toContain('| style | 0 | 1 | 1 | 2 |\n| security | 1 | 0 | 0 | 1 |');
+  });
+
+  it('should list findings per file with suggestions as code blocks', () => {
+    const markdown = new MarkdownReporter().render(data);
+
+    expect(markdown.indexOf('### `src/app.ts` (2)')).toBeLessThan(markdown.indexOf('### `src/util.ts` (1)'));
+    expect(markdown).toContain('- **🚨 Error** (lines 4-6, `no-eval`, `security`): Unsafe eval\n\n  ````\n  Use ```JSON.parse``` instead\n  ````');
+  });
+
+  it('should state when there are no findings', () => {
+    const markdown = new MarkdownReporter().render({ ...data, findings: [] });
+
+    expect(markdown).toContain('No issues found. ✅');
+    expect(markdown).not.toContain('Findings by Category');
+  });
+});
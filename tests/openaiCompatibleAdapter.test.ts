@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { OpenAICompatibleAdapter } from '../src/core/llm/openaiCompatibleAdapter';
+import { ReviewContext } from '../src/core/contextBuilder';
+
+jest.mock('axios');
+// The real module loads chalk, which jest cannot import
+jest.mock('../src/core/errorHandler', () => ({ UserError: class UserError extends Error {} }));
+
+describe('OpenAICompatibleAdapter', () => {
+  const post = axios.post as jest.MockedFunction<typeof axios.post>;
+  const get = axios.get as jest.MockedFunction<typeof axios.get>;
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), logPrompt: jest.fn(), logGeminiResponse: jest.fn() } as any;
+  const errorHandler = {
+    createAPIError: jest.fn((message: string, statusCode?: number) => Object.assign(new Error(message), { statusCode }))
+  } as any;
+  const context: ReviewContext = {
+    projectGuidelines: '',
+    reviewRules: '',
+    diffs: 'diff --git a/src/app.ts b/src/app.ts',
+    metadata: { totalFiles: 1, totalHunks: 1, totalLines: 1, ruleCount: 0, guidelineCount: 0 }
+  };
+  const reviewJson = JSON.stringify({
+    findings: [{ file: 'src/app.ts', line: 3, severity: 'warning', message: 'Unchecked result' }],
+    summary: 'One issue'
+  });
+
+  const originalKey = process.env['OPENAI_COMPATIBLE_API_KEY'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env['OPENAI_COMPATIBLE_API_KEY'];
+    get.mockResolvedValue({ data: { data: [{ id: 'qwen2.5-coder' }, { id: 'llama3.1' }] } });
+    post.mockResolvedValue({
+      data: {
+        choices: [{ message: { content: reviewJson }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 700, completion_tokens: 80 }
+      }
+    });
+  });
+
+  afterAll(() => {
+    if (originalKey === undefined) {
+      delete process.env['OPENAI_COMPATIBLE_API_KEY'];
+    } else {
+      process.env['OPENAI_COMPATIBLE_API_KEY'] = originalKey;
+    }
+  });
+
+  it('should send chat completions in JSON mode with the optional API key', async () => {
+    process.env['OPENAI_COMPATIBLE_API_KEY'] = 'local-key';
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://gpu-box:8000/v1/');
+
+    const result = await adapter.reviewCode(context, { model: 'qwen2.5-coder' });
+
+    expect(post).toHaveBeenCalledWith(
+      'http://gpu-box:8000/v1/chat/completions',
+      expect.objectContaining({ model: 'qwen2.5-coder', response_format: { type: 'json_object' } }),
+      expect.objectContaining({ headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer local-key' }, timeout: 300000 })
+    );
+    expect(result.usage).toEqual({ promptTokens: 700, completionTokens: 80, totalTokens: 780 });
+  });
+
+  it('should leave out response_format and the Authorization header when not configured', async () => {
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://localhost:11434/v1', false);
+
+    await adapter.reviewCode(context, { model: 'qwen2.5-coder' });
+
+    expect(post.mock.calls[0]![1]).not.toHaveProperty('response_format');
+    expect(post.mock.calls[0]![2]).toMatchObject({ headers: { 'Content-Type': 'application/json' } });
+  });
+
+  it('should list model ids or names served by the endpoint', async () => {
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://localhost:11434/v1');
+
+    await expect(adapter.getAvailableModels()).resolves.toEqual(['qwen2.5-coder', 'llama3.1']);
+
+    get.mockResolvedValue({ data: { models: [{ name: 'mistral' }, {}] } });
+    await expect(adapter.getAvailableModels()).resolves.toEqual(['mistral']);
+    expect(get).toHaveBeenCalledWith('http://localhost:11434/v1/models', expect.objectContaining({ timeout: 10000 }));
+  });
+
+  it('should report a failed model listing as an API error', async () => {
+    get.mockRejectedValue(Object.assign(new Error('Request failed with status code 401'), { response: { status: 401, data: 'unauthorized' } }));
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://localhost:11434/v1');
+
+    await expect(adapter.getAvailableModels()).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should probe the models once and warn about a model the server does not list', async () => {
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://localhost:11434/v1');
+
+    await adapter.reviewCode(context, { model: 'deepseek-coder' });
+    await adapter.reviewCode(context, { model: 'deepseek-coder' });
+
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Model "deepseek-coder" is not listed'));
+  });
+
+  it('should still review when the server does not implement /models', async () => {
+    get.mockRejectedValue(Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } }));
+    const adapter = new OpenAICompatibleAdapter(logger, errorHandler, 300000, 'http://localhost:8080/v1');
+
+    const result = await adapter.reviewCode(context, { model: 'local-model' });
+
+    expect(result.findings).toHaveLength(1);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,26 @@
+import { formatLogIssue, formatSetProgress, formatTaskComplete, isAzurePipelines } from '../src/core/pipelineReporter';
+
+describe('pipeline logging commands', () => {
+  it('should detect Azure Pipelines from TF_BUILD', () => {
+    expect(isAzurePipelines({ TF_BUILD: 'True' })).toBe(true);
+    expect(isAzurePipelines({})).toBe(false);
+  });
+
+  it('should format findings as logissue commands', () => {
+    expect(formatLogIssue({ file: '/src/app.ts', line: 12, severity: 'error', message: 'Unsafe eval', ruleId: 'no-eval' }))
+      .toBe('##vso[task.logissue type=error;sourcepath=src/app.ts;linenumber=12;columnnumber=1;code=no-eval;]Unsafe eval');
+    expect(formatLogIssue({ file: 'src/app.ts', line: 3, severity: 'info', message: 'Nit' }))
+      .toBe('##vso[task.logissue type=warning;sourcepath=src/app.ts;linenumber=3;columnnumber=1;][info] Nit');
+  });
+
+  it('should escape property values and messages', () => {
+    expect(formatLogIssue({ file: '/a;b].ts', line: 1, severity: 'warning', message: '100% sure\r\nsecond line' }))
+      .toBe('##vso[task.logissue type=warning;sourcepath=a%3Bb%5D.ts;linenumber=1;columnnumber=1;]100%AZP25 sure%0D%0Asecond line');
+  });
+
+  it('should format progress and completion commands', () => {
+    expect(formatSetProgress(2 / 3 * 100, 'Batch 2/3')).toBe('##vso[task.setprogress value=67;]Batch 2/3');
+    expect(formatSetProgress(140, 'Done')).toBe('##vso[task.setprogress value=100;]Done');
+    expect(formatTaskComplete('SucceededWithIssues', '2 findings')).toBe('##vso[task.complete result=SucceededWithIssues;]2 findings');
+  });
+});
@@ -0,0 +1,38 @@
+import { extractJson, parseRetryAfter } from '../src/core/llm/responseUtils';
+
+describe('extractJson', () => {
+  it('should parse raw JSON', () => {
+    expect(extractJson('{"findings": [], "summary": "ok"}')).toEqual({ findings: [], summary: 'ok' });
+  });
+
+  it('should parse JSON inside a markdown fence surrounded by prose', () => {
+    const content = 'Here is my review:\n```json\n{"findings": [{"file": "a.ts", "line": 1}]}\n```\nLet me know!';
+    expect(extractJson(content)).toEqual({ findings: [{ file: 'a.ts', line: 1 }] });
+  });
+
+  it('should ignore reasoning blocks and braces inside strings', () => {
+    const content = '<think>maybe {not json}</think>Result: {"findings": [{"message": "use } carefully"}]} done {x}';
+    expect(extractJson(content)).toEqual({ findings: [{ message: 'use } carefully' }] });
+  });
+
+  it('should return undefined when no JSON object is present', () => {
+    expect(extractJson('No issues found.')).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read delta seconds and retry-after-ms', () => {
+    expect(parseRetryAfter({ 'retry-after': '7' })).toBe(7000);
+    expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '7' })).toBe(1500);
+  });
+
+  it('should read an HTTP date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter({ 'retry-after': 'Wed, 21 Oct 2015 07:28:30 GMT' }, now)).toBe(30000);
+  });
+
+  it('should ignore missing or invalid headers', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { ReviewOrchestrator } from '../src/core/reviewOrchestrator';
+import { ReviewFinding } from '../src/core/llm/types';
+
+// chalk is an ES module jest cannot import; styling is irrelevant here
+jest.mock('chalk', () => {
+  const chalk: any = new Proxy((text: string) => text, { get: () => chalk });
+  return { __esModule: true, default: chalk };
+});
+
+describe('ReviewOrchestrator', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn(), step: jest.fn(), success: jest.fn() } as any;
+  const commenter = { resolveFixedThreads: jest.fn() };
+
+  const finding = (severity: ReviewFinding['severity'], line: number): ReviewFinding => ({
+    severity,
+    message: `Issue on line ${line}`,
+    file: '/src/service.ts',
+    line,
+    ruleId: 'rule'
+  });
+
+  /**
+   * Orchestrator whose pipeline steps are stubbed around the finding handling of run()
+   */
+  function createOrchestrator(options: Record<string, unknown>, findings: ReviewFinding[]) {
+    const orchestrator = new ReviewOrchestrator(logger, {});
+    const internals = orchestrator as any;
+    internals.commenter = commenter;
+
+    jest.spyOn(internals, 'initialize').mockImplementation(async () => {
+      internals.options = { severityThreshold: 'info', format: 'table', dryRun: false, autoApprove: false, ...options };
+    });
+    jest.spyOn(internals.argsParser, 'isOfflineReview').mockReturnValue(false);
+    jest.spyOn(internals, 'setupWorkspace').mockResolvedValue(undefined);
+    jest.spyOn(internals, 'fetchPRInfo').mockResolvedValue({ pullRequestId: 42 });
+    jest.spyOn(internals, 'fetchDiffs').mockResolvedValue({ files: [], iterationId: 3 });
+    jest.spyOn(internals, 'loadRules').mockResolvedValue({});
+    jest.spyOn(internals, 'buildContext').mockResolvedValue({});
+    jest.spyOn(internals, 'planReview').mockResolvedValue({ strategy: 'single' });
+    jest.spyOn(internals, 'executeReview').mockResolvedValue(findings);
+    jest.spyOn(internals, 'anchorFindings').mockImplementation(found => found);
+    jest.spyOn(internals, 'removeSuppressedFindings').mockImplementation(async found => found);
+    jest.spyOn(internals, 'getApproval').mockImplementation(async found => found);
+    jest.spyOn(internals, 'postComments').mockImplementation(async (found: any) =>
+      (found.length > 0 ? { commentsCreated: found.length, errors: [] } : undefined));
+    jest.spyOn(internals, 'answerReplies').mockResolvedValue({ repliesPosted: 0, errors: [] });
+    jest.spyOn(internals, 'updatePRStatus').mockResolvedValue(undefined);
+    jest.spyOn(internals, 'recordReviewedIteration').mockResolvedValue(undefined);
+
+    return { orchestrator, internals };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    commenter.resolveFixedThreads.mockResolvedValue({ threadsResolved: 0, errors: [] });
+  });
+
+  describe('resolving fixed threads', () => {
+    it('should judge threads against findings below the severity threshold', async () => {
+      const findings = [finding('error', 12), finding('info', 14)];
+      const { orchestrator } = createOrchestrator({ severityThreshold: 'error' }, findings);
+
+      const result = await orchestrator.run();
+
+      expect(result.findingsCount).toBe(1);
+      expect(commenter.resolveFixedThreads).toHaveBeenCalledWith(42, findings, [], 3, { dryRun: false });
+    });
+
+    it('should leave threads alone when the user cancels posting', async () => {
+      const { orchestrator, internals } = createOrchestrator({}, [finding('warning', 12)]);
+      internals.getApproval.mockResolvedValue([]);
+
+      await orchestrator.run();
+
+      expect(commenter.resolveFixedThreads).not.toHaveBeenCalled();
+      expect(internals.recordReviewedIteration).not.toHaveBeenCalled();
+    });
+
+    it('should leave threads alone when a batch fell back to basic findings', async () => {
+      const { orchestrator, internals } = createOrchestrator({ maxContextTokens: 10000 }, []);
+      const hunk = { filePath: '/src/service.ts', type: 'modified', startLine: 10, content: 'const a = 1;' };
+      const reviewCode = jest.fn()
+        .mockResolvedValueOnce({ findings: [finding('warning', 3)], summary: 'Looks fine' })
+        .mockRejectedValue(new Error('Request failed with status code 500'));
+      internals.llmAdapter = { reviewCode };
+      internals.contextBuilder = { buildContextForHunks: () => ({}) };
+      jest.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+      internals.executeReview.mockRestore();
+      internals.planReview.mockResolvedValue({
+        strategy: 'batched',
+        batches: [
+          { description: 'first', hunks: [hunk], estimatedTokens: 100 },
+          { description: 'second', hunks: [hunk], estimatedTokens: 100 }
+        ]
+      });
+
+      const result = await orchestrator.run();
+
+      expect(reviewCode).toHaveBeenCalledTimes(3);
+      expect(result.findingsCount).toBe(2);
+      expect(commenter.resolveFixedThreads).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('answering thread replies', () => {
+    it('should answer replies in unattended runs', async () => {
+      const { orchestrator, internals } = createOrchestrator({ autoApprove: true }, []);
+
+      await orchestrator.run();
+
+      expect(internals.answerReplies).toHaveBeenCalledWith({ pullRequestId: 42 }, 3);
+    });
+
+    it('should not spend LLM calls on replies in a dry run', async () => {
+      const { orchestrator, internals } = createOrchestrator({ autoApprove: true, dryRun: true }, []);
+
+      await orchestrator.run();
+
+      expect(internals.answerReplies).not.toHaveBeenCalled();
+    });
+  });
+});
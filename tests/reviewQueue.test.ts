@@ -0,0 +1,80 @@
+import { QueuedReview, ReviewQueue } from '../src/core/webhook/reviewQueue';
+
+describe('ReviewQueue', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), error: jest.fn() } as any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should review only the latest of rapid successive events for a PR', async () => {
+    const runner = jest.fn(async (_job: QueuedReview) => undefined);
+    const queue = new ReviewQueue(logger, runner, { debounceMs: 1000, maxConcurrent: 1 });
+
+    expect(queue.enqueue({ key: 'pr-1', sourceCommit: 'a' })).toBe('queued');
+    jest.advanceTimersByTime(500);
+    expect(queue.enqueue({ key: 'pr-1', sourceCommit: 'b' })).toBe('updated');
+    jest.advanceTimersByTime(999);
+    expect(runner).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    await queue.onIdle();
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    expect(runner).toHaveBeenCalledWith({ key: 'pr-1', sourceCommit: 'b' });
+  });
+
+  it('should skip events for a commit that was already reviewed', async () => {
+    const runner = jest.fn(async (_job: QueuedReview) => undefined);
+    const queue = new ReviewQueue(logger, runner, { debounceMs: 0, maxConcurrent: 1 });
+
+    queue.enqueue({ key: 'pr-1', sourceCommit: 'a' });
+    jest.runAllTimers();
+    await queue.onIdle();
+
+    expect(queue.enqueue({ key: 'pr-1', sourceCommit: 'a' })).toBe('skipped');
+    expect(queue.enqueue({ key: 'pr-1', sourceCommit: 'b' })).toBe('queued');
+  });
+
+  it('should retry a commit whose review failed', async () => {
+    const runner = jest.fn(async (_job: QueuedReview) => { throw new Error('LLM timeout'); });
+    const queue = new ReviewQueue(logger, runner, { debounceMs: 0, maxConcurrent: 1 });
+
+    queue.enqueue({ key: 'pr-1', sourceCommit: 'a' });
+    jest.runAllTimers();
+    await queue.onIdle();
+
+    expect(logger.error).toHaveBeenCalledWith('Review of pr-1 failed: LLM timeout');
+    expect(queue.enqueue({ key: 'pr-1', sourceCommit: 'a' })).toBe('queued');
+  });
+
+  it('should not review the same PR concurrently and respect the concurrency limit', async () => {
+    const finishers: Array<() => void> = [];
+    const started: string[] = [];
+    const runner = jest.fn((job: QueuedReview) => new Promise<void>(resolve => {
+      started.push(`${job.key}@${job.sourceCommit}`);
+      finishers.push(resolve);
+    }));
+    const queue = new ReviewQueue(logger, runner, { debounceMs: 0, maxConcurrent: 2 });
+
+    queue.enqueue({ key: 'pr-1', sourceCommit: 'a' });
+    jest.runAllTimers();
+    queue.enqueue({ key: 'pr-1', sourceCommit: 'b' });
+    queue.enqueue({ key: 'pr-2', sourceCommit: 'c' });
+    jest.runAllTimers();
+
+    expect(started).toEqual(['pr-1@a', 'pr-2@c']);
+
+    finishers.shift()!();
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(started).toEqual(['pr-1@a', 'pr-2@c', 'pr-1@b']);
+
+    finishers.forEach(finish => finish());
+    await queue.onIdle();
+  });
+});
@@ -0,0 +1,74 @@
+import { SarifReporter } from '../src/core/reporters/sarifReporter';
+import { ReportData } from '../src/core/reporters/types';
+
+describe('SarifReporter', () => {
+  const data: ReportData = {
+    tool: { name: 'ado-review', version: '1.2.3' },
+    files: ['/src/app.ts', 'src/util.ts'],
+    rules: [
+      {
+        id: 'no-eval',
+        name: 'No eval',
+        description: 'Avoid eval()',
+        severity: 'error',
+        category: 'security',
+        enabled: true
+      }
+    ],
+    findings: [
+      {
+        file: '/src/app.ts',
+        line: 10,
+        endLine: 12,
+        severity: 'error',
+        message: 'eval() on user input',
+        suggestion: 'Use JSON.parse instead',
+        ruleId: 'no-eval'
+      },
+      {
+        file: 'src/util.ts',
+        line: 3,
+        severity: 'info',
+        message: 'Consider a constant'
+      }
+    ]
+  };
+
+  it('should describe loaded rules on the tool driver', () => {
+    const log = JSON.parse(new SarifReporter().render(data));
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs[0].tool.driver).toMatchObject({
+      name: 'ado-review',
+      version: '1.2.3',
+      rules: [{
+        id: 'no-eval',
+        name: 'No eval',
+        fullDescription: { text: 'Avoid eval()' },
+        defaultConfiguration: { level: 'error' }
+      }]
+    });
+  });
+
+  it('should map findings to results with locations and fixes', () => {
+    const [first, second] = JSON.parse(new SarifReporter().render(data)).runs[0].results;
+
+    expect(first).toMatchObject({
+      ruleId: 'no-eval',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'eval() on user input' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 10, endLine: 12 }
+        }
+      }]
+    });
+    expect(first.fixes[0].description.text).toBe('Use JSON.parse instead');
+
+    expect(second.level).toBe('note');
+    expect(second.ruleId).toBeUndefined();
+    expect(second.fixes).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { parseServiceHookPayload, resolveRepositoryConfig, verifyWebhookRequest } from '../src/core/webhook/serviceHook';
+
+describe('parseServiceHookPayload', () => {
+  const payload = (overrides: Record<string, unknown> = {}) => ({
+    eventType: 'git.pullrequest.updated',
+    resource: {
+      pullRequestId: 42,
+      status: 'active',
+      repository: {
+        name: 'web app',
+        remoteUrl: 'https://myorg@dev.azure.com/myorg/Shop/_git/web%20app',
+        project: { name: 'Shop' }
+      },
+      lastMergeSourceCommit: { commitId: 'abc123' },
+      ...overrides
+    }
+  });
+
+  it('should turn a pull request event into a review target', () => {
+    expect(parseServiceHookPayload(payload())).toEqual({
+      kind: 'pullRequest',
+      event: {
+        eventType: 'git.pullrequest.updated',
+        prUrl: 'https://dev.azure.com/myorg/Shop/_git/web%20app/pullrequest/42',
+        collectionUrl: 'https://dev.azure.com/myorg',
+        project: 'Shop',
+        repo: 'web app',
+        pullRequestId: 42,
+        sourceCommit: 'abc123'
+      }
+    });
+  });
+
+  it('should support Azure DevOps Server repositories', () => {
+    const parsed = parseServiceHookPayload(payload({
+      repository: { remoteUrl: 'https://tfs.company.local/tfs/Main/Shop/_git/api' }
+    }));
+
+    expect(parsed.kind === 'pullRequest' && parsed.event.prUrl)
+      .toBe('https://tfs.company.local/tfs/Main/Shop/_git/api/pullrequest/42');
+  });
+
+  it('should read the pull request of a comment event', () => {
+    const parsed = parseServiceHookPayload({
+      eventType: 'ms.vss-code.git-pullrequest-comment-event',
+      resource: { comment: { id: 3, content: 'Why?' }, pullRequest: payload().resource }
+    });
+
+    expect(parsed.kind === 'pullRequest' && parsed.event).toMatchObject({
+      eventType: 'ms.vss-code.git-pullrequest-comment-event',
+      pullRequestId: 42,
+      prUrl: 'https://dev.azure.com/myorg/Shop/_git/web%20app/pullrequest/42'
+    });
+  });
+
+  it('should ignore other events and inactive pull requests', () => {
+    expect(parseServiceHookPayload({ eventType: 'git.push', resource: {} }).kind).toBe('ignored');
+    expect(parseServiceHookPayload(payload({ status: 'completed' }))).toEqual({
+      kind: 'ignored',
+      reason: 'Pull request 42 is completed'
+    });
+    expect(parseServiceHookPayload(null).kind).toBe('ignored');
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  const credentials = { secret: 's3cret', secretHeader: 'X-ADO-Review-Secret', username: 'hook', password: 'pw' };
+
+  it('should accept the shared secret header or matching basic auth', () => {
+    expect(verifyWebhookRequest({ 'x-ado-review-secret': 's3cret' }, credentials)).toBe(true);
+    expect(verifyWebhookRequest({ authorization: `Basic ${Buffer.from('hook:pw').toString('base64')}` }, credentials)).toBe(true);
+  });
+
+  it('should reject missing or wrong credentials', () => {
+    expect(verifyWebhookRequest({}, credentials)).toBe(false);
+    expect(verifyWebhookRequest({ 'x-ado-review-secret': 'guess' }, credentials)).toBe(false);
+    expect(verifyWebhookRequest({ authorization: `Basic ${Buffer.from('hook:nope').toString('base64')}` }, credentials)).toBe(false);
+  });
+});
+
+describe('resolveRepositoryConfig', () => {
+  const repositories = {
+    'Shop/api': { rules: ['rules/api.yaml'] },
+    'web': { enabled: false },
+    '*': { postStatus: true }
+  };
+
+  it('should prefer project/repo, then repo, then the wildcard', () => {
+    expect(resolveRepositoryConfig(repositories, 'shop', 'API')).toEqual({ rules: ['rules/api.yaml'] });
+    expect(resolveRepositoryConfig(repositories, 'Other', 'web')).toEqual({ enabled: false });
+    expect(resolveRepositoryConfig(repositories, 'Other', 'tools')).toEqual({ postStatus: true });
+    expect(resolveRepositoryConfig(undefined, 'Other', 'tools')).toEqual({});
+  });
+});
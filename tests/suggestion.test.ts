@@ -0,0 +1,71 @@
+import { validateReplacement } from '../src/core/suggestion';
+import { FileDiff } from '../src/core/diffFetcher';
+import { ReviewFinding } from '../src/core/llm/types';
+
+const hunkLines = [
+  ' export async function load(url: string) {',
+  '-  const data = fetch(url);',
+  '+  const data = fetch(url);',
+  '+  log(data);',
+  '   return data;',
+  ' }'
+];
+
+const files: FileDiff[] = [{
+  filePath: '/src/service.ts',
+  changeType: 'edit',
+  isText: true,
+  isBinary: false,
+  hunks: [{
+    filePath: '/src/service.ts',
+    changeType: 'edit',
+    oldLineStart: 10,
+    oldLineCount: 4,
+    newLineStart: 10,
+    newLineCount: 5,
+    content: hunkLines.join('\n'),
+    context: ''
+  }]
+}];
+
+const finding = (replacement: string, overrides: Partial<ReviewFinding> = {}): ReviewFinding => ({
+  file: 'src/service.ts',
+  line: 11,
+  severity: 'warning',
+  message: 'Missing await on fetch call',
+  replacement,
+  ...overrides
+});
+
+describe('validateReplacement', () => {
+  it('should accept a replacement for the referenced lines', () => {
+    expect(validateReplacement(finding('  const data = await fetch(url);'), files)).toBe('  const data = await fetch(url);');
+    expect(validateReplacement(finding('  const data = await fetch(url);\n  log(await data);', { endLine: 12 }), files))
+      .toBe('  const data = await fetch(url);\n  log(await data);');
+  });
+
+  it('should unwrap code fences, strip diff markers and restore dropped indentation', () => {
+    expect(validateReplacement(finding('```ts\nconst data = await fetch(url);\n```\n'), files)).toBe('  const data = await fetch(url);');
+    expect(validateReplacement(finding('+  const data = await fetch(url);'), files)).toBe('  const data = await fetch(url);');
+    expect(validateReplacement(finding('if (url) {\n  load(url);\n}'), files)).toBe('  if (url) {\n    load(url);\n  }');
+  });
+
+  it('should reject replacements that change nothing or cannot be checked', () => {
+    expect(validateReplacement(finding('  const data = fetch(url);  '), files)).toBeUndefined();
+    expect(validateReplacement(finding('   '), files)).toBeUndefined();
+    expect(validateReplacement(finding('x();', { line: 40 }), files)).toBeUndefined();
+    expect(validateReplacement(finding('x();', { file: 'src/other.ts' }), files)).toBeUndefined();
+    expect(validateReplacement(finding('const a = "```";'), files)).toBeUndefined();
+  });
+
+  it('should reject replacements that repeat the surrounding lines', () => {
+    const withContext = 'export async function load(url: string) {\n  const data = await fetch(url);';
+    expect(validateReplacement(finding(withContext), files)).toBeUndefined();
+    expect(validateReplacement(finding('  log(await data);\n  return data;', { line: 12 }), files)).toBeUndefined();
+  });
+
+  it('should return undefined without a replacement', () => {
+    const { replacement, ...plain } = finding('');
+    expect(validateReplacement(plain, files)).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findSuppressions, partitionSuppressed, SuppressionStore } from '../src/core/suppression';
+import { CommentThread } from '../src/core/adoClient';
+import { ReviewFinding } from '../src/core/llm/types';
+import { apiThread } from './fixtures/commentThreads';
+
+const dismissedThread = (overrides: Partial<CommentThread> = {}): CommentThread => apiThread({
+  status: 'wontFix',
+  properties: {
+    'ado-review.type': { $type: 'System.String', $value: 'line-group' },
+    'ado-review.fingerprints': { $type: 'System.String', $value: 'aaaa,bbbb' }
+  },
+  ...overrides
+});
+
+const finding = (fingerprint?: string): ReviewFinding => ({
+  file: 'src/service.ts',
+  line: 12,
+  severity: 'warning',
+  message: 'Missing await on fetch call',
+  ...(fingerprint && { fingerprint })
+});
+
+describe('findSuppressions', () => {
+  it('should collect fingerprints of dismissed ado-review threads', () => {
+    const suppressions = findSuppressions([
+      dismissedThread(),
+      dismissedThread({ id: 8, status: 'byDesign', properties: { 'ado-review.type': 'severity-group', 'ado-review.fingerprints': 'cccc' } })
+    ], 42);
+
+    expect(suppressions).toEqual([
+      { fingerprint: 'aaaa', filePath: '/src/service.ts', status: 'wontFix', pullRequestId: 42, threadId: 7 },
+      { fingerprint: 'bbbb', filePath: '/src/service.ts', status: 'wontFix', pullRequestId: 42, threadId: 7 },
+      { fingerprint: 'cccc', filePath: '/src/service.ts', status: 'byDesign', pullRequestId: 42, threadId: 8 }
+    ]);
+  });
+
+  it('should ignore open, fixed, deleted and foreign threads', () => {
+    expect(findSuppressions([
+      dismissedThread({ status: 'active' }),
+      dismissedThread({ status: 'fixed' }),
+      dismissedThread({ isDeleted: true }),
+      dismissedThread({ properties: { 'ado-review.type': 'summary', 'ado-review.fingerprints': 'aaaa' } }),
+      dismissedThread({ properties: { 'ado-review.fingerprints': 'aaaa' } })
+    ], 42)).toEqual([]);
+  });
+});
+
+describe('partitionSuppressed', () => {
+  it('should split findings by fingerprint', () => {
+    const dismissed = finding('aaaa');
+    const fresh = finding('dddd');
+    const unknown = finding();
+
+    expect(partitionSuppressed([dismissed, fresh, unknown], new Set(['aaaa']))).toEqual({
+      kept: [fresh, unknown],
+      suppressed: [dismissed]
+    });
+  });
+});
+
+describe('SuppressionStore', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ado-review-suppressions-'));
+    filePath = path.join(dir, 'suppressions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist suppressions per repository', () => {
+    const store = new SuppressionStore(logger, filePath);
+    store.load();
+    expect(store.record('Shop/api', findSuppressions([dismissedThread()], 42))).toBe(2);
+    expect(store.record('Shop/api', findSuppressions([dismissedThread()], 43))).toBe(0);
+
+    const restarted = new SuppressionStore(logger, filePath);
+    restarted.load();
+
+    expect(restarted.getFingerprints('Shop/api')).toEqual(new Set(['aaaa', 'bbbb']));
+    expect(restarted.getFingerprints('Shop/web')).toEqual(new Set());
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('should start empty when the file is unreadable', () => {
+    fs.writeFileSync(filePath, '{ not json');
+    const store = new SuppressionStore(logger, filePath);
+    store.load();
+
+    expect(store.getFingerprints('Shop/api').size).toBe(0);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  createResolutionReply,
+  findResolvedThreads,
+  getThreadProperty,
+  toTrackedThread,
+  TrackedThread
+} from '../src/core/threadResolution';
+import { FileDiff } from '../src/core/diffFetcher';
+import { ReviewFinding } from '../src/core/llm/types';
+import { apiThread } from './fixtures/commentThreads';
+
+function editedFile(newLineStart: number, newLineCount: number, changeType: FileDiff['changeType'] = 'edit'): FileDiff {
+  return {
+    filePath: '/src/service.ts',
+    changeType,
+    isText: true,
+    isBinary: false,
+    hunks: [
+      {
+        filePath: '/src/service.ts',
+        changeType,
+        oldLineStart: newLineStart,
+        oldLineCount: newLineCount,
+        newLineStart,
+        newLineCount,
+        content: '',
+        context: ''
+      }
+    ]
+  };
+}
+
+const thread: TrackedThread = {
+  id: 7,
+  type: 'line-group',
+  filePath: '/src/service.ts',
+  startLine: 12,
+  endLine: 12,
+  ruleIds: ['async-await'],
+  fingerprints: [],
+  messages: ['Missing await on fetch call']
+};
+
+const finding = (overrides: Partial<ReviewFinding> = {}): ReviewFinding => ({
+  file: 'src/service.ts',
+  line: 13,
+  severity: 'warning',
+  message: 'Missing await on fetch call',
+  ruleId: 'async-await',
+  ...overrides
+});
+
+describe('getThreadProperty', () => {
+  it('should unwrap typed values returned by the REST API', () => {
+    expect(getThreadProperty({ a: { $type: 'System.Int32', $value: 3 } }, 'a')).toBe('3');
+  });
+
+  it('should accept plain values and missing keys', () => {
+    expect(getThreadProperty({ a: 'line-group' }, 'a')).toBe('line-group');
+    expect(getThreadProperty(undefined, 'a')).toBeUndefined();
+  });
+});
+
+describe('toTrackedThread', () => {
+  it('should extract position, rule IDs and messages from finding comments only', () => {
+    expect(toTrackedThread(apiThread())).toEqual(thread);
+  });
+
+  it('should merge thread-level rule IDs and read fingerprints', () => {
+    const tracked = toTrackedThread(apiThread({
+      properties: {
+        'ado-review.type': 'severity-group',
+        'ado-review.ruleIds': 'no-any,async-await',
+        'ado-review.fingerprints': { $type: 'System.String', $value: 'aaaa,bbbb' }
+      }
+    }));
+    expect(tracked?.type).toBe('severity-group');
+    expect(tracked?.ruleIds).toEqual(['no-any', 'async-await']);
+    expect(tracked?.fingerprints).toEqual(['aaaa', 'bbbb']);
+  });
+
+  it('should ignore threads that are not active review findings', () => {
+    expect(toTrackedThread(apiThread({ status: 'fixed' }))).toBeUndefined();
+    expect(toTrackedThread(apiThread({ isDeleted: true }))).toBeUndefined();
+    expect(toTrackedThread(apiThread({ properties: { 'ado-review.type': 'summary-thread' } }))).toBeUndefined();
+    expect(toTrackedThread(apiThread({ properties: {} }))).toBeUndefined();
+  });
+
+  it('should leave the position empty when the tracked lines were deleted', () => {
+    const tracked = toTrackedThread(apiThread({ threadContext: { filePath: '/src/service.ts', rightFileStart: null } }));
+    expect(tracked?.startLine).toBeUndefined();
+    expect(tracked?.endLine).toBeUndefined();
+  });
+});
+
+describe('findResolvedThreads', () => {
+  it('should keep threads whose finding reproduces near the same lines', () => {
+    expect(findResolvedThreads([thread], [finding()], [editedFile(10, 8)])).toEqual([]);
+  });
+
+  it('should resolve threads whose finding is gone', () => {
+    expect(findResolvedThreads([thread], [], [editedFile(10, 8)])).toEqual([{ thread, reason: 'fixed' }]);
+  });
+
+  it('should not count a different rule or a distant line as the same issue', () => {
+    const others = [finding({ ruleId: 'no-any' }), finding({ line: 40 })];
+    expect(findResolvedThreads([thread], others, [editedFile(10, 40)])).toEqual([{ thread, reason: 'fixed' }]);
+  });
+
+  it('should fall back to message similarity without rule IDs', () => {
+    const unnamed = { ...thread, ruleIds: [] };
+    expect(findResolvedThreads([unnamed], [{ file: 'src/service.ts', line: 12, severity: 'warning', message: 'Missing await on the fetch call' }], [editedFile(10, 8)])).toEqual([]);
+    expect(findResolvedThreads([unnamed], [finding({ message: 'Unused variable' })], [editedFile(10, 8)])).toHaveLength(1);
+  });
+
+  it('should keep threads whose fingerprint reproduces anywhere in the file', () => {
+    const fingerprinted = { ...thread, fingerprints: ['0123456789abcdef'] };
+    const moved = finding({ line: 60, ruleId: 'renamed-rule', fingerprint: '0123456789abcdef' });
+    expect(findResolvedThreads([fingerprinted], [moved], [editedFile(10, 8)])).toEqual([]);
+  });
+
+  it('should ignore the position of severity groups', () => {
+    const group = { ...thread, type: 'severity-group' as const };
+    expect(findResolvedThreads([group], [finding({ line: 80 })], [editedFile(10, 8)])).toEqual([]);
+  });
+
+  it('should leave threads outside the reviewed hunks alone', () => {
+    expect(findResolvedThreads([thread], [], [editedFile(30, 5)])).toEqual([]);
+    expect(findResolvedThreads([thread], [], [])).toEqual([]);
+  });
+
+  it('should resolve threads whose lines or file were deleted', () => {
+    const { startLine, endLine, ...deletedLines } = thread;
+    expect(findResolvedThreads([deletedLines], [], [])).toEqual([{ thread: deletedLines, reason: 'linesDeleted' }]);
+    expect(findResolvedThreads([thread], [], [editedFile(1, 0, 'delete')])).toEqual([{ thread, reason: 'fileDeleted' }]);
+  });
+});
+
+describe('createResolutionReply', () => {
+  it('should name the iteration and the reason', () => {
+    expect(createResolutionReply('fixed', 4)).toContain('no longer reproduces in iteration 4');
+    expect(createResolutionReply('linesDeleted')).toContain('removed in the latest iteration');
+    expect(createResolutionReply('fileDeleted', 2)).toContain('file was deleted');
+  });
+});
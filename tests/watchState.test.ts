@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WatchStateStore } from '../src/core/watchState';
+
+describe('WatchStateStore', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ado-review-watch-'));
+    filePath = path.join(dir, 'state', 'watch.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist reviewed iterations across instances', () => {
+    const store = new WatchStateStore(logger, filePath);
+    store.load();
+    store.record('repo-1#12', 3, 'abc');
+
+    const restarted = new WatchStateStore(logger, filePath);
+    restarted.load();
+
+    expect(restarted.get('repo-1#12')).toMatchObject({ iteration: 3, sourceCommit: 'abc' });
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('should drop pull requests that are no longer active', () => {
+    const store = new WatchStateStore(logger, filePath);
+    store.record('repo-1#12', 3);
+    store.record('repo-1#13', 1);
+
+    store.retain(['repo-1#13']);
+
+    const restarted = new WatchStateStore(logger, filePath);
+    restarted.load();
+    expect(restarted.get('repo-1#12')).toBeUndefined();
+    expect(restarted.get('repo-1#13')?.iteration).toBe(1);
+  });
+
+  it('should start empty when the state file is corrupt', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json');
+
+    const store = new WatchStateStore(logger, filePath);
+    store.load();
+
+    expect(store.get('repo-1#12')).toBeUndefined();
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { WebhookServer } from '../src/core/webhook/webhookServer';
+
+describe('WebhookServer', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as any;
+  const errorHandler = { createUserError: jest.fn((message: string) => new Error(message)) } as any;
+  const queue = { enqueue: jest.fn(), pendingCount: 1, runningCount: 0 };
+
+  const payload = {
+    eventType: 'git.pullrequest.updated',
+    resource: {
+      pullRequestId: 42,
+      status: 'active',
+      repository: {
+        name: 'web',
+        remoteUrl: 'https://myorg@dev.azure.com/myorg/Shop/_git/web',
+        project: { name: 'Shop' }
+      },
+      lastMergeSourceCommit: { commitId: 'abc123' }
+    }
+  };
+
+  let server: WebhookServer;
+  let baseUrl: string;
+
+  const post = (body: string, headers: Record<string, string> = { 'X-ADO-Review-Secret': 's3cret' }) =>
+    fetch(`${baseUrl}/hooks/ado`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    queue.enqueue.mockReturnValue('queued');
+    server = new WebhookServer(logger, errorHandler, {
+      port: 0,
+      host: '127.0.0.1',
+      path: '/hooks/ado',
+      maxBodyBytes: 1024,
+      credentials: { secret: 's3cret', secretHeader: 'X-ADO-Review-Secret', username: 'hook', password: 'pw' }
+    }, queue as any);
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should queue a review of the pull request and answer 202', async () => {
+    const response = await post(JSON.stringify(payload));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ status: 'queued', pullRequestId: 42 });
+    expect(queue.enqueue).toHaveBeenCalledWith({
+      key: 'https://dev.azure.com/myorg/shop/web#42',
+      sourceCommit: 'abc123',
+      event: expect.objectContaining({ pullRequestId: 42, repo: 'web' })
+    });
+  });
+
+  it('should accept basic authentication', async () => {
+    const response = await post(JSON.stringify(payload), { Authorization: `Basic ${Buffer.from('hook:pw').toString('base64')}` });
+
+    expect(response.status).toBe(202);
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject requests without the right secret', async () => {
+    const missing = await post(JSON.stringify(payload), {});
+    const wrong = await post(JSON.stringify(payload), { 'X-ADO-Review-Secret': 'guess' });
+
+    expect([missing.status, wrong.status]).toEqual([401, 401]);
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should answer 404 for other paths and 405 for other methods', async () => {
+    const unknown = await fetch(`${baseUrl}/other`, { method: 'POST' });
+    const get = await fetch(`${baseUrl}/hooks/ado`);
+
+    expect(unknown.status).toBe(404);
+    expect(get.status).toBe(405);
+  });
+
+  it('should reject bodies over the size limit', async () => {
+    const response = await post(JSON.stringify({ ...payload, padding: 'x'.repeat(2048) }));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Payload too large' });
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid JSON', async () => {
+    const response = await post('{"eventType":');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid JSON payload' });
+  });
+
+  it('should acknowledge events it does not review without queueing them', async () => {
+    const response = await post(JSON.stringify({ eventType: 'build.complete', resource: {} }));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({ status: 'ignored' });
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should report queue counts on the health endpoint without credentials', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(await response.json()).toEqual({ status: 'ok', pending: 1, running: 0 });
+  });
+});
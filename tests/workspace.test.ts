@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Workspace } from '../src/core/workspace';
+
+describe('Workspace', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn() } as any;
+  const errorHandler = {} as any;
+  const events = ['exit', 'SIGINT', 'SIGTERM', 'uncaughtException', 'unhandledRejection'];
+  let baseDir: string;
+
+  const listenerCounts = () => events.map(event => process.listenerCount(event));
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should not add process handlers unless asked to', async () => {
+    const before = listenerCounts();
+
+    const workspace = new Workspace(logger, errorHandler, { baseDir });
+    await workspace.create();
+
+    expect(listenerCounts()).toEqual(before);
+    await workspace.cleanup();
+  });
+
+  it('should remove its process handlers once the workspace is cleaned up', async () => {
+    const before = listenerCounts();
+
+    const workspace = new Workspace(logger, errorHandler, { baseDir, handleProcessExit: true });
+    const workspacePath = await workspace.create();
+    expect(listenerCounts()).toEqual(before.map(count => count + 1));
+
+    await workspace.cleanup();
+
+    expect(listenerCounts()).toEqual(before);
+    expect(fs.existsSync(workspacePath)).toBe(false);
+  });
+});